@@ -1,7 +1,7 @@
 // src/App.tsx
 import { useEffect } from "react";
-import { Route, Routes } from "react-router-dom";
-import { Toaster } from "react-hot-toast";
+import { Route, Routes, useNavigate } from "react-router-dom";
+import toast, { Toaster } from "react-hot-toast";
 
 import { socket } from "./lib/socket";
 import { useGameStore } from "./store/gameStore";
@@ -10,12 +10,16 @@ import LandingPage from "./pages/LandingPage";
 import LobbyPage from "./pages/LobbyPage";
 import RoundPage from "./pages/RoundPage";
 import GameOverPage from "./pages/GameOverPage";
+import ReplayPage from "./pages/ReplayPage";
+import AnalyticsPage from "./pages/AnalyticsPage";
 import NotFoundPage from "./pages/404/NotFoundPage";
 import type { GameDTO } from "./types/game";
 
 function App() {
   const updateFromGame = useGameStore((s) => s.updateFromGame);
   const setFromCreateOrJoin = useGameStore((s) => s.setFromCreateOrJoin);
+  const reset = useGameStore((s) => s.reset);
+  const navigate = useNavigate();
 
   useEffect(() => {
     
@@ -36,17 +40,18 @@ function App() {
     // Try to reconnect if we have saved session
     try {
       const storedCode = localStorage.getItem("gameCode");
-      const storedPlayerId = localStorage.getItem("playerId");
-      if (storedCode && storedPlayerId) {
+      const storedToken = localStorage.getItem("sessionToken");
+      if (storedCode && storedToken) {
         console.log("Attempting reconnect to", storedCode);
         socket.emit(
           "game:reconnect",
-          { code: storedCode, playerId: storedPlayerId },
+          { sessionToken: storedToken },
           (res: any) => {
             if (res?.ok && res.game) {
               // Use existing setter to populate store
               setFromCreateOrJoin({
                 code: res.game.code,
+                sessionToken: res.sessionToken ?? storedToken,
                 playerId: res.playerId,
                 alias: res.alias,
                 colorId: res.colorId,
@@ -66,6 +71,25 @@ function App() {
     };
   }, [updateFromGame, setFromCreateOrJoin]); // This WILL cause infinite loops with old Zustand setup
 
+  // The server has already dropped this socket from the game; forget the session too
+  useEffect(() => {
+    const onKicked = () => {
+      toast.error("The host removed you from the game");
+      reset();
+      navigate("/", { replace: true });
+    };
+    // Sent to the host only
+    const onReported = (payload: { alias: string; count: number }) => {
+      toast(`${payload.alias} was reported (${payload.count} ${payload.count === 1 ? "report" : "reports"})`, { icon: "🚩" });
+    };
+    socket.on("game:kicked", onKicked);
+    socket.on("player:reported", onReported);
+    return () => {
+      socket.off("game:kicked", onKicked);
+      socket.off("player:reported", onReported);
+    };
+  }, [reset, navigate]);
+
   return (
     <>
       <Routes>
@@ -73,6 +97,8 @@ function App() {
         <Route path="/lobby/:code" element={<LobbyPage />} />
         <Route path="/game/:code/round/:roundNumber" element={<RoundPage />} />
         <Route path="/game/:code/over" element={<GameOverPage />} />
+        <Route path="/game/:code/replay" element={<ReplayPage />} />
+        <Route path="/analytics" element={<AnalyticsPage />} />
         <Route path="*" element={<NotFoundPage />} />
       </Routes>
 
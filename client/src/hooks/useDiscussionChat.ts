@@ -0,0 +1,62 @@
+// src/hooks/useDiscussionChat.ts
+import { useCallback, useEffect, useState } from "react";
+import { socket } from "../lib/socket";
+import type { ChatMessageDTO } from "../types/game";
+
+interface ChatPayload {
+  code: string;
+  roundNumber: number;
+  message: ChatMessageDTO;
+}
+
+interface HistoryAck {
+  ok: boolean;
+  error?: string;
+  messages?: ChatMessageDTO[];
+}
+
+interface SendAck {
+  ok: boolean;
+  error?: string;
+  messageId?: string;
+  filtered?: boolean;
+}
+
+// Discussion log for a round: history on mount, live lines after that
+export function useDiscussionChat(code: string | undefined, roundNumber: number) {
+  const [messages, setMessages] = useState<ChatMessageDTO[]>([]);
+
+  useEffect(() => {
+    setMessages([]);
+    if (!code || Number.isNaN(roundNumber)) return;
+
+    const add = (incoming: ChatMessageDTO[]) =>
+      setMessages((prev) => {
+        const seen = new Set(prev.map((m) => m.messageId));
+        return [...prev, ...incoming.filter((m) => !seen.has(m.messageId))].sort((a, b) => a.at - b.at);
+      });
+
+    const onMessage = (payload: ChatPayload) => {
+      if (payload.code !== code.toUpperCase() || payload.roundNumber !== roundNumber) return;
+      add([payload.message]);
+    };
+    socket.on("chat:message", onMessage);
+    socket.emit("chat:history", { code, roundNumber }, (res: HistoryAck) => {
+      if (res.ok && res.messages) add(res.messages);
+    });
+    return () => {
+      socket.off("chat:message", onMessage);
+    };
+  }, [code, roundNumber]);
+
+  const sendMessage = useCallback(
+    (text: string) =>
+      new Promise<SendAck>((resolve) => {
+        if (!code) return resolve({ ok: false, error: "Missing game code" });
+        socket.emit("chat:message", { code, text }, (res: SendAck) => resolve(res));
+      }),
+    [code]
+  );
+
+  return { messages, sendMessage };
+}
@@ -0,0 +1,44 @@
+// src/hooks/usePlayerModeration.ts
+import { useCallback } from "react";
+import toast from "react-hot-toast";
+import { socket } from "../lib/socket";
+
+interface ModerationResponse {
+  ok: boolean;
+  error?: string;
+}
+
+const MAX_REASON_CHARS = 200;
+
+// Host kicks by playerId; anyone reports by color, which is all the round screen shows
+export function usePlayerModeration(code: string | undefined) {
+  const kick = useCallback(
+    (playerId: string, alias: string) => {
+      if (!code || !window.confirm(`Kick ${alias}? They won't be able to rejoin for a while.`)) return;
+      socket.emit("game:kick", { code, playerId }, (res: ModerationResponse) => {
+        if (!res.ok) toast.error(res.error ?? "Could not kick player");
+        else toast.success(`${alias} was kicked`);
+      });
+    },
+    [code]
+  );
+
+  const report = useCallback(
+    (colorId: string, label: string) => {
+      if (!code) return;
+      const reason = window.prompt(`Report ${label} to the host? Add a reason (optional):`);
+      if (reason === null) return;
+      socket.emit(
+        "player:report",
+        { code, colorId, reason: reason.trim().slice(0, MAX_REASON_CHARS) },
+        (res: ModerationResponse) => {
+          if (!res.ok) toast.error(res.error ?? "Could not send report");
+          else toast.success("Report sent to the host");
+        }
+      );
+    },
+    [code]
+  );
+
+  return { kick, report };
+}
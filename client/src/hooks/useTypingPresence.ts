@@ -0,0 +1,44 @@
+// src/hooks/useTypingPresence.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { socket } from "../lib/socket";
+
+interface TypingPayload {
+  code: string;
+  roundNumber: number;
+  colors: string[];
+}
+
+// The server forgets a typing report after a few seconds, so resend while typing continues
+const REFRESH_MS = 2000;
+
+export function useTypingPresence(code: string | undefined, roundNumber: number) {
+  const [typingColors, setTypingColors] = useState<string[]>([]);
+  const lastSentAt = useRef(0);
+
+  useEffect(() => {
+    setTypingColors([]);
+    lastSentAt.current = 0;
+    const onTyping = (payload: TypingPayload) => {
+      if (payload.code !== code?.toUpperCase() || payload.roundNumber !== roundNumber) return;
+      setTypingColors(payload.colors);
+    };
+    socket.on("round:typing", onTyping);
+    return () => {
+      socket.off("round:typing", onTyping);
+    };
+  }, [code, roundNumber]);
+
+  const reportTyping = useCallback(
+    (typing: boolean) => {
+      if (!code) return;
+      const now = Date.now();
+      if (typing && now - lastSentAt.current < REFRESH_MS) return;
+      if (!typing && lastSentAt.current === 0) return;
+      lastSentAt.current = typing ? now : 0;
+      socket.emit("round:typing", { code, typing });
+    },
+    [code]
+  );
+
+  return { typingColors, reportTyping };
+}
@@ -0,0 +1,18 @@
+// src/lib/analytics.ts
+import { SERVER_URL } from "./socket";
+import type { AnalyticsReport } from "../types/analytics";
+
+export class AnalyticsAuthError extends Error {}
+
+/** Fetch the analytics report; the server only serves it with its ANALYTICS_TOKEN. */
+export async function fetchAnalytics(token?: string): Promise<AnalyticsReport> {
+  const res = await fetch(`${SERVER_URL}/api/analytics`, {
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+  if (res.status === 401) throw new AnalyticsAuthError("Analytics token required");
+  const data = (await res.json().catch(() => null)) as { ok: boolean; error?: string; report?: AnalyticsReport } | null;
+  if (!res.ok || !data?.ok || !data.report) {
+    throw new Error(data?.error ?? `Could not load analytics (${res.status})`);
+  }
+  return data.report;
+}
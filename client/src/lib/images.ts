@@ -0,0 +1,46 @@
+// src/lib/images.ts
+import { SERVER_URL } from "./socket";
+
+// Keep in sync with the server's MAX_IMAGE_BYTES default
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+export const ALLOWED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+interface UploadResponse {
+  ok: boolean;
+  error?: string;
+  url?: string;
+}
+
+// Submission content for image rounds is a server path; resolve it against the backend
+export function imageSrc(path: string): string {
+  return path.startsWith("/") ? `${SERVER_URL}${path}` : path;
+}
+
+/** Upload an image for the current game; resolves to the URL to submit. */
+export async function uploadImage(file: File, sessionToken: string): Promise<string> {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error("Use a PNG, JPEG, GIF or WebP image");
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    throw new Error(`Image must be under ${Math.round(MAX_IMAGE_BYTES / 1024 / 1024)} MB`);
+  }
+
+  const res = await fetch(`${SERVER_URL}/api/images`, {
+    method: "POST",
+    headers: {
+      "Content-Type": file.type,
+      Authorization: `Bearer ${sessionToken}`,
+    },
+    body: file,
+  });
+  let data: UploadResponse | null = null;
+  try {
+    data = (await res.json()) as UploadResponse;
+  } catch {
+    // Non-JSON error page
+  }
+  if (!res.ok || !data?.ok || !data.url) {
+    throw new Error(data?.error ?? `Upload failed (${res.status})`);
+  }
+  return data.url;
+}
@@ -3,7 +3,7 @@ import { io, Socket } from "socket.io-client";
 
 const BACKEND_PORT = 8001;
 
-const SERVER_URL =
+export const SERVER_URL =
   (typeof process !== "undefined" && process.env.SERVER_URL) ||
   `${window.location.protocol}//${window.location.hostname}:${BACKEND_PORT}`;
 
@@ -0,0 +1,229 @@
+// src/pages/AnalyticsPage.tsx
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+
+import { AnalyticsAuthError, fetchAnalytics } from "../lib/analytics";
+import type { AIGroupMetrics, AnalyticsReport, StyleFeature, TimingStats } from "../types/analytics";
+
+type GroupBy = "byModel" | "byProvider" | "byArm" | "byAlias";
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  byModel: "Model",
+  byProvider: "Provider",
+  byArm: "Experiment arm",
+  byAlias: "AI alias",
+};
+
+const FEATURE_LABELS: Record<StyleFeature, string> = {
+  lengthDeviation: "Length deviation",
+  casingMismatch: "Casing mismatch",
+  punctuationMismatch: "Punctuation mismatch",
+};
+
+const TOKEN_KEY = "analyticsToken";
+
+const percent = (n: number) => `${Math.round(n * 100)}%`;
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+function TimingRow({ label, stats }: { label: string; stats: TimingStats }) {
+  return (
+    <tr>
+      <td className="font-medium">{label}</td>
+      <td>{stats.submissions}</td>
+      <td>{seconds(stats.medianMs)}</td>
+      <td>
+        {seconds(stats.p10Ms)} – {seconds(stats.p90Ms)}
+      </td>
+      <td>{percent(stats.firstShare)}</td>
+      <td>{percent(stats.lastShare)}</td>
+    </tr>
+  );
+}
+
+// Positive = the feature goes with more human votes (it gives the AI away)
+function CorrelationCell({ value }: { value: number | null }) {
+  if (value == null) return <td className="opacity-50">—</td>;
+  const tone = value > 0.3 ? "text-error" : value < -0.3 ? "text-success" : "";
+  return <td className={`font-mono ${tone}`}>{value.toFixed(2)}</td>;
+}
+
+const AnalyticsPage = () => {
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsToken, setNeedsToken] = useState(false);
+  const [token, setToken] = useState(() => localStorage.getItem(TOKEN_KEY) ?? "");
+  const [groupBy, setGroupBy] = useState<GroupBy>("byModel");
+
+  const load = useCallback(async (withToken: string) => {
+    setError(null);
+    try {
+      setReport(await fetchAnalytics(withToken || undefined));
+      setNeedsToken(false);
+      if (withToken) localStorage.setItem(TOKEN_KEY, withToken);
+    } catch (err) {
+      if (err instanceof AnalyticsAuthError) setNeedsToken(true);
+      else setError(err instanceof Error ? err.message : "Could not load analytics");
+    }
+  }, []);
+
+  useEffect(() => {
+    void load(localStorage.getItem(TOKEN_KEY) ?? "");
+  }, [load]);
+
+  const groups: AIGroupMetrics[] = report?.[groupBy] ?? [];
+  const chartData = groups.map((g) => ({
+    name: g.key,
+    "Human vote share": Math.round(g.humanVoteShare * 100),
+    "Elimination rate": Math.round(g.eliminationRate * 100),
+  }));
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-base-200 gap-6 p-4">
+      <h1 className="text-3xl font-bold">AI detection analytics</h1>
+
+      {needsToken && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void load(token);
+          }}
+        >
+          <input
+            type="password"
+            className="input input-bordered"
+            placeholder="Analytics token"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+          />
+          <button className="btn btn-primary" type="submit">
+            Load
+          </button>
+        </form>
+      )}
+
+      {error && <p className="text-error">{error}</p>}
+
+      {report && (
+        <div className="w-full max-w-5xl flex flex-col gap-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="opacity-70 text-sm">
+              {report.submissions} AI submissions across {report.games} games · updated{" "}
+              {new Date(report.generatedAt).toLocaleTimeString()}
+            </p>
+            <div className="flex items-center gap-2">
+              <select
+                className="select select-bordered select-sm"
+                value={groupBy}
+                onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+              >
+                {(Object.keys(GROUP_LABELS) as GroupBy[]).map((k) => (
+                  <option key={k} value={k}>
+                    By {GROUP_LABELS[k].toLowerCase()}
+                  </option>
+                ))}
+              </select>
+              <button className="btn btn-sm" onClick={() => void load(token)}>
+                Refresh
+              </button>
+            </div>
+          </div>
+
+          {groups.length === 0 ? (
+            <p className="opacity-70">No completed rounds with AI submissions yet.</p>
+          ) : (
+            <>
+              <div className="card bg-base-100">
+                <div className="card-body h-80">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="name" />
+                      <YAxis unit="%" domain={[0, 100]} />
+                      <Tooltip />
+                      <Legend />
+                      <Bar dataKey="Human vote share" fill="#f97316" />
+                      <Bar dataKey="Elimination rate" fill="#ef4444" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+
+              <div className="card bg-base-100 overflow-x-auto">
+                <table className="table table-sm">
+                  <thead>
+                    <tr>
+                      <th>{GROUP_LABELS[groupBy]}</th>
+                      <th>Submissions</th>
+                      <th>Human votes</th>
+                      <th>Eliminated</th>
+                      <th>Rounds survived</th>
+                      <th>Reward</th>
+                      {(Object.keys(FEATURE_LABELS) as StyleFeature[]).map((f) => (
+                        <th key={f} title="Correlation with human vote share">
+                          {FEATURE_LABELS[f]}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {groups.map((g) => (
+                      <tr key={g.key}>
+                        <td className="font-medium">{g.key}</td>
+                        <td>{g.submissions}</td>
+                        <td>{percent(g.humanVoteShare)}</td>
+                        <td>{percent(g.eliminationRate)}</td>
+                        <td>{g.avgRoundsSurvived.toFixed(1)}</td>
+                        <td className="font-mono">{g.meanReward.toFixed(2)}</td>
+                        {(Object.keys(FEATURE_LABELS) as StyleFeature[]).map((f) => (
+                          <CorrelationCell key={f} value={g.styleCorrelations[f]} />
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs opacity-60">
+                Style columns are correlations with the human vote share: positive values mean the feature tends to give the
+                AI away.
+              </p>
+
+              <div className="card bg-base-100 overflow-x-auto">
+                <div className="card-body gap-2">
+                  <h2 className="card-title text-lg">Submission timing</h2>
+                  <table className="table table-sm">
+                    <thead>
+                      <tr>
+                        <th></th>
+                        <th>Submissions</th>
+                        <th>Median</th>
+                        <th>10th–90th pct</th>
+                        <th>First in round</th>
+                        <th>Last in round</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <TimingRow label="Humans" stats={report.timing.human} />
+                      <TimingRow label="AIs" stats={report.timing.ai} />
+                    </tbody>
+                  </table>
+                  <p className="text-xs opacity-60">
+                    {percent(report.timing.aiOutsideHumanRange)} of AI submissions fall outside the humans' 10th–90th
+                    percentile.
+                  </p>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <Link to="/" className="btn btn-ghost">
+        Back
+      </Link>
+    </div>
+  );
+};
+
+export default AnalyticsPage;
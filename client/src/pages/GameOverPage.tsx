@@ -1,6 +1,6 @@
 // src/pages/GameOverPage.tsx
 import { useEffect } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import { Link, useNavigate, useParams } from "react-router-dom";
 import toast from "react-hot-toast";
 import { motion, AnimatePresence } from "framer-motion";
 
@@ -56,7 +56,6 @@ const GameOverPage = () => {
   const navigate = useNavigate();
 
   // Store selectors (Selektoren / seçiciler)
-  const playerId = useGameStore((s) => s.playerId);
   const storeIsHost = useGameStore((s) => s.isHost);
   const lastGameSnapshot = useGameStore((s) => s.lastGameSnapshot);
   const gameState = useGameStore((s) => s.gameState);
@@ -80,31 +79,22 @@ const GameOverPage = () => {
   useEffect(() => {
     if (!lastGameSnapshot || !code) return;
 
-    if (gameState === "ROUND_SUBMITTING" || gameState === "ROUND_VOTING") {
+    if (gameState === "ROUND_SUBMITTING" || gameState === "ROUND_DISCUSSION" || gameState === "ROUND_VOTING") {
       navigate(`/game/${code}/round/${roundNumber}`, { replace: true });
     }
   }, [gameState, roundNumber, code, lastGameSnapshot, navigate]);
 
   // 3) Host'u snapshot'tan da doğrula (Fallback / yedek)
-  const snapshotIsHost =
-    !!lastGameSnapshot &&
-    !!playerId &&
-    !!lastGameSnapshot.players.find(
-      (p) =>
-        p.playerId === playerId &&
-        (((p as any).host === true) ||
-          ((p as any).isHost === true) ||
-          ((p as any).role === "HOST"))
-    );
+  const snapshotIsHost = !!lastGameSnapshot?.self?.isHost;
 
   const isHost = storeIsHost || snapshotIsHost;
 
   const handleRestart = () => {
-    if (!code || !playerId) return;
+    if (!code) return;
 
     socket.emit(
       "game:restart",
-      { code, playerId, roundType: "TEXT" },
+      { code },
       (res: RestartResponse) => {
         if (!res.ok) {
           toast.error(res.error ?? "Could not restart game");
@@ -127,10 +117,7 @@ const GameOverPage = () => {
   // Host alias (Host-Spieler / host oyuncu)
   const hostPlayer =
     lastGameSnapshot?.players.find(
-      (p) =>
-        (p as any).host === true ||
-        (p as any).isHost === true ||
-        (p as any).role === "HOST"
+      (p) => p.playerId === lastGameSnapshot.hostPlayerId
     ) ?? null;
   const hostAlias = hostPlayer?.alias ?? "Host";
 
@@ -228,6 +215,12 @@ const GameOverPage = () => {
         </AnimatePresence>
       )}
 
+      {code && (
+        <Link to={`/game/${code}/replay`} className="btn btn-outline">
+          Watch replay
+        </Link>
+      )}
+
       {isHost ? (
         <motion.button
           whileHover={{ scale: 1.05 }}
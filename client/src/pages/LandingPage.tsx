@@ -12,6 +12,7 @@ interface CreateOrJoinResponse {
   ok: boolean;
   error?: string;
   code: string;
+  sessionToken: string;
   playerId: string;
   alias: string;
   colorId: string;
@@ -57,7 +58,11 @@ const LandingPage = () => {
 
     socket.emit(
       "game:join",
-      { alias: alias.trim(), code: joinCode.trim().toUpperCase() },
+      {
+        alias: alias.trim(),
+        code: joinCode.trim().toUpperCase(),
+        sessionToken: localStorage.getItem("previousSessionToken") ?? undefined,
+      },
       (res: CreateOrJoinResponse) => {
         if (!res.ok) {
           toast.error(res.error ?? "Failed to join game");
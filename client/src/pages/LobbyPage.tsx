@@ -1,12 +1,22 @@
 // src/pages/LobbyPage.tsx
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
 import toast from "react-hot-toast";
 import { motion } from "framer-motion";
 
 import { socket } from "../lib/socket";
 import { useGameStore } from "../store/gameStore";
-import type { GameDTO } from "../types/game";
+import { usePlayerModeration } from "../hooks/usePlayerModeration";
+import type {
+  AIProviderKind,
+  GameDTO,
+  GameSettings,
+  PromptPackSummary,
+  RoundTypeMode,
+  TiePolicy,
+  ModerationPolicy,
+  ModerationFailMode,
+} from "../types/game";
 
 interface StartGameResponse {
   ok: boolean;
@@ -25,6 +35,329 @@ interface GameGetResponse {
   game?: GameDTO;
 }
 
+interface UpdateSettingsResponse {
+  ok: boolean;
+  error?: string;
+  settings?: GameSettings;
+}
+
+interface PromptPacksResponse {
+  ok: boolean;
+  error?: string;
+  packs?: PromptPackSummary[];
+}
+
+const AI_PROVIDER_LABELS: Record<AIProviderKind, string> = {
+  openai: "OpenAI",
+  local: "Local model server",
+  scripted: "Scripted (testing)",
+};
+
+const ROUND_TYPE_MODE_LABELS: Record<RoundTypeMode, string> = {
+  TEXT: "Text answers",
+  IMAGE: "Image uploads",
+  ALTERNATE: "Alternate text and images",
+};
+
+const TIE_POLICY_LABELS: Record<TiePolicy, string> = {
+  NO_ELIMINATION: "Nobody is eliminated",
+  ELIMINATE_ALL: "All tied players are eliminated",
+  RANDOM: "One tied player at random",
+};
+
+const MODERATION_POLICY_LABELS: Record<ModerationPolicy, string> = {
+  BLOCK: "Reject it",
+  MASK: "Replace it with a notice",
+  FLAG: "Hide it until tapped",
+};
+
+const MODERATION_FAIL_MODE_LABELS: Record<ModerationFailMode, string> = {
+  OPEN: "Let content through",
+  CLOSED: "Treat content as toxic",
+};
+
+const inputClass =
+  "input input-sm input-bordered w-full bg-slate-900/60 border-slate-700 text-slate-100 disabled:opacity-70";
+
+// Host-editable settings; everyone else sees the same fields read-only.
+const SettingsPanel = ({
+  code,
+  settings,
+  editable,
+}: {
+  code: string;
+  settings: GameSettings;
+  editable: boolean;
+}) => {
+  const [draft, setDraft] = useState<GameSettings>(settings);
+  const [saving, setSaving] = useState(false);
+  const [packs, setPacks] = useState<PromptPackSummary[]>([]);
+
+  useEffect(() => {
+    socket.emit("prompts:listPacks", {}, (res: PromptPacksResponse) => {
+      if (res.ok && res.packs) setPacks(res.packs);
+    });
+  }, []);
+
+  const togglePack = (packId: string) => {
+    const selected = draft.promptPackIds.includes(packId)
+      ? draft.promptPackIds.filter((id) => id !== packId)
+      : [...draft.promptPackIds, packId];
+    setDraft({ ...draft, promptPackIds: selected });
+  };
+
+  // Reset the draft whenever the server-side settings actually change
+  const settingsKey = JSON.stringify(settings);
+  useEffect(() => {
+    setDraft(settings);
+  }, [settingsKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const seconds = (ms: number) => Math.round(ms / 1000);
+
+  const handleSave = () => {
+    setSaving(true);
+    socket.emit(
+      "game:updateSettings",
+      { code, settings: draft },
+      (res: UpdateSettingsResponse) => {
+        setSaving(false);
+        if (!res.ok) {
+          toast.error(res.error ?? "Could not update settings");
+          return;
+        }
+        toast.success("Settings saved");
+      }
+    );
+  };
+
+  const numberField = (
+    label: string,
+    value: number,
+    onChange: (v: number) => void
+  ) => (
+    <label className="flex flex-col gap-1 text-xs text-slate-400">
+      {label}
+      <input
+        type="number"
+        className={inputClass}
+        value={value}
+        disabled={!editable}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        {numberField("Submit time (s)", seconds(draft.submitDurationMs), (v) =>
+          setDraft({ ...draft, submitDurationMs: v * 1000 })
+        )}
+        {numberField("Discussion time (s, 0 = off)", seconds(draft.discussionDurationMs), (v) =>
+          setDraft({ ...draft, discussionDurationMs: v * 1000 })
+        )}
+        {numberField("Vote time (s)", seconds(draft.voteDurationMs), (v) =>
+          setDraft({ ...draft, voteDurationMs: v * 1000 })
+        )}
+        {numberField("Results time (s)", seconds(draft.resultsDelayMs), (v) =>
+          setDraft({ ...draft, resultsDelayMs: v * 1000 })
+        )}
+        {numberField("Max rounds (0 = no limit)", draft.maxRounds, (v) =>
+          setDraft({ ...draft, maxRounds: v })
+        )}
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          AI players
+          <select
+            className={inputClass}
+            value={draft.aiMode}
+            disabled={!editable}
+            onChange={(e) =>
+              setDraft({ ...draft, aiMode: e.target.value as GameSettings["aiMode"] })
+            }
+          >
+            <option value="AUTO">Auto</option>
+            <option value="FIXED">Fixed</option>
+          </select>
+        </label>
+        {draft.aiMode === "FIXED" &&
+          numberField("AI count", draft.aiCount, (v) =>
+            setDraft({ ...draft, aiCount: v })
+          )}
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          AI brain
+          <select
+            className={inputClass}
+            value={draft.aiProvider.kind}
+            disabled={!editable}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                aiProvider: { kind: e.target.value as AIProviderKind },
+              })
+            }
+          >
+            {(Object.keys(AI_PROVIDER_LABELS) as AIProviderKind[]).map((kind) => (
+              <option key={kind} value={kind}>
+                {AI_PROVIDER_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {draft.aiProvider.kind !== "scripted" && (
+          <label className="flex flex-col gap-1 text-xs text-slate-400">
+            Model (blank = default)
+            <input
+              className={inputClass}
+              value={draft.aiProvider.model ?? ""}
+              disabled={!editable}
+              onChange={(e) =>
+                setDraft({
+                  ...draft,
+                  aiProvider: { ...draft.aiProvider, model: e.target.value.trim() },
+                })
+              }
+            />
+          </label>
+        )}
+        {numberField("Missed rounds before out", draft.missedSubmissionLimit, (v) =>
+          setDraft({ ...draft, missedSubmissionLimit: v })
+        )}
+        {numberField("Points per submission", draft.scoring.participationPoints, (v) =>
+          setDraft({ ...draft, scoring: { ...draft.scoring, participationPoints: v } })
+        )}
+        {numberField("No-submission penalty", draft.scoring.noSubmissionPenalty, (v) =>
+          setDraft({ ...draft, scoring: { ...draft.scoring, noSubmissionPenalty: v } })
+        )}
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Speed bonuses
+          <input
+            className={inputClass}
+            value={draft.scoring.fastBonuses.join(", ")}
+            disabled={!editable}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                scoring: {
+                  ...draft.scoring,
+                  fastBonuses: e.target.value
+                    .split(",")
+                    .map((v) => v.trim())
+                    .filter((v) => v.length > 0)
+                    .map(Number),
+                },
+              })
+            }
+          />
+        </label>
+      </div>
+
+      <label className="flex flex-col gap-1 text-xs text-slate-400">
+        Rounds
+        <select
+          className={inputClass}
+          value={draft.roundTypeMode}
+          disabled={!editable}
+          onChange={(e) =>
+            setDraft({ ...draft, roundTypeMode: e.target.value as RoundTypeMode })
+          }
+        >
+          {(Object.keys(ROUND_TYPE_MODE_LABELS) as RoundTypeMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {ROUND_TYPE_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1 text-xs text-slate-400">
+        On a tied vote
+        <select
+          className={inputClass}
+          value={draft.tiePolicy}
+          disabled={!editable}
+          onChange={(e) =>
+            setDraft({ ...draft, tiePolicy: e.target.value as TiePolicy })
+          }
+        >
+          {(Object.keys(TIE_POLICY_LABELS) as TiePolicy[]).map((policy) => (
+            <option key={policy} value={policy}>
+              {TIE_POLICY_LABELS[policy]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1 text-xs text-slate-400">
+        On a toxic submission
+        <select
+          className={inputClass}
+          value={draft.moderationPolicy}
+          disabled={!editable}
+          onChange={(e) =>
+            setDraft({ ...draft, moderationPolicy: e.target.value as ModerationPolicy })
+          }
+        >
+          {(Object.keys(MODERATION_POLICY_LABELS) as ModerationPolicy[]).map((policy) => (
+            <option key={policy} value={policy}>
+              {MODERATION_POLICY_LABELS[policy]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col gap-1 text-xs text-slate-400">
+        If moderation is unavailable
+        <select
+          className={inputClass}
+          value={draft.moderationFailMode}
+          disabled={!editable}
+          onChange={(e) =>
+            setDraft({ ...draft, moderationFailMode: e.target.value as ModerationFailMode })
+          }
+        >
+          {(Object.keys(MODERATION_FAIL_MODE_LABELS) as ModerationFailMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {MODERATION_FAIL_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {packs.length > 0 && (
+        <div className="flex flex-col gap-1 text-xs text-slate-400">
+          Prompt packs
+          {packs.map((pack) => (
+            <label key={pack.id} className="flex items-center gap-2 text-slate-200">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-xs"
+                checked={draft.promptPackIds.includes(pack.id)}
+                disabled={!editable}
+                onChange={() => togglePack(pack.id)}
+              />
+              <span>{pack.name}</span>
+              <span className="text-[10px] text-slate-500">
+                {pack.language} · {pack.contentRating} · {pack.templateCount} prompts
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {editable && (
+        <button
+          type="button"
+          className="btn btn-sm w-full border-none bg-slate-700 text-slate-100"
+          disabled={saving}
+          onClick={handleSave}
+        >
+          {saving ? "Saving..." : "Save settings"}
+        </button>
+      )}
+    </div>
+  );
+};
+
 
 const LobbyPage = () => {
   const { code } = useParams<{ code: string }>();
@@ -37,13 +370,10 @@ const LobbyPage = () => {
 
   console.log("Lobby render", { code, lastGameSnapshot, playerId, storeIsHost });
 
-  const snapshotIsHost =
-    !!lastGameSnapshot &&
-    !!lastGameSnapshot.players.find(
-      (p) => p.playerId === playerId && (p as any).host === true
-    );
+  const snapshotIsHost = !!lastGameSnapshot?.self?.isHost;
 
   const isHost = storeIsHost || snapshotIsHost;
+  const { kick, report } = usePlayerModeration(code);
 
   // Fetch game state
   useEffect(() => {
@@ -64,6 +394,7 @@ const LobbyPage = () => {
 
     if (
       lastGameSnapshot.state === "ROUND_SUBMITTING" ||
+      lastGameSnapshot.state === "ROUND_DISCUSSION" ||
       lastGameSnapshot.state === "ROUND_VOTING"
     ) {
       navigate(
@@ -88,13 +419,14 @@ const LobbyPage = () => {
   }
 
   const players = lastGameSnapshot.players;
+  const reportCounts = new Map((lastGameSnapshot.reports ?? []).map((r) => [r.playerId, r.count]));
 
   const handleStartGame = () => {
-    if (!playerId || !code) return;
+    if (!code) return;
 
     socket.emit(
       "game:start",
-      { code, playerId, roundType: "TEXT" },
+      { code },
       (res: StartGameResponse) => {
         console.log("game:start response", res);
         if (!res.ok) {
@@ -225,6 +557,12 @@ const LobbyPage = () => {
                       </span>
                     )}
 
+                    {isHost && (reportCounts.get(p.playerId) ?? 0) > 0 && (
+                      <span className="px-2 py-0.5 rounded-full bg-rose-500/20 text-rose-300 border border-rose-500/40">
+                        reported ×{reportCounts.get(p.playerId)}
+                      </span>
+                    )}
+
                     {p.connected ? (
                       <span className="px-2 py-0.5 rounded-full bg-emerald-500/20 text-emerald-300 border border-emerald-500/40">
                         online
@@ -234,6 +572,25 @@ const LobbyPage = () => {
                         disconnected
                       </span>
                     )}
+
+                    {p.playerId !== playerId && (
+                      <button
+                        type="button"
+                        className="px-2 py-0.5 rounded-full text-slate-400 hover:text-rose-300"
+                        onClick={() => report(p.colorId, p.alias)}
+                      >
+                        report
+                      </button>
+                    )}
+                    {isHost && p.playerId !== playerId && (
+                      <button
+                        type="button"
+                        className="px-2 py-0.5 rounded-full bg-rose-500/20 text-rose-300 border border-rose-500/40 hover:bg-rose-500/30"
+                        onClick={() => kick(p.playerId, p.alias)}
+                      >
+                        kick
+                      </button>
+                    )}
                   </div>
                 </motion.li>
               ))}
@@ -250,9 +607,14 @@ const LobbyPage = () => {
               <p className="font-semibold text-sm text-slate-200 mb-2">
                 Game settings
               </p>
-              <p className="text-sm text-slate-400">
+              <p className="text-sm text-slate-400 mb-3">
                 Minimum players: 3
               </p>
+              <SettingsPanel
+                code={code}
+                settings={lastGameSnapshot.settings}
+                editable={isHost}
+              />
             </div>
 
             <div className="mt-2">
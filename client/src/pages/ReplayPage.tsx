@@ -0,0 +1,202 @@
+// src/pages/ReplayPage.tsx
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import toast from "react-hot-toast";
+import { motion, AnimatePresence } from "framer-motion";
+
+import { socket } from "../lib/socket";
+import { imageSrc } from "../lib/images";
+import type { MatchReplayDTO, ReplayPlayerDTO } from "../types/game";
+
+interface ReplayResponse {
+  ok: boolean;
+  error?: string;
+  matches?: MatchReplayDTO[];
+}
+
+const COLOR_DOT: Record<string, string> = {
+  red: "bg-red-500",
+  blue: "bg-blue-500",
+  green: "bg-green-500",
+  yellow: "bg-yellow-400",
+  purple: "bg-purple-500",
+  orange: "bg-orange-500",
+  pink: "bg-pink-500",
+  cyan: "bg-cyan-500",
+  lime: "bg-lime-400",
+  teal: "bg-teal-400",
+};
+
+function PlayerTag({ player }: { player?: ReplayPlayerDTO }) {
+  if (!player) return <span className="opacity-60">unknown</span>;
+  return (
+    <span className="inline-flex items-center gap-2">
+      <span className={`h-3 w-3 rounded-full ${COLOR_DOT[player.colorId] ?? "bg-slate-400"}`} />
+      <span className="font-medium">{player.alias}</span>
+      {player.isAI && <span className="badge badge-secondary badge-sm">AI</span>}
+    </span>
+  );
+}
+
+const ReplayPage = () => {
+  const { code } = useParams<{ code: string }>();
+
+  const [matches, setMatches] = useState<MatchReplayDTO[] | null>(null);
+  const [matchIndex, setMatchIndex] = useState(0);
+  // Steps 0..rounds-1 are rounds; the last step is the final reveal
+  const [step, setStep] = useState(0);
+
+  useEffect(() => {
+    if (!code) return;
+    socket.emit("game:replay", { code }, (res: ReplayResponse) => {
+      if (!res.ok || !res.matches) {
+        toast.error(res.error ?? "Could not load replay");
+        setMatches([]);
+        return;
+      }
+      setMatches(res.matches);
+      setMatchIndex(Math.max(0, res.matches.length - 1));
+      setStep(0);
+    });
+  }, [code]);
+
+  const match = matches?.[matchIndex];
+  const playerById = new Map(match?.players.map((p) => [p.playerId, p]) ?? []);
+  const lastStep = match ? match.rounds.length : 0;
+  const round = match && step < match.rounds.length ? match.rounds[step] : undefined;
+  const finalScores = match?.rounds[match.rounds.length - 1]?.scores ?? {};
+
+  const selectMatch = (index: number) => {
+    setMatchIndex(index);
+    setStep(0);
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col items-center bg-base-200 gap-6 p-4">
+      <h1 className="text-3xl font-bold">Match replay</h1>
+
+      {matches === null && <span className="loading loading-dots loading-md"></span>}
+
+      {matches !== null && matches.length === 0 && (
+        <p className="opacity-70">No finished matches to replay yet.</p>
+      )}
+
+      {match && (
+        <div className="w-full max-w-2xl flex flex-col gap-4">
+          {matches && matches.length > 1 && (
+            <select
+              className="select select-bordered"
+              value={matchIndex}
+              onChange={(e) => selectMatch(Number(e.target.value))}
+            >
+              {matches.map((m, i) => (
+                <option key={m.match} value={i}>
+                  Match {m.match} — {m.winner === "HUMANS" ? "Humans won" : m.winner === "AIS" ? "AIs won" : "No winner"}
+                </option>
+              ))}
+            </select>
+          )}
+
+          <div className="flex items-center justify-between">
+            <button className="btn btn-sm" disabled={step === 0} onClick={() => setStep((s) => s - 1)}>
+              ← Previous
+            </button>
+            <span className="text-sm opacity-70">
+              {round ? `Round ${round.roundNumber} of ${match.rounds.length}` : "Final reveal"}
+            </span>
+            <button className="btn btn-sm" disabled={step >= lastStep} onClick={() => setStep((s) => s + 1)}>
+              Next →
+            </button>
+          </div>
+
+          <AnimatePresence mode="wait">
+            <motion.div
+              key={`${match.match}-${step}`}
+              initial={{ opacity: 0, y: 8 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -8 }}
+              className="card bg-base-100"
+            >
+              {round ? (
+                <div className="card-body gap-3">
+                  <h2 className="card-title">Round {round.roundNumber}</h2>
+                  <p className="opacity-80">{round.prompt ?? `Write something about ${round.targetAlias}`}</p>
+
+                  <ul className="flex flex-col gap-3">
+                    {round.submissions.map((s) => {
+                      const eliminated = round.eliminations.some((e) => e.playerId === s.playerId);
+                      return (
+                        <li
+                          key={s.submissionId}
+                          className={`rounded-lg border p-3 ${eliminated ? "border-error" : "border-base-300"}`}
+                        >
+                          <div className="flex items-center justify-between mb-2">
+                            <PlayerTag player={playerById.get(s.playerId)} />
+                            <span className="text-xs opacity-70">
+                              {s.voterIds.length} vote{s.voterIds.length === 1 ? "" : "s"}
+                            </span>
+                          </div>
+                          {s.missed ? (
+                            <p className="italic opacity-60">No submission</p>
+                          ) : round.roundType === "IMAGE" ? (
+                            <img src={imageSrc(s.content)} alt="" className="max-h-48 rounded-md" />
+                          ) : (
+                            <p>{s.content}</p>
+                          )}
+                          {s.voterIds.length > 0 && (
+                            <p className="text-xs opacity-70 mt-2">
+                              Voted by {s.voterIds.map((id) => playerById.get(id)?.alias ?? "unknown").join(", ")}
+                            </p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+
+                  {round.eliminations.length > 0 ? (
+                    <div className="text-sm">
+                      {round.eliminations.map((e) => (
+                        <p key={e.playerId}>
+                          <PlayerTag player={playerById.get(e.playerId)} />{" "}
+                          {e.reason === "VOTED_OUT"
+                            ? "was voted out"
+                            : e.reason === "KICKED"
+                              ? "was kicked by the host"
+                              : "was removed for missing submissions"}
+                        </p>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm opacity-70">Nobody was eliminated.</p>
+                  )}
+                </div>
+              ) : (
+                <div className="card-body gap-3">
+                  <h2 className="card-title">
+                    {match.winner === "HUMANS" ? "Humans won" : match.winner === "AIS" ? "AIs won" : "Game ended"}
+                  </h2>
+                  <ul className="flex flex-col gap-2">
+                    {[...match.players]
+                      .sort((a, b) => (finalScores[b.playerId] ?? 0) - (finalScores[a.playerId] ?? 0))
+                      .map((p) => (
+                        <li key={p.playerId} className="flex items-center justify-between">
+                          <PlayerTag player={p} />
+                          <span className="font-mono">{finalScores[p.playerId] ?? 0}</span>
+                        </li>
+                      ))}
+                  </ul>
+                </div>
+              )}
+            </motion.div>
+          </AnimatePresence>
+        </div>
+      )}
+
+      <Link to={`/game/${code}/over`} className="btn btn-ghost">
+        Back
+      </Link>
+    </div>
+  );
+};
+
+export default ReplayPage;
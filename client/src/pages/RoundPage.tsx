@@ -5,7 +5,11 @@ import toast from "react-hot-toast";
 import { motion, AnimatePresence } from "framer-motion";
 
 import { socket } from "../lib/socket";
+import { ALLOWED_IMAGE_TYPES, imageSrc, uploadImage } from "../lib/images";
 import { useGameStore } from "../store/gameStore";
+import { useTypingPresence } from "../hooks/useTypingPresence";
+import { useDiscussionChat } from "../hooks/useDiscussionChat";
+import { usePlayerModeration } from "../hooks/usePlayerModeration";
 import type {
   GameState,
   PublicVotingSubmission,
@@ -17,7 +21,8 @@ interface SubmitResponse {
   error?: string;
   submissionId?: string;
   gameState?: GameState;
-  roundStatus?: "SUBMITTING" | "VOTING";
+  roundStatus?: "SUBMITTING" | "DISCUSSING" | "VOTING";
+  moderation?: "MASKED" | "FLAGGED";
 }
 
 interface VoteResponse {
@@ -79,16 +84,20 @@ const RoundPage = () => {
 
   // Use separate selectors for better performance
   const playerId = useGameStore((s) => s.playerId);
+  const sessionToken = useGameStore((s) => s.sessionToken);
   const gameState = useGameStore((s) => s.gameState);
   const lastGameSnapshot = useGameStore((s) => s.lastGameSnapshot);
 
   const [content, setContent] = useState("");
   const [submitting, setSubmitting] = useState(false);
+  const [uploading, setUploading] = useState(false);
   const [votingSubmissions, setVotingSubmissions] =
     useState<PublicVotingSubmission[]>([]);
   const [loadingVoting, setLoadingVoting] = useState(false);
   const [hasVoted, setHasVoted] = useState(false);
   const [hasSubmitted, setHasSubmitted] = useState(false);
+  // Flagged submissions this player chose to see
+  const [revealedIds, setRevealedIds] = useState<string[]>([]);
 
   // Progress notifications and accessible announcements
   const [prevSubmissionCount, setPrevSubmissionCount] = useState<number | null>(null);
@@ -96,6 +105,11 @@ const RoundPage = () => {
   const [announceMsg, setAnnounceMsg] = useState<string | null>(null);
 
   const roundNum = roundNumber ? Number(roundNumber) : NaN;
+  const { typingColors, reportTyping } = useTypingPresence(code, roundNum);
+  const { messages: chatMessages, sendMessage } = useDiscussionChat(code, roundNum);
+  const { kick, report } = usePlayerModeration(code);
+  const [chatDraft, setChatDraft] = useState("");
+  const [sendingChat, setSendingChat] = useState(false);
 
   // Handle navigation based on game state
   useEffect(() => {
@@ -111,7 +125,9 @@ const RoundPage = () => {
     if (
       lastGameSnapshot &&
       lastGameSnapshot.roundNumber !== roundNum &&
-      (gameState === "ROUND_SUBMITTING" || gameState === "ROUND_VOTING")
+      (gameState === "ROUND_SUBMITTING" ||
+        gameState === "ROUND_DISCUSSION" ||
+        gameState === "ROUND_VOTING")
     ) {
       console.log(
         `Round changed from ${roundNum} to ${lastGameSnapshot.roundNumber}, navigating...`
@@ -122,9 +138,13 @@ const RoundPage = () => {
     }
   }, [code, roundNum, gameState, lastGameSnapshot, navigate]);
 
-  // Auto-load voting submissions when entering voting phase
+  // Auto-load submissions when entering the discussion or voting phase
   useEffect(() => {
-    if (gameState === "ROUND_VOTING" && votingSubmissions.length === 0 && !hasVoted) {
+    if (
+      (gameState === "ROUND_DISCUSSION" || gameState === "ROUND_VOTING") &&
+      votingSubmissions.length === 0 &&
+      !hasVoted
+    ) {
       loadVotingSubmissions();
     }
   }, [gameState]); // eslint-disable-line react-hooks/exhaustive-deps
@@ -134,7 +154,9 @@ const RoundPage = () => {
     setHasVoted(false);
     setHasSubmitted(false);
     setVotingSubmissions([]);
+    setRevealedIds([]);
     setContent("");
+    setChatDraft("");
   }, [roundNum]);
 
   if (!code || Number.isNaN(roundNum)) {
@@ -146,6 +168,7 @@ const RoundPage = () => {
   }
 
   const isSubmittingPhase = gameState === "ROUND_SUBMITTING";
+  const isDiscussionPhase = gameState === "ROUND_DISCUSSION";
   const isVotingPhase = gameState === "ROUND_VOTING";
   const isResultsPhase = gameState === "ROUND_RESULTS";
 
@@ -196,8 +219,8 @@ const RoundPage = () => {
     const r = lastGameSnapshot?.rounds.find((rr) => rr.roundNumber === roundNum);
     if (!r || !lastGameSnapshot) return;
 
-    const submissionCount = r.submissions.length;
-    const voteCount = r.votes.length;
+    const submissionCount = r.submissionCount;
+    const voteCount = r.voteCount;
 
     // Submissions progressed
     if (
@@ -229,10 +252,7 @@ const RoundPage = () => {
   // Host Name
   const hostPlayer =
     lastGameSnapshot?.players.find(
-      (p) =>
-        (p as any).host === true ||
-        (p as any).isHost === true ||
-        (p as any).role === "HOST"
+      (p) => p.playerId === lastGameSnapshot.hostPlayerId
     ) ?? null;
 
   const myPlayer = lastGameSnapshot?.players.find(
@@ -240,6 +260,8 @@ const RoundPage = () => {
   );
 
   const hostAlias = hostPlayer?.alias ?? myPlayer?.alias ?? "Host";
+  const isHost = !!lastGameSnapshot?.self?.isHost;
+  const reports = lastGameSnapshot?.reports ?? [];
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
@@ -248,7 +270,7 @@ const RoundPage = () => {
       return;
     }
     if (!content.trim()) {
-      toast.error("Write something first");
+      toast.error(currentRound?.roundType === "IMAGE" ? "Choose an image first" : "Write something first");
       return;
     }
 
@@ -258,7 +280,6 @@ const RoundPage = () => {
       {
         code,
         roundNumber: roundNum,
-        playerId,
         content: content.trim(),
       },
       (res: SubmitResponse) => {
@@ -269,7 +290,9 @@ const RoundPage = () => {
         }
         setContent("");
         setHasSubmitted(true);
-        toast.success("Submission saved! Waiting for others...");
+        if (res.moderation === "MASKED") toast("Saved, but others will only see a moderation notice");
+        else if (res.moderation === "FLAGGED") toast("Saved, but it will be hidden until others tap to reveal it");
+        else toast.success("Submission saved! Waiting for others...");
       }
     );
   };
@@ -290,6 +313,36 @@ const RoundPage = () => {
     );
   };
 
+  // Text of a submission as moderation left it; flagged lines stay hidden until tapped
+  const renderSubmissionText = (s: PublicVotingSubmission) => {
+    if (s.moderation === "MASKED") {
+      return <span className="italic text-slate-400">{s.content}</span>;
+    }
+    if (s.moderation === "FLAGGED" && !revealedIds.includes(s.submissionId)) {
+      return (
+        <span
+          role="button"
+          tabIndex={0}
+          className="italic text-amber-300/90 underline decoration-dotted cursor-pointer"
+          onClick={(e) => {
+            // Inside the vote button: revealing must not cast a vote
+            e.stopPropagation();
+            setRevealedIds((prev) => [...prev, s.submissionId]);
+          }}
+          onKeyDown={(e) => {
+            if (e.key !== "Enter" && e.key !== " ") return;
+            e.preventDefault();
+            e.stopPropagation();
+            setRevealedIds((prev) => [...prev, s.submissionId]);
+          }}
+        >
+          Hidden by moderation — tap to reveal
+        </span>
+      );
+    }
+    return <span className="text-slate-100">{s.content}</span>;
+  };
+
   const handleVote = (submissionId: string) => {
     if (!playerId) {
       toast.error("Missing playerId");
@@ -303,7 +356,7 @@ const RoundPage = () => {
 
     socket.emit(
       "round:vote",
-      { code, roundNumber: roundNum, submissionId, voterId: playerId },
+      { code, roundNumber: roundNum, submissionId },
       (res: VoteResponse) => {
         if (!res.ok) {
           toast.error(res.error ?? "Could not cast vote");
@@ -315,6 +368,23 @@ const RoundPage = () => {
     );
   };
 
+  const handleSendChat = (e: FormEvent) => {
+    e.preventDefault();
+    const text = chatDraft.trim();
+    if (!text || sendingChat) return;
+
+    setSendingChat(true);
+    void sendMessage(text).then((res) => {
+      setSendingChat(false);
+      if (!res.ok) {
+        toast.error(res.error ?? "Could not send message");
+        return;
+      }
+      setChatDraft("");
+      if (res.filtered) toast("Your message was hidden by the filter");
+    });
+  };
+
   const formatTimeLeft = (ms: number) => {
     const seconds = Math.max(0, Math.ceil(ms / 1000));
     const mins = Math.floor(seconds / 60);
@@ -445,6 +515,34 @@ const RoundPage = () => {
     </AnimatePresence>
   );
 
+  // Who is still composing, by color
+  const renderTypingPresence = () => {
+    const colors = (currentRound?.participantIds ?? [])
+      .map((pid) => lastGameSnapshot?.players.find((p) => p.playerId === pid)?.colorId)
+      .filter((c): c is string => !!c);
+    if (colors.length === 0) return null;
+    return (
+      <div className="flex flex-wrap justify-center gap-3" aria-live="polite">
+        {colors.map((color) => {
+          const typing = typingColors.includes(color);
+          return (
+            <div key={color} className="flex items-center gap-1 text-xs text-slate-300">
+              <div className={`h-3 w-3 rounded-full ${COLOR_DOT[color] ?? "bg-slate-400"}`} />
+              {typing ? (
+                <span className="flex items-center gap-1">
+                  <span className="loading loading-dots loading-xs" />
+                  <span className="sr-only">{color} is typing</span>
+                </span>
+              ) : (
+                <span className="opacity-40">{color}</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
   // Render SUBMISSION phase
   const renderSubmissionPhase = () => (
     <AnimatePresence>
@@ -471,24 +569,33 @@ const RoundPage = () => {
                 <div className="flex flex-col gap-2">
                   <input
                     type="file"
-                    accept="image/*"
+                    accept={ALLOWED_IMAGE_TYPES.join(",")}
+                    disabled={uploading}
                     className="file:file:bg-slate-700 file:file:text-slate-100 file:file:px-4 file:file:py-2 file:file:rounded-lg file:file:border-0 file:cursor-pointer text-sm text-slate-400"
                     onChange={(e) => {
                       const file = e.target.files?.[0];
                       if (!file) return;
-                      const reader = new FileReader();
-                      reader.onload = () => {
-                        if (typeof reader.result === "string") {
-                          setContent(reader.result);
-                        }
-                      };
-                      reader.readAsDataURL(file);
+                      reportTyping(true);
+                      if (!sessionToken) {
+                        toast.error("Missing session");
+                        return;
+                      }
+                      setContent("");
+                      setUploading(true);
+                      uploadImage(file, sessionToken)
+                        .then((url) => setContent(url))
+                        .catch((err: Error) => toast.error(err.message))
+                        .finally(() => setUploading(false));
                     }}
                   />
 
-                  {content && content.startsWith("data:") && (
+                  {uploading && (
+                    <span className="text-xs text-slate-400">Uploading...</span>
+                  )}
+
+                  {content && (
                     <img 
-                      src={content} 
+                      src={imageSrc(content)} 
                       alt="preview" 
                       className="max-h-48 w-full object-contain rounded-lg border border-slate-600" 
                     />
@@ -499,12 +606,15 @@ const RoundPage = () => {
                   className="textarea textarea-bordered w-full h-32 bg-slate-900/80 border-slate-700 text-slate-100 placeholder:text-slate-500"
                   placeholder={roundPrompt ?? "Write your submission..."}
                   value={content}
-                  onChange={(e) => setContent(e.target.value)}
+                  onChange={(e) => {
+                    setContent(e.target.value);
+                    reportTyping(e.target.value.trim().length > 0);
+                  }}
                 />
               )}
               <motion.button
                 className="btn btn-primary border-none bg-gradient-to-r from-indigo-500 to-fuchsia-500 text-white"
-                disabled={submitting || (timeLeftMs !== null && timeLeftMs <= 0)}
+                disabled={submitting || uploading || (timeLeftMs !== null && timeLeftMs <= 0)}
                 type="submit"
                 whileHover={
                   submitting ? {} : { scale: 1.02, y: -1 }
@@ -519,17 +629,20 @@ const RoundPage = () => {
           )}
 
           <p className="text-sm opacity-70 text-center">
-            When everyone submits, voting will start automatically.
+            When everyone submits,{" "}
+            {lastGameSnapshot?.settings.discussionDurationMs ? "the discussion" : "voting"} will start automatically.
           </p>
 
+          {renderTypingPresence()}
+
           {currentRound && (
             <div className="space-y-2">
               <p className="text-sm text-center text-slate-400">
-                Submissions: {currentRound.submissions.length} /{" "}
+                Submissions: {currentRound.submissionCount} /{" "}
                 {currentRound.participantIds.length}
               </p>
               {renderProgressBar(
-                currentRound.submissions.length,
+                currentRound.submissionCount,
                 currentRound.participantIds.length,
                 "bg-primary"
               )}
@@ -540,6 +653,128 @@ const RoundPage = () => {
     </AnimatePresence>
   );
 
+  // Chat log, by color; the input only while discussing and alive
+  const renderChatPanel = () => (
+    <div className="space-y-3">
+      <div
+        className="max-h-72 overflow-y-auto rounded-xl bg-slate-900/80 border border-slate-700/80 p-3 space-y-2"
+        aria-live="polite"
+      >
+        {chatMessages.length === 0 ? (
+          <p className="text-center text-sm opacity-60">No messages yet. Who looks suspicious?</p>
+        ) : (
+          chatMessages.map((m) => (
+            <div key={m.messageId} className="flex items-start gap-2 text-sm">
+              <span
+                className={`shrink-0 px-2 py-0.5 rounded-md text-xs font-semibold ${
+                  COLOR_BADGES[m.colorId] ?? "bg-slate-500/70 text-white"
+                }`}
+              >
+                {m.colorId}
+              </span>
+              <span className={m.filtered ? "italic text-slate-500" : "text-slate-100"}>{m.text}</span>
+              {m.colorId !== myPlayer?.colorId && (
+                <button
+                  type="button"
+                  className="ml-auto shrink-0 text-xs text-slate-500 hover:text-rose-300"
+                  title={`Report ${m.colorId}`}
+                  onClick={() => report(m.colorId, m.colorId)}
+                >
+                  🚩
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {isHost && reports.length > 0 && (
+        <div className="rounded-xl bg-rose-950/40 border border-rose-500/40 p-3 space-y-2 text-sm">
+          <p className="text-xs font-semibold uppercase tracking-wide text-rose-300">Reported players</p>
+          {reports.map((r) => (
+            <div key={r.playerId} className="flex items-center gap-2">
+              <span
+                className={`shrink-0 px-2 py-0.5 rounded-md text-xs font-semibold ${
+                  COLOR_BADGES[r.colorId] ?? "bg-slate-500/70 text-white"
+                }`}
+              >
+                {r.colorId}
+              </span>
+              <span className="truncate text-slate-200" title={r.reasons.join("\n")}>
+                {r.alias} ×{r.count}
+              </span>
+              {r.playerId !== playerId && lastGameSnapshot?.players.some((p) => p.playerId === r.playerId && p.alive) && (
+                <button
+                  type="button"
+                  className="btn btn-xs ml-auto bg-rose-500/20 text-rose-200 border-rose-500/40"
+                  onClick={() => kick(r.playerId, r.alias)}
+                >
+                  Kick
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isDiscussionPhase && amIAlive && (
+        <form onSubmit={handleSendChat} className="flex gap-2">
+          <input
+            className="input input-bordered flex-1 bg-slate-900/80 border-slate-700 text-slate-100 placeholder:text-slate-500"
+            placeholder="Say something..."
+            maxLength={200}
+            value={chatDraft}
+            onChange={(e) => setChatDraft(e.target.value)}
+          />
+          <button className="btn btn-primary" type="submit" disabled={sendingChat || !chatDraft.trim()}>
+            Send
+          </button>
+        </form>
+      )}
+    </div>
+  );
+
+  // Render DISCUSSION phase
+  const renderDiscussionPhase = () => (
+    <AnimatePresence>
+      {isDiscussionPhase && (
+        <motion.div
+          key="discussion-phase"
+          className="w-full rounded-2xl bg-slate-800/50 border border-slate-700/50 p-5 space-y-4"
+          initial={{ opacity: 0, y: 8 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: -8 }}
+        >
+          <h2 className="text-xl font-semibold">Discuss before voting</h2>
+
+          <div className="grid gap-2">
+            {votingSubmissions
+              .filter((s) => s.content)
+              .map((s) => (
+                <div
+                  key={s.submissionId}
+                  className="flex items-center gap-2 rounded-xl px-3 py-2 bg-slate-900/60 border border-slate-700/60 text-sm"
+                >
+                  <div className={`h-3 w-3 shrink-0 rounded-full ${COLOR_DOT[s.colorId] ?? "bg-slate-400"}`} />
+                  {currentRound?.roundType === "IMAGE" ? (
+                    <img src={imageSrc(s.content)} alt="submission" className="max-h-24 object-contain rounded-lg" />
+                  ) : (
+                    renderSubmissionText(s)
+                  )}
+                </div>
+              ))}
+          </div>
+
+          {renderChatPanel()}
+
+          {!amIAlive && (
+            <p className="text-sm text-center opacity-70">You are eliminated. You can read along.</p>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+
   // Render dead player waiting during submission
   const renderDeadSubmissionWaiting = () => (
     <AnimatePresence>
@@ -593,14 +828,23 @@ const RoundPage = () => {
             </div>
           )}
 
+          {chatMessages.length > 0 && (
+            <details className="rounded-xl bg-slate-900/40 border border-slate-700/60 p-3">
+              <summary className="cursor-pointer text-sm text-slate-300">
+                Discussion ({chatMessages.length})
+              </summary>
+              <div className="mt-3">{renderChatPanel()}</div>
+            </details>
+          )}
+
           {currentRound && (
             <div className="space-y-2">
               <p className="text-sm text-center text-slate-400">
-                Votes: {currentRound.votes.length} /{" "}
+                Votes: {currentRound.voteCount} /{" "}
                 {currentRound.participantIds.length}
               </p>
               {renderProgressBar(
-                currentRound.votes.length,
+                currentRound.voteCount,
                 currentRound.participantIds.length,
                 "bg-secondary"
               )}
@@ -647,14 +891,18 @@ const RoundPage = () => {
                     </span>
                   </div>
                   <div className="text-sm text-slate-100">
-                    {s.content.startsWith("data:") ? (
-                      <img 
-                        src={s.content} 
-                        alt="submission" 
-                        className="max-h-48 w-full object-contain rounded-lg" 
-                      />
+                    {currentRound?.roundType === "IMAGE" ? (
+                      s.content ? (
+                        <img 
+                          src={imageSrc(s.content)} 
+                          alt="submission" 
+                          className="max-h-48 w-full object-contain rounded-lg" 
+                        />
+                      ) : (
+                        <span className="italic text-slate-500">No image</span>
+                      )
                     ) : (
-                      s.content
+                      renderSubmissionText(s)
                     )}
                   </div>
                 </motion.button>
@@ -686,7 +934,7 @@ const RoundPage = () => {
   // Render waiting state
   const renderWaitingState = () => (
     <AnimatePresence>
-      {!isSubmittingPhase && !isVotingPhase && !isResultsPhase && (
+      {!isSubmittingPhase && !isDiscussionPhase && !isVotingPhase && !isResultsPhase && (
         <motion.div
           key="waiting"
           className="text-center text-sm text-slate-400"
@@ -773,6 +1021,9 @@ const RoundPage = () => {
         {/* Dead player waiting during submission */}
         {renderDeadSubmissionWaiting()}
 
+        {/* DISCUSSION PHASE */}
+        {renderDiscussionPhase()}
+
         {/* VOTING PHASE */}
         {renderVotingPhase()}
 
@@ -5,6 +5,7 @@ import type { GameDTO, GameState } from "../types/game";
 interface GameClientState {
   code: string | null;
   playerId: string | null;
+  sessionToken: string | null;
   alias: string | null;
   colorId: string | null;
   isHost: boolean;
@@ -14,6 +15,7 @@ interface GameClientState {
 
   setFromCreateOrJoin(payload: {
     code: string;
+    sessionToken: string;
     playerId: string;
     alias: string;
     colorId: string;
@@ -28,6 +30,7 @@ interface GameClientState {
 export const useGameStore = create<GameClientState>()((set) => ({
   code: null,
   playerId: null,
+  sessionToken: null,
   alias: null,
   colorId: null,
   isHost: false,
@@ -36,10 +39,11 @@ export const useGameStore = create<GameClientState>()((set) => ({
   lastGameSnapshot: null,
 
   setFromCreateOrJoin(payload) {
-    // Persist code/playerId so we can attempt reconnects after reload
+    // Persist the signed session so we can attempt reconnects after reload.
+    // The server derives our player from it; a raw playerId is never trusted.
     try {
       localStorage.setItem("gameCode", payload.code);
-      localStorage.setItem("playerId", payload.playerId);
+      localStorage.setItem("sessionToken", payload.sessionToken);
     } catch (e) {
       // ignore storage errors
     }
@@ -47,6 +51,7 @@ export const useGameStore = create<GameClientState>()((set) => ({
     set({
       code: payload.code,
       playerId: payload.playerId,
+      sessionToken: payload.sessionToken,
       alias: payload.alias,
       colorId: payload.colorId,
       isHost: payload.host,
@@ -67,8 +72,11 @@ export const useGameStore = create<GameClientState>()((set) => ({
 
   reset() {
     try {
+      // Kept so a kicked player's rejoin can be matched to their old session
+      const previous = localStorage.getItem("sessionToken");
+      if (previous) localStorage.setItem("previousSessionToken", previous);
       localStorage.removeItem("gameCode");
-      localStorage.removeItem("playerId");
+      localStorage.removeItem("sessionToken");
     } catch (e) {
       // ignore
     }
@@ -76,6 +84,7 @@ export const useGameStore = create<GameClientState>()((set) => ({
     set({
       code: null,
       playerId: null,
+      sessionToken: null,
       alias: null,
       colorId: null,
       isHost: false,
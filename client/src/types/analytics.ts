@@ -0,0 +1,41 @@
+// src/types/analytics.ts
+// Mirrors the server's /api/analytics report
+
+export type StyleFeature = "lengthDeviation" | "casingMismatch" | "punctuationMismatch";
+
+export interface AIGroupMetrics {
+  key: string;
+  submissions: number;
+  humanVoteShare: number;
+  eliminationRate: number;
+  avgRoundsSurvived: number;
+  meanReward: number;
+  styleCorrelations: Record<StyleFeature, number | null>;
+  meanStyle: Record<StyleFeature, number>;
+}
+
+export interface TimingStats {
+  submissions: number;
+  medianMs: number;
+  p10Ms: number;
+  p90Ms: number;
+  firstShare: number;
+  lastShare: number;
+}
+
+export interface SubmissionTimingReport {
+  human: TimingStats;
+  ai: TimingStats;
+  aiOutsideHumanRange: number;
+}
+
+export interface AnalyticsReport {
+  generatedAt: number;
+  games: number;
+  submissions: number;
+  byAlias: AIGroupMetrics[];
+  byProvider: AIGroupMetrics[];
+  byModel: AIGroupMetrics[];
+  byArm: AIGroupMetrics[];
+  timing: SubmissionTimingReport;
+}
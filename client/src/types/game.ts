@@ -4,6 +4,7 @@ export type GameState =
   | "LOBBY" 
   | "IN_PROGRESS" 
   | "ROUND_SUBMITTING" 
+  | "ROUND_DISCUSSION"  // Only when the game has a discussion phase
   | "ROUND_VOTING" 
   | "ROUND_RESULTS"  // Added for elimination reveal phase
   | "GAME_OVER";
@@ -16,16 +17,12 @@ export interface PlayerDTO {
   connected: boolean;
 }
 
-export interface SubmissionDTO {
-  submissionId: string;
-  playerId: string;
-  content: string;
-  roundNumber: number;
-}
-
-export interface VoteDTO {
-  voterId: string;
-  submissionId: string;
+// Only sent for the receiving player
+export interface SelfPlayerDTO extends PlayerDTO {
+  role: "HUMAN" | "AI";
+  isHost: boolean;
+  score: number;
+  missedSubmissions: number;
 }
 
 export interface RoundDTO {
@@ -33,13 +30,65 @@ export interface RoundDTO {
   roundType: "TEXT" | "IMAGE";
   targetAlias: string;
   roundPrompt?: string;
-  status: "SUBMITTING" | "VOTING" | "COMPLETED";
-  submissions: SubmissionDTO[];
-  votes: VoteDTO[];
+  status: "SUBMITTING" | "DISCUSSING" | "VOTING" | "COMPLETED";
   participantIds: string[];
   eliminatedPlayerIds?: string[];
   // Optional unix ms timestamp when the current phase expires
   expiresAt?: number;
+  submissionCount: number;
+  voteCount: number;
+  mySubmissionId?: string;
+  myVoteSubmissionId?: string;
+}
+
+export type TiePolicy = "NO_ELIMINATION" | "ELIMINATE_ALL" | "RANDOM";
+
+// What happens to a submission the toxicity service flags
+export type ModerationPolicy = "BLOCK" | "MASK" | "FLAG";
+
+// When moderation can't score a text: let it through, or treat it as toxic
+export type ModerationFailMode = "OPEN" | "CLOSED";
+
+export type AIProviderKind = "openai" | "local" | "scripted";
+
+export interface AIProviderSettings {
+  kind: AIProviderKind;
+  model?: string;
+}
+
+export type RoundTypeMode = "TEXT" | "IMAGE" | "ALTERNATE";
+
+export interface GameSettings {
+  submitDurationMs: number;
+  // 0 = no discussion phase
+  discussionDurationMs: number;
+  voteDurationMs: number;
+  resultsDelayMs: number;
+  // 0 = play until one team wins
+  maxRounds: number;
+  aiMode: "AUTO" | "FIXED";
+  aiCount: number;
+  missedSubmissionLimit: number;
+  scoring: {
+    participationPoints: number;
+    fastBonuses: number[];
+    noSubmissionPenalty: number;
+  };
+  tiePolicy: TiePolicy;
+  moderationPolicy: ModerationPolicy;
+  moderationFailMode: ModerationFailMode;
+  promptPackIds: string[];
+  roundTypeMode: RoundTypeMode;
+  aiProvider: AIProviderSettings;
+}
+
+export interface PromptPackSummary {
+  id: string;
+  name: string;
+  language: string;
+  tags: string[];
+  contentRating: "family" | "teen" | "mature";
+  templateCount: number;
 }
 
 export interface GameDTO {
@@ -49,17 +98,77 @@ export interface GameDTO {
   hostPlayerId: string;
   players: PlayerDTO[];
   rounds: RoundDTO[];
+  settings: GameSettings;
   winner?: "HUMANS" | "AIS";
+  self?: SelfPlayerDTO;
+  // Host only
+  reports?: PlayerReportSummary[];
+}
+
+export interface PlayerReportSummary {
+  playerId: string;
+  colorId: string;
+  alias: string;
+  // Distinct players who reported them
+  count: number;
+  reasons: string[];
 }
 
 export interface PublicVotingSubmission {
   submissionId: string;
   colorId: string;
   content: string;
+  // MASKED: content is already the replacement text; FLAGGED: original, hidden until revealed
+  moderation?: "MASKED" | "FLAGGED";
 }
 
 export interface PublicVotingRound {
   code: string;
   roundNumber: number;
+  roundType: "TEXT" | "IMAGE";
   submissions: PublicVotingSubmission[];
-}
\ No newline at end of file
+}
+
+// Discussion chat lines are shown by color only
+export interface ChatMessageDTO {
+  messageId: string;
+  colorId: string;
+  text: string;
+  at: number;
+  // Replaced by the toxicity filter
+  filtered?: boolean;
+}
+// Replays of finished matches (game:replay); these reveal which players were AIs
+export interface ReplayPlayerDTO {
+  playerId: string;
+  alias: string;
+  colorId: string;
+  isAI: boolean;
+}
+
+export interface ReplaySubmissionDTO {
+  submissionId: string;
+  playerId: string;
+  content: string;
+  missed: boolean;
+  voterIds: string[];
+}
+
+export interface ReplayRoundDTO {
+  roundNumber: number;
+  roundType: "TEXT" | "IMAGE";
+  targetAlias: string;
+  prompt?: string;
+  submissions: ReplaySubmissionDTO[];
+  eliminations: Array<{ playerId: string; reason: "VOTED_OUT" | "MISSED_SUBMISSIONS" | "KICKED" }>;
+  scores: Record<string, number>;
+}
+
+export interface MatchReplayDTO {
+  match: number;
+  startedAt: number;
+  endedAt: number;
+  winner?: "HUMANS" | "AIS";
+  players: ReplayPlayerDTO[];
+  rounds: ReplayRoundDTO[];
+}
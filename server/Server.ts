@@ -9,9 +9,19 @@ import morganMiddleware from "./middleware/morganMiddleware";
 import corsMiddleware from "./middleware/corsMiddleware";
 import logger from "./config/loggerWinston";
 
+// HTTP routes
+import imagesRouter from "./routes/images";
+import analyticsRouter from "./routes/analytics";
+import moderationRouter from "./routes/moderation";
+
 // WebSocket handlers
 import { registerSocketHandlers } from "./socket/socket";
 
+// Game persistence
+import { createGameRepositoryFromEnv } from "./game/gameRepository";
+import { flushGames, setGameRepository } from "./game/gameStore";
+import { pruneFinishedGames, rehydrateGames } from "./game/gameService";
+
 dotenv.config({ path: ".env.local" });
 
 const app = express();
@@ -26,6 +36,15 @@ app.get("/health", (_req, res) => {
   res.json({ ok: true });
 });
 
+// Uploaded round images
+app.use("/api/images", imagesRouter);
+
+// AI detection metrics across all known games
+app.use("/api/analytics", analyticsRouter);
+
+// Review of moderation decisions (needs MODERATION_TOKEN)
+app.use("/api/moderation", moderationRouter);
+
 // Create HTTP server + Socket.IO
 const httpServer = createServer(app);
 
@@ -39,6 +58,28 @@ const io = new SocketIOServer(httpServer, {
 // Register all socket events
 registerSocketHandlers(io);
 
+// Restore persisted games (after handlers, so resumed rounds can broadcast)
+setGameRepository(createGameRepositoryFromEnv());
+const restoredGames = rehydrateGames();
+if (restoredGames > 0) logger.info(`Restored ${restoredGames} persisted game(s)`);
+
+// Saves are debounced, so write out the last ones before exiting
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => {
+    flushGames();
+    process.exit(0);
+  });
+}
+
+// GAME_RETENTION_MS deletes finished games (and their images) once idle that long; unset keeps them
+const retentionMs = parseInt(process.env.GAME_RETENTION_MS ?? "", 10);
+if (Number.isFinite(retentionMs) && retentionMs > 0) {
+  setInterval(() => {
+    const pruned = pruneFinishedGames(retentionMs);
+    if (pruned > 0) logger.info(`Deleted ${pruned} finished game(s)`);
+  }, Math.min(retentionMs, 60 * 60 * 1000)).unref();
+}
+
 // Local Server only - not for production
 const LOCAL_PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 8001;
 
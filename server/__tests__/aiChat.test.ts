@@ -0,0 +1,58 @@
+import { expect, test } from "@jest/globals";
+import { accusationsSince, chooseChatIntent, isAccusation } from "../game/aiChat";
+import { styleProfile } from "../game/aiText";
+import type { ChatMessage } from "../game/gameTypes";
+import { writeOfflineChatLine } from "../game/offlineAI";
+import { createRng } from "../game/rng";
+
+const plain = styleProfile(["She Hates Mondays.", "Pizza, Probably."], "Sam");
+
+test("a color is only accused when it's named with a suspicious word", () => {
+  expect(isAccusation("yellow is sus", "yellow")).toBe(true);
+  expect(isAccusation("I'd vote Yellow tbh", "yellow")).toBe(true);
+  expect(isAccusation("yellow took forever", "yellow")).toBe(false);
+  expect(isAccusation("blue is sus", "yellow")).toBe(false);
+
+  const chat: ChatMessage[] = [
+    { messageId: "1", playerId: "h1", colorId: "red", text: "yellow seems fake", at: 10 },
+    { messageId: "2", playerId: "ai1", colorId: "yellow", text: "not me", at: 20 },
+    { messageId: "3", playerId: "h2", colorId: "blue", text: "yeah yellow is weird", at: 30 },
+  ];
+  expect(accusationsSince(chat, "ai1", "yellow", 20).map((m) => m.colorId)).toEqual(["blue"]);
+});
+
+test("intents: defend first, then react, then one suspicion per round", () => {
+  const base = {
+    accused: false,
+    firstLineThisRound: true,
+    pendingReaction: true,
+    hasSuspect: true,
+    suspectedThisRound: false,
+    teammateSuspectedThisRound: false,
+    roll: 0.9,
+  };
+  expect(chooseChatIntent({ ...base, accused: true })).toBe("DEFEND");
+  expect(chooseChatIntent(base)).toBe("REACT");
+  expect(chooseChatIntent({ ...base, firstLineThisRound: false })).toBe("SUSPECT");
+  expect(chooseChatIntent({ ...base, pendingReaction: false, suspectedThisRound: true })).toBe("SMALL_TALK");
+  expect(chooseChatIntent({ ...base, pendingReaction: false, teammateSuspectedThisRound: true })).toBe("SMALL_TALK");
+  expect(chooseChatIntent({ ...base, pendingReaction: false, teammateSuspectedThisRound: true, roll: 0.1 })).toBe("SUSPECT");
+});
+
+test("offline discussion lines name who the intent is about", () => {
+  const suspect = writeOfflineChatLine({ intent: "SUSPECT", profile: plain, avoid: [], suspect: "blue" }, createRng(1));
+  expect(suspect.toLowerCase()).toContain("blue");
+
+  const again = writeOfflineChatLine({ intent: "DEFEND", profile: plain, avoid: [], accuser: "red", repeat: true }, createRng(2));
+  expect(again.toLowerCase()).toContain("red");
+
+  const called = writeOfflineChatLine(
+    { intent: "REACT", profile: plain, avoid: [], eliminated: { colorId: "green", suspected: true, teammate: false } },
+    createRng(3)
+  );
+  expect(called.toLowerCase()).toContain("green");
+
+  // Nothing to fill the placeholders with: plain small talk
+  const fallback = writeOfflineChatLine({ intent: "DEFEND", profile: plain, avoid: [] }, createRng(4));
+  expect(fallback).not.toMatch(/[{}]/);
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, expect, test } from "@jest/globals";
+import { createScriptedProvider, parseAIProviderConfig, resolveAIProvider, setAIScripts } from "../game/aiProviders";
+import { createDefaultSettings } from "../game/gameSettings";
+import type { AIProviderConfig, Game, Player } from "../game/gameTypes";
+
+const savedKey = process.env.OPENAI_API_KEY;
+
+beforeEach(() => {
+  delete process.env.OPENAI_API_KEY;
+});
+
+afterEach(() => {
+  setAIScripts(null);
+  if (savedKey === undefined) delete process.env.OPENAI_API_KEY;
+  else process.env.OPENAI_API_KEY = savedKey;
+});
+
+function makeAI(provider?: AIProviderConfig): Player {
+  return {
+    playerId: "ai1",
+    alias: "AI-1",
+    colorId: "red",
+    alive: true,
+    connected: false,
+    isAI: true,
+    score: 0,
+    missedSubmissions: 0,
+    aiData: { teamId: "impostors", ...(provider ? { provider } : {}) },
+  };
+}
+
+function makeGame(ai: Player): Game {
+  return { code: "PROV", state: "LOBBY", roundNumber: 0, hostPlayerId: "h1", players: [ai], rounds: [], settings: createDefaultSettings() };
+}
+
+test("scripted provider replays one line per round and votes for valid scripted aliases", async () => {
+  const provider = createScriptedProvider({ submissions: ["first", "second"], votes: ["Bob", "Cara"] });
+  const sub = (roundNumber: number) => provider.generateSubmission({ roundNumber, input: "{}", targetChars: 10, lengthWindow: 5 });
+
+  expect((await sub(1))?.submission).toBe("first");
+  expect((await sub(2))?.submission).toBe("second");
+  expect((await sub(3))?.submission).toBe("first");
+
+  expect((await provider.chooseVote({ roundNumber: 1, input: "{}", allowedAliases: ["Bob", "Cara"] }))?.author_alias).toBe("Bob");
+  // Bob is no longer an option; fall through to the next scripted alias
+  expect((await provider.chooseVote({ roundNumber: 1, input: "{}", allowedAliases: ["Cara"] }))?.author_alias).toBe("Cara");
+  expect(await provider.chooseVote({ roundNumber: 1, input: "{}", allowedAliases: ["Dan"] })).toBeNull();
+});
+
+test("per-AI provider overrides the game setting, unconfigured providers resolve to null", () => {
+  const plain = makeAI();
+  expect(resolveAIProvider(makeGame(plain), plain)).toBeNull(); // openai without a key
+
+  const scripted = makeAI({ kind: "scripted", script: { submissions: ["hi"] } });
+  expect(resolveAIProvider(makeGame(scripted), scripted)?.kind).toBe("scripted");
+
+  const local = makeAI({ kind: "local", baseUrl: "http://127.0.0.1:11434/v1" });
+  expect(resolveAIProvider(makeGame(local), local)?.kind).toBe("local");
+});
+
+test("client-supplied provider configs can't point the server at an endpoint", () => {
+  const parsed = parseAIProviderConfig({ kind: "local", model: "llama3.1", baseUrl: "http://169.254.169.254/" });
+  expect(parsed).toEqual({ ok: true, config: { kind: "local", model: "llama3.1" } });
+  expect(parseAIProviderConfig({ kind: "gpt" }).ok).toBe(false);
+  expect(parseAIProviderConfig({ kind: "openai", model: "bad model name!" }).ok).toBe(false);
+});
+
+test("scripted AIs without an inline script read theirs from the script file by alias", async () => {
+  setAIScripts({ default: { submissions: ["default line"] }, players: { "AI-1": { submissions: ["ai one line"] } } });
+  const ai = makeAI({ kind: "scripted" });
+  const out = await resolveAIProvider(makeGame(ai), ai)!.generateSubmission({ roundNumber: 1, input: "{}", targetChars: 10, lengthWindow: 5 });
+  expect(out?.submission).toBe("ai one line");
+});
@@ -0,0 +1,53 @@
+import { expect, test } from "@jest/globals";
+import { assignRoles, pickSampleForRole, rankRoles, recordRoleOutcomes, roleFor } from "../game/aiRoles";
+import type { AIRoundPlan, Game, Player } from "../game/gameTypes";
+import { createRng } from "../game/rng";
+
+function makeAI(id: string): Player {
+  return { playerId: id, alias: id, colorId: id, alive: true, connected: false, isAI: true, score: 0, missedSubmissions: 0, aiData: { teamId: "impostors" } };
+}
+
+function makeGame(ais: Player[]): Game {
+  return { code: "ROLE", state: "IN_PROGRESS", roundNumber: 1, hostPlayerId: "h1", players: ais, rounds: [], rngSeed: 9 };
+}
+
+test("a team gets complementary roles, reproducibly", () => {
+  const game = makeGame(["a", "b", "c"].map(makeAI));
+  const roles = assignRoles(game, {}, ["a", "b", "c"], 1);
+  expect(new Set(Object.values(roles))).toEqual(new Set(["MIMIC", "VAGUE", "BOLD"]));
+  expect(assignRoles(game, {}, ["c", "b", "a"], 1)).toEqual(roles);
+
+  // With no history a lone AI blends in
+  expect(Object.values(assignRoles(game, {}, ["a"], 1))).toEqual(["MIMIC"]);
+});
+
+test("roles that keep getting voted out are ranked last, then benched", () => {
+  expect(rankRoles({ MIMIC: { played: 1, eliminated: 1 } })).toEqual(["VAGUE", "BOLD", "MIMIC"]);
+  expect(rankRoles({ BOLD: { played: 3, eliminated: 2 } })).toEqual(["MIMIC", "VAGUE"]);
+
+  const game = makeGame(["a", "b", "c"].map(makeAI));
+  const roles = Object.values(assignRoles(game, { BOLD: { played: 3, eliminated: 2 } }, ["a", "b", "c"], 2));
+  expect(roles).not.toContain("BOLD");
+  expect(roles.filter((r) => r === "MIMIC")).toHaveLength(2);
+});
+
+test("the team is planned once and outcomes are counted once per round", () => {
+  const game = makeGame(["a", "b"].map(makeAI));
+  const teamMem = { kickedPlayers: [], roundsSummary: [], notes: [] };
+  const plan: AIRoundPlan = { roles: {}, usedSamples: [] };
+
+  const roleA = roleFor(game, teamMem, plan, "impostors", "a", 1);
+  expect(Object.keys(plan.roles).sort()).toEqual(["a", "b"]);
+  expect(roleFor(game, teamMem, plan, "impostors", "a", 1)).toBe(roleA);
+
+  recordRoleOutcomes(teamMem, plan, ["a"]);
+  recordRoleOutcomes(teamMem, plan, ["a"]);
+  expect(teamMem).toMatchObject({ roleStats: { [roleA]: { played: 1, eliminated: 1 } } });
+});
+
+test("the fallback line suits the role", () => {
+  const pool = ["ok", "pretty good overall", "honestly the best thing that happened all week"];
+  expect(pickSampleForRole(pool, "VAGUE", 19, createRng(1))).toBe("ok");
+  expect(pickSampleForRole(pool, "BOLD", 19, createRng(1))).toBe(pool[2]);
+  expect(pickSampleForRole(pool, "MIMIC", 19, createRng(1))).toBe(pool[1]);
+});
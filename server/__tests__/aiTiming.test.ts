@@ -0,0 +1,26 @@
+import { expect, test } from "@jest/globals";
+import { DEFAULT_MS_PER_CHAR, estimateMsPerChar, sampleSubmitDelay } from "../game/aiTiming";
+import { createRng } from "../game/rng";
+
+test("typing speed is estimated from human samples", () => {
+  const samples = [10, 20, 30, 40].map((chars) => ({ chars, elapsedMs: 5000 + chars * 300 }));
+  expect(estimateMsPerChar(samples)).toBeCloseTo(300);
+  expect(estimateMsPerChar(samples.slice(0, 2))).toBe(DEFAULT_MS_PER_CHAR);
+});
+
+test("submit delays follow the humans and stay inside the window", () => {
+  const samples = [10, 20, 30, 40].map((chars) => ({ chars, elapsedMs: 5000 + chars * 300 }));
+  for (let seed = 1; seed <= 20; seed++) {
+    const delay = sampleSubmitDelay(samples, 60_000, 20, createRng(seed));
+    // 5s thinking + 20 chars typed, +/-15%
+    expect(delay).toBeGreaterThanOrEqual(Math.floor(11_000 * 0.85));
+    expect(delay).toBeLessThanOrEqual(Math.ceil(11_000 * 1.15));
+  }
+
+  // Without history: a share of the window, never at its very edges
+  for (let seed = 1; seed <= 20; seed++) {
+    const delay = sampleSubmitDelay([], 4000, 20, createRng(seed));
+    expect(delay).toBeGreaterThanOrEqual(1500);
+    expect(delay).toBeLessThanOrEqual(2500);
+  }
+});
@@ -0,0 +1,55 @@
+import { expect, test } from "@jest/globals";
+import { computeAnalytics, pearson, styleFeatures } from "../game/analytics";
+import { recordEvent, recordMatchStarted } from "../game/gameEvents";
+import type { Game } from "../game/gameTypes";
+import { disposeScheduler } from "../game/scheduler";
+
+function playedGame(code: string, aiLine: string, votesForAI: number, eliminated: boolean): Game {
+  const human = (id: string) => ({ playerId: id, alias: id, colorId: id, alive: true, connected: true, score: 0, missedSubmissions: 0 });
+  const game: Game = {
+    code,
+    state: "GAME_OVER",
+    roundNumber: 1,
+    hostPlayerId: "h1",
+    players: [human("h1"), human("h2"), human("h3"), { ...human("ai"), alias: "Bot", isAI: true }],
+    rounds: [],
+  };
+  recordMatchStarted(game);
+  recordEvent(game, { type: "ROUND_STARTED", roundNumber: 1, roundType: "TEXT", targetAlias: "h1", participantIds: [] });
+  const lines = ["lol no", "pizza obviously", "idk tbh"];
+  lines.forEach((content, i) => recordEvent(game, { type: "SUBMISSION", roundNumber: 1, submissionId: `s${i}`, playerId: `h${i + 1}`, content }));
+  recordEvent(game, { type: "SUBMISSION", roundNumber: 1, submissionId: "sai", playerId: "ai", content: aiLine });
+  recordEvent(game, { type: "AI_GENERATION", roundNumber: 1, playerId: "ai", submissionId: "sai", usedModel: true, provider: "openai", model: "m1" });
+  for (let i = 0; i < 3; i++) {
+    const submissionId = i < votesForAI ? "sai" : "s0";
+    recordEvent(game, { type: "VOTE", roundNumber: 1, voterId: `h${i + 1}`, submissionId });
+  }
+  recordEvent(game, { type: "ROUND_COMPLETED", roundNumber: 1, eliminatedPlayerIds: eliminated ? ["ai"] : [] });
+  disposeScheduler(code);
+  return game;
+}
+
+test("style features measure distance from the human lines", () => {
+  expect(styleFeatures("idk lol", ["lol no", "idk tbh"])).toEqual({ lengthDeviation: 1 / 6, casingMismatch: 0, punctuationMismatch: 0 });
+  expect(styleFeatures("Certainly, here is my answer.", ["lol no", "idk tbh"]).casingMismatch).toBe(1);
+  expect(pearson([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+  expect(pearson([1, 1, 1], [2, 4, 6])).toBeNull();
+});
+
+test("analytics aggregate detection per alias, provider and model", () => {
+  const report = computeAnalytics([
+    playedGame("AN1", "haha pizza", 0, false),
+    playedGame("AN2", "Certainly! Here is a witty response about pizza.", 3, true),
+    playedGame("AN3", "pizza lol", 1, false),
+  ]);
+
+  expect(report.submissions).toBe(3);
+  const [bot] = report.byAlias;
+  expect(bot).toMatchObject({ key: "Bot", submissions: 3, humanVoteShare: 0.444, eliminationRate: 0.333, avgRoundsSurvived: 0.667 });
+  expect(bot?.styleCorrelations.lengthDeviation).toBeGreaterThan(0.9);
+  expect(report.byModel[0]?.key).toBe("openai/m1");
+
+  // The AI handed in last every time, which is exactly what timing analytics should surface
+  expect(report.timing.ai).toMatchObject({ submissions: 3, lastShare: 1, firstShare: 0 });
+  expect(report.timing.human).toMatchObject({ submissions: 9, lastShare: 0 });
+});
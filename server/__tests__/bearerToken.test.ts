@@ -0,0 +1,13 @@
+import { expect, test } from "@jest/globals";
+import type { Request } from "express";
+import { hasBearerToken } from "../middleware/bearerToken";
+
+const withAuthorization = (value?: string) => ({ get: () => value }) as unknown as Request;
+
+test("only the exact bearer token is accepted", () => {
+  expect(hasBearerToken(withAuthorization("Bearer s3cret"), "s3cret")).toBe(true);
+  expect(hasBearerToken(withAuthorization("Bearer s3cre"), "s3cret")).toBe(false);
+  expect(hasBearerToken(withAuthorization("Bearer s3cret-and-more"), "s3cret")).toBe(false);
+  expect(hasBearerToken(withAuthorization("s3cret"), "s3cret")).toBe(false);
+  expect(hasBearerToken(withAuthorization(), "s3cret")).toBe(false);
+});
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, expect, jest, test } from "@jest/globals";
+import { randomUUID } from "crypto";
+import { onChatMessage, onSubmissionUpdated, startRoundForGame } from "../game/gameService";
+import { createDefaultSettings } from "../game/gameSettings";
+import type { Game, PublicChatMessage, Round } from "../game/gameTypes";
+import { disposeScheduler } from "../game/scheduler";
+import { CHAT_MIN_INTERVAL_MS, postChatMessage, setChatBroadcastCallback } from "../game/chat";
+
+const savedToxicityUrl = process.env.TOXICITY_URL;
+const AI_LINES = ["not me tbh", "blue is sus", "idk man"];
+
+beforeEach(() => {
+  process.env.TOXICITY_URL = "off";
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  setChatBroadcastCallback(null);
+  disposeScheduler("CHAT");
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  if (savedToxicityUrl === undefined) delete process.env.TOXICITY_URL;
+  else process.env.TOXICITY_URL = savedToxicityUrl;
+});
+
+function makeGame(): Game {
+  const human = (id: string, alias: string, colorId: string) => ({
+    playerId: id,
+    alias,
+    colorId,
+    alive: true,
+    connected: true,
+    score: 0,
+    missedSubmissions: 0,
+  });
+  return {
+    code: "CHAT",
+    state: "IN_PROGRESS",
+    roundNumber: 0,
+    hostPlayerId: "h1",
+    players: [
+      human("h1", "Alice", "red"),
+      human("h2", "Bob", "blue"),
+      {
+        ...human("ai1", "AI-1", "yellow"),
+        connected: false,
+        isAI: true,
+        aiData: { teamId: "impostors", provider: { kind: "scripted", script: { submissions: ["no idea lol"], chat: AI_LINES } } },
+      },
+    ],
+    rounds: [],
+    settings: { ...createDefaultSettings(), discussionDurationMs: 60_000 },
+    rngSeed: 3,
+  };
+}
+
+function submit(game: Game, round: Round, playerId: string, content: string) {
+  const submission = { submissionId: randomUUID(), playerId, content, roundNumber: round.roundNumber, submittedAt: Date.now() };
+  round.submissions.push(submission);
+  onSubmissionUpdated(game, round, submission);
+}
+
+test("submissions lead into a rate-limited discussion by color, then voting", async () => {
+  const sent: PublicChatMessage[] = [];
+  setChatBroadcastCallback((_game, _roundNumber, message) => sent.push(message));
+  const game = makeGame();
+  const round = startRoundForGame(game)!;
+
+  expect((await postChatMessage(game, "h1", "too early")).ok).toBe(false);
+
+  submit(game, round, "h1", "she hates mondays");
+  submit(game, round, "h2", "pineapple pizza probably");
+  await jest.advanceTimersByTimeAsync(15_000);
+  expect(game.state).toBe("ROUND_DISCUSSION");
+  expect(round.status).toBe("DISCUSSING");
+
+  const first = await postChatMessage(game, "h1", "  yellow took forever\nto answer ");
+  expect(first.ok).toBe(true);
+  if (first.ok) onChatMessage(game, round, first.message);
+  expect(sent.find((m) => m.text === "yellow took forever to answer")).toMatchObject({ colorId: "red" });
+  expect(sent.every((m) => !("playerId" in m))).toBe(true);
+
+  expect(await postChatMessage(game, "h1", "again")).toEqual({ ok: false, error: "You're sending messages too quickly" });
+  await jest.advanceTimersByTimeAsync(CHAT_MIN_INTERVAL_MS);
+  expect((await postChatMessage(game, "h1", "again")).ok).toBe(true);
+  expect((await postChatMessage(game, "stranger", "hi")).ok).toBe(false);
+
+  await jest.advanceTimersByTimeAsync(60_000);
+  expect(game.state).toBe("ROUND_VOTING");
+  expect((await postChatMessage(game, "h2", "wait")).ok).toBe(false);
+
+  // Whatever the AI said came from its script, within its budget, and is logged like any line
+  const aiLines = (round.chat ?? []).filter((m) => m.playerId === "ai1");
+  expect(aiLines[0]?.text).toBe(AI_LINES[0]);
+  expect(aiLines.length).toBeLessThanOrEqual(3);
+  for (const m of aiLines) expect(AI_LINES).toContain(m.text);
+  expect(game.events?.filter((e) => e.type === "CHAT_MESSAGE")).toHaveLength(round.chat?.length ?? 0);
+});
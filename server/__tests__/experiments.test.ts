@@ -0,0 +1,44 @@
+import { afterEach, expect, test } from "@jest/globals";
+import { armFor, armLabel, renderInstructions, setExperiment, validateExperiment } from "../game/experiments";
+import type { Game, Player } from "../game/gameTypes";
+
+afterEach(() => setExperiment(null));
+
+function makeAI(id: string): Player {
+  return { playerId: id, alias: id, colorId: id, alive: true, connected: false, isAI: true, score: 0, missedSubmissions: 0, aiData: {} };
+}
+
+function makeGame(seed: number, ais: Player[]): Game {
+  return { code: "EXP", state: "IN_PROGRESS", roundNumber: 1, hostPlayerId: "h1", players: ais, rounds: [], rngSeed: seed };
+}
+
+test("experiments are validated", () => {
+  expect(validateExperiment({ name: "t1", arms: [{ id: "a" }, { id: "a" }] })).toEqual({ ok: false, error: "duplicate arm id a" });
+  expect(validateExperiment({ name: "t1", arms: [] }).ok).toBe(false);
+  const result = validateExperiment({ name: "t1", arms: [{ id: "hot", temperature: 1.2, lengthWindow: 8, bogus: 1 }] });
+  expect(result).toEqual({ ok: true, experiment: { name: "t1", arms: [{ id: "hot", temperature: 1.2, lengthWindow: 8 }] } });
+});
+
+test("arms are drawn by weight, reproducibly, and kept on the player", () => {
+  setExperiment({ name: "t1", arms: [{ id: "never", weight: 0 }, { id: "a" }, { id: "b" }] });
+  const ais = Array.from({ length: 20 }, (_, i) => makeAI(`ai${i}`));
+  const game = makeGame(5, ais);
+  const arms = ais.map((p) => armFor(game, p)?.id);
+
+  expect(arms).not.toContain("never");
+  expect(new Set(arms)).toEqual(new Set(["a", "b"]));
+  expect(ais[0]?.aiData?.experiment).toEqual({ name: "t1", arm: arms[0] });
+  expect(armLabel(ais[0]!)).toBe(`t1/${arms[0]}`);
+
+  const again = Array.from({ length: 20 }, (_, i) => makeAI(`ai${i}`));
+  const replayed = makeGame(5, again);
+  expect(again.map((p) => armFor(replayed, p)?.id)).toEqual(arms);
+
+  // A new experiment re-draws
+  setExperiment({ name: "t2", arms: [{ id: "only" }] });
+  expect(armFor(game, ais[0]!)?.id).toBe("only");
+});
+
+test("instruction templates get the length window filled in", () => {
+  expect(renderInstructions("Aim for {minChars}-{maxChars} chars (~{targetChars})", 30, 8)).toBe("Aim for 22-38 chars (~30)");
+});
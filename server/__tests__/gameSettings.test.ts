@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, expect, jest, test } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { generateDoodlePng, loadStockLibrary } from "../game/aiImages";
+import { applySettingsPatch, createDefaultSettings } from "../game/gameSettings";
+import { onVotesUpdated } from "../game/gameService";
+import type { Game, Round } from "../game/gameTypes";
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+function makeGame(): Game {
+  const players = ["p1", "p2", "p3", "p4"].map((id, i) => ({
+    playerId: id,
+    alias: id.toUpperCase(),
+    colorId: `c${i + 1}`,
+    alive: true,
+    connected: true,
+    score: 0,
+    missedSubmissions: 0,
+  }));
+  return { code: "SETT", state: "ROUND_VOTING", roundNumber: 1, hostPlayerId: "p1", players, rounds: [], settings: createDefaultSettings() };
+}
+
+function makeTiedRound(): Round {
+  return {
+    roundNumber: 1,
+    roundType: "TEXT",
+    targetAlias: "P1",
+    status: "VOTING",
+    submissions: [
+      { submissionId: "s1", playerId: "p1", content: "a", roundNumber: 1, submittedAt: 1 },
+      { submissionId: "s2", playerId: "p2", content: "b", roundNumber: 1, submittedAt: 2 },
+      { submissionId: "s3", playerId: "p3", content: "c", roundNumber: 1, submittedAt: 3 },
+      { submissionId: "s4", playerId: "p4", content: "d", roundNumber: 1, submittedAt: 4 },
+    ],
+    votes: [
+      { voterId: "p1", submissionId: "s2" },
+      { voterId: "p2", submissionId: "s1" },
+      { voterId: "p3", submissionId: "s1" },
+      { voterId: "p4", submissionId: "s2" },
+    ],
+    participantIds: ["p1", "p2", "p3", "p4"],
+    eliminatedPlayerIds: [],
+  };
+}
+
+test("settings patches are merged and bounds-checked", () => {
+  const base = createDefaultSettings();
+
+  const ok = applySettingsPatch(base, { voteDurationMs: 60_000, scoring: { fastBonuses: [2] } });
+  expect(ok.ok && ok.settings.voteDurationMs).toBe(60_000);
+  expect(ok.ok && ok.settings.scoring).toEqual({ participationPoints: 10, fastBonuses: [2], noSubmissionPenalty: 5 });
+  expect(base.scoring.fastBonuses).toEqual([5, 3, 1]);
+
+  const bad = applySettingsPatch(base, { submitDurationMs: 1, tiePolicy: "COIN_FLIP" as never });
+  expect(bad.ok).toBe(false);
+  expect(!bad.ok && bad.error).toContain("submitDurationMs must be between");
+  expect(!bad.ok && bad.error).toContain("tiePolicy");
+});
+
+test("ELIMINATE_ALL tie policy removes every tied player and custom scoring applies", () => {
+  const game = makeGame();
+  game.settings!.tiePolicy = "ELIMINATE_ALL";
+  game.settings!.scoring = { participationPoints: 1, fastBonuses: [100], noSubmissionPenalty: 0 };
+  const round = makeTiedRound();
+  game.rounds.push(round);
+
+  onVotesUpdated(game, round);
+
+  expect(round.eliminatedPlayerIds?.sort()).toEqual(["p1", "p2"]);
+  expect(game.players.find((p) => p.playerId === "p1")?.score).toBe(101);
+  expect(game.players.find((p) => p.playerId === "p2")?.score).toBe(1);
+});
+
+test("results delay comes from settings", () => {
+  const game = makeGame();
+  game.settings!.resultsDelayMs = 10_000;
+  const round = makeTiedRound();
+  game.rounds.push(round);
+
+  onVotesUpdated(game, round);
+  jest.advanceTimersByTime(9_999);
+  expect(game.state).toBe("ROUND_RESULTS");
+
+  jest.advanceTimersByTime(1);
+  // No AIs in this game, so advancing past results ends it
+  expect(game.state).toBe("GAME_OVER");
+});
+
+test("image rounds can only be chosen when AIs have stock images to submit", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "stock-"));
+  try {
+    loadStockLibrary(dir);
+    expect(applySettingsPatch(createDefaultSettings(), { roundTypeMode: "ALTERNATE" }).ok).toBe(false);
+    expect(applySettingsPatch(createDefaultSettings(), { roundTypeMode: "TEXT" }).ok).toBe(true);
+
+    fs.writeFileSync(path.join(dir, "mountain-lake.png"), generateDoodlePng());
+    loadStockLibrary(dir);
+    expect(applySettingsPatch(createDefaultSettings(), { roundTypeMode: "ALTERNATE" }).ok).toBe(true);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+    loadStockLibrary();
+  }
+});
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, expect, jest, test } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createFileGameRepository, createMemoryGameRepository } from "../game/gameRepository";
+import { createGame, getGame, listAllGames, peekGame, saveGame, setGameRepository } from "../game/gameStore";
+import { rehydrateGames } from "../game/gameService";
+import type { Game } from "../game/gameTypes";
+
+function makeGame(code = "SAVE"): Game {
+  return {
+    code,
+    state: "LOBBY",
+    roundNumber: 0,
+    hostPlayerId: "p1",
+    players: [
+      { playerId: "p1", alias: "P1", colorId: "red", alive: true, connected: true, score: 0, missedSubmissions: 0 },
+      { playerId: "p2", alias: "P2", colorId: "blue", alive: true, connected: true, score: 0, missedSubmissions: 0 },
+    ],
+    rounds: [],
+  };
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "games-"));
+});
+
+afterEach(() => {
+  setGameRepository(createMemoryGameRepository());
+  fs.rmSync(dir, { recursive: true, force: true });
+  jest.useRealTimers();
+});
+
+test("file repository survives a fresh store", () => {
+  setGameRepository(createFileGameRepository(dir));
+  const game = makeGame();
+  createGame(game);
+  game.players[0]!.score = 42;
+  saveGame(game);
+
+  // Simulate a restart: new repository instance over the same directory
+  setGameRepository(createFileGameRepository(dir));
+  const restored = getGame("SAVE");
+
+  expect(restored).not.toBe(game);
+  expect(restored?.players[0]?.score).toBe(42);
+});
+
+test("file saves are coalesced and never write API keys", () => {
+  jest.useFakeTimers();
+  const repo = createFileGameRepository(dir);
+  const game = makeGame();
+  game.players[1]!.aiData = { apiKey: "sk-secret" };
+  const write = jest.spyOn(fs, "writeFileSync");
+
+  repo.save(game);
+  game.players[0]!.score = 7;
+  repo.save(game);
+  expect(write).not.toHaveBeenCalled();
+
+  jest.runOnlyPendingTimers();
+  expect(write).toHaveBeenCalledTimes(1);
+  const raw = fs.readFileSync(path.join(dir, "SAVE.json"), "utf8");
+  expect(raw).not.toContain("sk-secret");
+  expect(JSON.parse(raw).players[0].score).toBe(7);
+  expect(game.players[1]!.aiData?.apiKey).toBe("sk-secret");
+  write.mockRestore();
+});
+
+test("rehydration resumes an in-flight submission round at its original deadline", () => {
+  jest.useFakeTimers();
+  const now = Date.now();
+
+  const game = makeGame("LIVE");
+  game.state = "ROUND_SUBMITTING";
+  game.roundNumber = 1;
+  game.rounds.push({
+    roundNumber: 1,
+    roundType: "TEXT",
+    targetAlias: "P1",
+    roundPrompt: "Name one thing P1 hates.",
+    status: "SUBMITTING",
+    submissions: [],
+    votes: [],
+    participantIds: ["p1", "p2"],
+    eliminatedPlayerIds: [],
+    expiresAt: now + 5_000,
+  });
+  const previous = createFileGameRepository(dir);
+  previous.save(game);
+  previous.flush();
+
+  setGameRepository(createFileGameRepository(dir));
+  expect(rehydrateGames()).toBe(1);
+
+  const restored = getGame("LIVE")!;
+  expect(restored.players.every((p) => !p.connected)).toBe(true);
+  expect(restored.rounds[0]?.expiresAt).toBe(now + 5_000);
+
+  jest.advanceTimersByTime(4_999);
+  expect(restored.state).toBe("ROUND_SUBMITTING");
+
+  jest.advanceTimersByTime(1);
+  expect(restored.state).toBe("ROUND_VOTING");
+  jest.clearAllTimers();
+});
+
+test("reports read persisted games without making them live", () => {
+  setGameRepository(createFileGameRepository(dir));
+  const finished = { ...makeGame("DONE"), state: "GAME_OVER" as const };
+  const previous = createFileGameRepository(dir);
+  previous.save(finished);
+  previous.flush();
+  const live = makeGame("LIVE");
+  createGame(live);
+
+  const listed = listAllGames();
+  expect(listed.map((g) => g.code).sort()).toEqual(["DONE", "LIVE"]);
+  expect(listed.find((g) => g.code === "LIVE")).toBe(live);
+  const snapshot = listed.find((g) => g.code === "DONE");
+  expect(peekGame("DONE")).toBe(snapshot);
+
+  // Not in the live map: getGame reads it back from the repository as a fresh object
+  expect(getGame("DONE")).not.toBe(snapshot);
+});
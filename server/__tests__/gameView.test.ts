@@ -0,0 +1,107 @@
+import { expect, test } from "@jest/globals";
+import { buildPublicGameView, buildVotingRound } from "../game/gameView";
+import type { Game } from "../game/gameTypes";
+import { pickAIAlias } from "../game/aiNames";
+
+function makeGame(): Game {
+  return {
+    code: "VIEW",
+    state: "ROUND_SUBMITTING",
+    roundNumber: 1,
+    hostPlayerId: "h1",
+    players: [
+      { playerId: "h1", alias: "Host", colorId: "red", alive: true, connected: true, score: 7, missedSubmissions: 0 },
+      { playerId: "h2", alias: "Guest", colorId: "blue", alive: true, connected: false, score: 3, missedSubmissions: 1 },
+      {
+        playerId: "a1",
+        alias: "Jordan",
+        colorId: "green",
+        alive: true,
+        connected: false,
+        isAI: true,
+        score: 0,
+        missedSubmissions: 0,
+        aiData: { apiKey: "sk-secret", teamId: "impostors", memory: { kickedPlayers: [], roundsSummary: [], notes: ["plan"] } },
+      },
+    ],
+    rounds: [
+      {
+        roundNumber: 1,
+        roundType: "TEXT",
+        targetAlias: "Host",
+        roundPrompt: "Name one thing Host hates.",
+        status: "SUBMITTING",
+        submissions: [
+          { submissionId: "s1", playerId: "h2", content: "mondays", roundNumber: 1, submittedAt: 1 },
+          { submissionId: "s2", playerId: "a1", content: "traffic", roundNumber: 1, submittedAt: 2 },
+        ],
+        votes: [],
+        participantIds: ["h1", "h2", "a1"],
+        eliminatedPlayerIds: [],
+      },
+    ],
+    aiTeamMemory: { impostors: { kickedPlayers: [], roundsSummary: [], notes: ["secret team note"] } },
+  };
+}
+
+test("public view never contains AI internals", () => {
+  const view = buildPublicGameView(makeGame(), "h2");
+  const json = JSON.stringify(view);
+
+  expect(json).not.toContain("isAI");
+  expect(json).not.toContain("sk-secret");
+  expect(json).not.toContain("aiTeamMemory");
+  expect(json).not.toContain("secret team note");
+  expect(json).not.toContain("traffic");
+  expect(view.players.find((p) => p.playerId === "a1")).toEqual({
+    playerId: "a1",
+    alias: "Jordan",
+    colorId: "green",
+    alive: true,
+    connected: true,
+  });
+});
+
+test("viewer sees their own role and submission but not others'", () => {
+  const view = buildPublicGameView(makeGame(), "h2");
+
+  expect(view.self).toMatchObject({ playerId: "h2", role: "HUMAN", isHost: false, score: 3, missedSubmissions: 1 });
+  expect(view.players.find((p) => p.playerId === "h1")).not.toHaveProperty("score");
+  expect(view.rounds[0]?.submissionCount).toBe(2);
+  expect(view.rounds[0]?.mySubmissionId).toBe("s1");
+});
+
+test("spectators get no self entry", () => {
+  const view = buildPublicGameView(makeGame());
+
+  expect(view.self).toBeUndefined();
+  expect(view.rounds[0]?.mySubmissionId).toBeUndefined();
+});
+
+test("no public alias gives an AI away", () => {
+  const game = makeGame();
+  game.rngSeed = 11;
+  for (let i = 0; i < 30; i++) {
+    game.players.push({ ...game.players[2]!, playerId: `a${i + 2}`, alias: pickAIAlias(game), colorId: `c${i}` });
+  }
+
+  const aliases = buildPublicGameView(game, "h2").players.map((p) => p.alias);
+  expect(new Set(aliases.map((a) => a.toLowerCase())).size).toBe(aliases.length);
+  for (const alias of aliases) expect(alias).not.toMatch(/\bai\b|ai[-_ ]?\d|bot|robot|npc/i);
+});
+
+test("the voting order is stable within a match and reshuffled for a rematch", () => {
+  const game = makeGame();
+  game.rngSeed = 5;
+  const round = game.rounds[0]!;
+  for (let i = 3; i <= 8; i++) {
+    round.submissions.push({ submissionId: `s${i}`, playerId: "h1", content: `line ${i}`, roundNumber: 1, submittedAt: i });
+  }
+  const order = () => buildVotingRound(game, round).submissions.map((s) => s.submissionId);
+
+  game.match = 1;
+  const first = order();
+  expect(order()).toEqual(first);
+  game.match = 2;
+  expect(order()).not.toEqual(first);
+});
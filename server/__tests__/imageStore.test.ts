@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, expect, test } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  isStoredImageUrl,
+  MAX_GAME_IMAGE_BYTES,
+  MAX_IMAGE_BYTES,
+  recordGameUpload,
+  releaseGameImages,
+  setImageDir,
+  storeImage,
+  withinGameQuota,
+} from "../game/imageStore";
+import { buildAIImageSubmission, chooseStockImage, generateDoodlePng, hasStockImages, loadStockLibrary } from "../game/aiImages";
+import type { Game, Round } from "../game/gameTypes";
+
+function makeGame(code: string): Game {
+  return { code, state: "GAME_OVER", roundNumber: 0, hostPlayerId: "p1", players: [], rounds: [] };
+}
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "images-"));
+  setImageDir(dir);
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test("images are stored once per content hash and served by URL", () => {
+  const png = generateDoodlePng();
+  const first = storeImage(png, "image/png");
+  const second = storeImage(Buffer.from(png), "image/png");
+
+  expect(first.ok && second.ok).toBe(true);
+  if (!first.ok || !second.ok) return;
+  expect(second.url).toBe(first.url);
+  expect(first.url).toMatch(/^\/api\/images\/[a-f0-9]{64}\.png$/);
+  expect(fs.readdirSync(dir)).toHaveLength(1);
+  expect(isStoredImageUrl(first.url)).toBe(true);
+  expect(isStoredImageUrl("/api/images/../secret.png")).toBe(false);
+});
+
+test("uploads are rejected by sniffed type and size", () => {
+  const png = generateDoodlePng();
+  expect(storeImage(Buffer.from("<svg onload=alert(1)>"), "image/png").ok).toBe(false);
+  expect(storeImage(png, "image/jpeg").ok).toBe(false);
+  expect(storeImage(Buffer.alloc(MAX_IMAGE_BYTES + 1, png)).ok).toBe(false);
+});
+
+test("stock images matching the prompt are preferred until used", () => {
+  const library = [
+    { file: "/stock/cat-sofa.jpg", tags: ["cat", "sofa"] },
+    { file: "/stock/mountain-lake.jpg", tags: ["mountain", "lake"] },
+    { file: "/stock/beach.jpg", tags: ["beach"] },
+  ];
+  const prompt = "Draw the mountain P1 would climb";
+
+  expect(chooseStockImage(library, prompt, new Set())?.file).toBe("/stock/mountain-lake.jpg");
+  const next = chooseStockImage(library, prompt, new Set(["/stock/mountain-lake.jpg"]));
+  expect(next?.file).not.toBe("/stock/mountain-lake.jpg");
+});
+
+test("each AI gets its own stock image, and one the library can't cover gets none rather than a doodle", () => {
+  const stock = fs.mkdtempSync(path.join(os.tmpdir(), "stock-"));
+  try {
+    fs.writeFileSync(path.join(stock, "mountain-lake.png"), generateDoodlePng(() => 0.3));
+    loadStockLibrary(stock);
+    expect(hasStockImages(1)).toBe(true);
+    expect(hasStockImages(2)).toBe(false);
+
+    const round = { roundNumber: 1, roundType: "IMAGE", targetAlias: "P1", roundPrompt: "P1's view" } as Round;
+    const first = buildAIImageSubmission(round, new Set());
+    expect(first).not.toBeNull();
+    expect(buildAIImageSubmission(round, new Set([first!]))).toBeNull();
+    expect(fs.readdirSync(dir)).toHaveLength(1);
+  } finally {
+    fs.rmSync(stock, { recursive: true, force: true });
+    loadStockLibrary();
+  }
+});
+
+test("uploads count against their game's quota and are deleted with it unless shared", () => {
+  const [mine, shared] = [generateDoodlePng(() => 0.1), generateDoodlePng(() => 0.9)].map((png) => storeImage(png, "image/png"));
+  if (!mine?.ok || !shared?.ok) throw new Error("store failed");
+
+  const game = makeGame("GONE");
+  const other = makeGame("KEPT");
+  recordGameUpload(game, "p1", mine.imageId, 100);
+  recordGameUpload(game, "p1", mine.imageId, 100);
+  recordGameUpload(game, "p1", shared.imageId, 100);
+  recordGameUpload(other, "p2", shared.imageId, 100);
+
+  expect(withinGameQuota(game, MAX_GAME_IMAGE_BYTES - 200)).toBe(true);
+  expect(withinGameQuota(game, MAX_GAME_IMAGE_BYTES - 199)).toBe(false);
+
+  expect(releaseGameImages(game, [game, other])).toBe(1);
+  expect(isStoredImageUrl(mine.url)).toBe(false);
+  expect(isStoredImageUrl(shared.url)).toBe(true);
+});
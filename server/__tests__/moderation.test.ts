@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, expect, jest, test } from "@jest/globals";
+import { createDefaultSettings } from "../game/gameSettings";
+import type { Game, ModerationPolicy } from "../game/gameTypes";
+import { moderateAISubmissions, moderateSubmission, uncheckedAISubmissions } from "../game/moderation";
+import { createLexiconModerationProvider, normalizeForLexicon, resetModerationBreakers } from "../game/moderationProviders";
+import { listModerationRecords, markFalsePositive, rebuildModerationWhitelist } from "../game/moderationLog";
+import { assessText, assessTexts, resetToxicityCache } from "../game/toxicity";
+
+const savedToxicityUrl = process.env.TOXICITY_URL;
+
+beforeEach(() => {
+  process.env.TOXICITY_URL = "http://toxicity.test";
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  resetToxicityCache();
+  resetModerationBreakers();
+  rebuildModerationWhitelist([]);
+  if (savedToxicityUrl === undefined) delete process.env.TOXICITY_URL;
+  else process.env.TOXICITY_URL = savedToxicityUrl;
+});
+
+function makeGame(moderationPolicy: ModerationPolicy): Game {
+  return {
+    code: "MOD",
+    state: "IN_PROGRESS",
+    roundNumber: 1,
+    hostPlayerId: "h1",
+    players: [],
+    rounds: [],
+    settings: { ...createDefaultSettings(), moderationPolicy },
+  };
+}
+
+// Flags anything containing "jerk"
+function stubClassifier() {
+  jest.spyOn(globalThis, "fetch").mockImplementation(async (_url, init) => {
+    const { text } = JSON.parse(String(init?.body)) as { text: string };
+    const toxic = text.includes("jerk");
+    return new Response(JSON.stringify({ is_toxic: toxic, detailed_scores: { insult: toxic ? 0.9 : 0.01 } }));
+  });
+}
+
+test("the game's policy decides what a toxic submission becomes", async () => {
+  stubClassifier();
+
+  expect(await moderateSubmission(makeGame("BLOCK"), 1, "h1", "pizza, probably")).toEqual({ ok: true, content: "pizza, probably" });
+  expect((await moderateSubmission(makeGame("BLOCK"), 1, "h1", "what a jerk")).ok).toBe(false);
+
+  const masked = await moderateSubmission(makeGame("MASK"), 1, "h1", "what a jerk");
+  expect(masked.ok && masked.content).toBe("(content replaced due to toxicity: insult 0.90)");
+  expect(masked.ok && masked.moderation?.action).toBe("MASKED");
+
+  const flagged = await moderateSubmission(makeGame("FLAG"), 1, "h1", "what a jerk");
+  expect(flagged).toMatchObject({ ok: true, content: "what a jerk", moderation: { action: "FLAGGED", scores: { insult: 0.9 } } });
+});
+
+test("AI lines get the same policy when submissions close, so a masked line doesn't mark its author human", async () => {
+  stubClassifier();
+  const player = (playerId: string, isAI: boolean) => ({
+    playerId,
+    alias: playerId,
+    colorId: playerId,
+    alive: true,
+    connected: !isAI,
+    score: 0,
+    missedSubmissions: 0,
+    ...(isAI ? { isAI } : {}),
+  });
+  const line = (playerId: string, content: string) => ({ submissionId: `s-${playerId}`, playerId, content, roundNumber: 1 });
+  const game = { ...makeGame("MASK"), players: [player("h1", false), player("ai1", true), player("ai2", true)] };
+  const round = {
+    roundNumber: 1,
+    roundType: "TEXT" as const,
+    targetAlias: "h1",
+    roundPrompt: "",
+    status: "SUBMITTING" as const,
+    submissions: [line("h1", "cold pizza"), line("ai1", "what a jerk"), line("ai2", "")],
+    votes: [],
+    participantIds: ["h1", "ai1", "ai2"],
+    eliminatedPlayerIds: [],
+  };
+
+  const unchecked = uncheckedAISubmissions(game, round);
+  expect(unchecked.map((s) => s.playerId)).toEqual(["ai1"]);
+  await moderateAISubmissions(game, round, unchecked);
+  expect(round.submissions[1]).toMatchObject({
+    content: "(content replaced due to toxicity: insult 0.90)",
+    moderation: { action: "MASKED" },
+  });
+  expect(uncheckedAISubmissions(game, round)).toEqual([]);
+
+  const blocked = { ...game, settings: { ...game.settings!, moderationPolicy: "BLOCK" as const } };
+  const toxic = line("ai2", "you jerk");
+  await moderateAISubmissions(blocked, round, [toxic]);
+  expect(toxic.content).toBe("");
+});
+
+test("when the classifier is down the lexicon answers, and with no provider left the fail mode decides", async () => {
+  jest.spyOn(globalThis, "fetch").mockRejectedValue(new Error("ECONNREFUSED"));
+  expect(await moderateSubmission(makeGame("BLOCK"), 1, "h1", "what a jerk")).toEqual({ ok: true, content: "what a jerk" });
+  expect((await moderateSubmission(makeGame("BLOCK"), 1, "h1", "what a sh1t answer")).ok).toBe(false);
+
+  process.env.MODERATION_PROVIDERS = "http";
+  try {
+    expect((await moderateSubmission(makeGame("BLOCK"), 1, "h1", "what a jerk")).ok).toBe(false);
+    const open = { ...makeGame("BLOCK"), settings: { ...makeGame("BLOCK").settings!, moderationFailMode: "OPEN" as const } };
+    expect(await moderateSubmission(open, 1, "h1", "what a jerk")).toEqual({ ok: true, content: "what a jerk" });
+
+    process.env.MODERATION_PROVIDERS = "off";
+    expect(await moderateSubmission(makeGame("BLOCK"), 1, "h1", "what a sh1t answer")).toEqual({ ok: true, content: "what a sh1t answer" });
+  } finally {
+    delete process.env.MODERATION_PROVIDERS;
+  }
+});
+
+test("a classifier that never answers times out and the lexicon takes over", async () => {
+  process.env.MODERATION_TIMEOUT_MS = "50";
+  jest.spyOn(globalThis, "fetch").mockImplementation(
+    (_url, init) => new Promise((_resolve, reject) => init?.signal?.addEventListener("abort", () => reject(init.signal?.reason)))
+  );
+  try {
+    const startedAt = Date.now();
+    expect((await moderateSubmission(makeGame("BLOCK"), 1, "h1", "what a sh1t answer")).ok).toBe(false);
+    expect(await moderateSubmission(makeGame("BLOCK"), 1, "h1", "pizza, probably")).toEqual({ ok: true, content: "pizza, probably" });
+    expect(Date.now() - startedAt).toBeLessThan(1000);
+  } finally {
+    delete process.env.MODERATION_TIMEOUT_MS;
+  }
+});
+
+test("a classifier that keeps failing is skipped for a while", async () => {
+  const fetchMock = jest.spyOn(globalThis, "fetch").mockRejectedValue(new Error("ENOTFOUND toxicity"));
+  for (const text of ["one", "two", "three"]) await assessText(makeGame("BLOCK"), text);
+  expect(fetchMock).toHaveBeenCalledTimes(3);
+
+  expect((await assessText(makeGame("BLOCK"), "what a sh1t answer")).isToxic).toBe(true);
+  expect((await assessText(makeGame("BLOCK"), "four")).isToxic).toBe(false);
+  expect(fetchMock).toHaveBeenCalledTimes(3);
+});
+
+test("the lexicon sees through leetspeak, spacing and stretched letters", async () => {
+  const lexicon = createLexiconModerationProvider();
+  for (const text of ["F U C K this", "a$$h0le", "fuuuuck", "k.y.s", "you're an 1d10t"]) {
+    expect((await lexicon.score(text))?.isToxic).toBe(true);
+  }
+  for (const text of ["a cocktail in Scunthorpe", "the assistant", "shut up and dance", "I'll kill it at karaoke"]) {
+    expect((await lexicon.score(text))?.isToxic).toBe(false);
+  }
+  expect(normalizeForLexicon("Sh!!t")).toContain("shit");
+});
+
+test("scores are cached and shared between concurrent requests", async () => {
+  const bodies: unknown[] = [];
+  jest.spyOn(globalThis, "fetch").mockImplementation(async (_url, init) => {
+    const body = JSON.parse(String(init?.body)) as { text: string };
+    bodies.push(body);
+    return new Response(JSON.stringify({ is_toxic: body.text.includes("jerk"), detailed_scores: {} }));
+  });
+  const game = makeGame("MASK");
+
+  const [a, b] = await Promise.all([assessText(game, "what a jerk"), assessText(game, "what a jerk")]);
+  expect(a.isToxic && b.isToxic).toBe(true);
+  expect(bodies).toHaveLength(1);
+
+  expect((await assessText(game, "what a jerk")).isToxic).toBe(true);
+  expect((await assessText(game, "cold pizza")).isToxic).toBe(false);
+  expect(bodies).toEqual([{ text: "what a jerk" }, { text: "cold pizza" }]);
+});
+
+test("a round's lines not already scored go to the classifier in one batch", async () => {
+  const bodies: unknown[] = [];
+  jest.spyOn(globalThis, "fetch").mockImplementation(async (_url, init) => {
+    const body = JSON.parse(String(init?.body)) as { text?: string; texts?: string[] };
+    bodies.push(body);
+    const verdict = (text: string) => ({ is_toxic: text.includes("jerk"), detailed_scores: {} });
+    return new Response(JSON.stringify(body.texts ? { results: body.texts.map(verdict) } : verdict(body.text ?? "")));
+  });
+  const game = makeGame("MASK");
+  await assessText(game, "what a jerk");
+
+  const round = await assessTexts(game, ["what a jerk", "pizza", "cold pizza", "pizza"]);
+  expect(round.map((r) => r.isToxic)).toEqual([true, false, false, false]);
+  expect(bodies).toEqual([{ text: "what a jerk" }, { texts: ["pizza", "cold pizza"] }]);
+
+  await assessText(game, "cold pizza");
+  expect(bodies).toHaveLength(2);
+});
+
+test("the lexicon's stand-in verdicts aren't cached, so a recovered classifier is asked again", async () => {
+  jest.spyOn(globalThis, "fetch").mockRejectedValueOnce(new Error("ECONNREFUSED"));
+  expect((await assessText(makeGame("MASK"), "what a jerk")).isToxic).toBe(false);
+
+  stubClassifier();
+  expect((await assessText(makeGame("MASK"), "what a jerk")).isToxic).toBe(true);
+});
+
+test("decisions are logged for review, and a false positive is let through afterwards", async () => {
+  stubClassifier();
+  const game = makeGame("FLAG");
+  await moderateSubmission(game, 2, "h1", "pizza, probably");
+  await moderateSubmission(game, 2, "h1", "a jerk chicken recipe");
+
+  const [record] = listModerationRecords([game], { category: "insult" });
+  expect(record).toMatchObject({ code: "MOD", roundNumber: 2, playerId: "h1", source: "SUBMISSION", action: "FLAGGED", text: "a jerk chicken recipe" });
+  expect(listModerationRecords([game], { falsePositive: true })).toHaveLength(0);
+
+  markFalsePositive([game], game, record!.recordId, true);
+  expect(await moderateSubmission(game, 3, "h2", "a jerk chicken recipe")).toEqual({ ok: true, content: "a jerk chicken recipe" });
+  expect(game.moderationLog).toHaveLength(1);
+
+  markFalsePositive([game], game, record!.recordId, false);
+  expect((await assessText(game, "a jerk chicken recipe")).isToxic).toBe(true);
+});
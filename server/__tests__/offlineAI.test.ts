@@ -0,0 +1,55 @@
+import { expect, test } from "@jest/globals";
+import { styleProfile } from "../game/aiText";
+import type { Round } from "../game/gameTypes";
+import { PHRASE_BANK, chooseOfflineVote, promptTopic, styleLike, writeOfflineLine } from "../game/offlineAI";
+import { createRng } from "../game/rng";
+
+function makeRound(promptKey: string | undefined, roundPrompt: string): Round {
+  return {
+    roundNumber: 1,
+    roundType: "TEXT",
+    targetAlias: "Sam",
+    roundPrompt,
+    ...(promptKey ? { promptKey } : {}),
+    status: "SUBMITTING",
+    submissions: [],
+    votes: [],
+    participantIds: [],
+  };
+}
+
+test("lines come from the template's phrase bank and avoid what humans wrote", () => {
+  const round = makeRound("party/karaoke", "Which song does Sam pick at karaoke?");
+  // Capitalised and punctuated, so lines keep their bank spelling
+  const profile = styleProfile(["Bohemian Rhapsody, obviously.", "Something loud!"], "Sam");
+
+  for (let seed = 1; seed <= 20; seed++) {
+    const line = writeOfflineLine({ round, role: "MIMIC", profile, targetChars: 20, avoid: ["Bohemian Rhapsody, obviously"] }, createRng(seed));
+    expect(line).not.toMatch(/bohemian/i);
+    expect(PHRASE_BANK["party/karaoke"]).toContain(line.replace(/\.$/, ""));
+  }
+});
+
+test("unknown templates are answered around the prompt's topic", () => {
+  expect(promptTopic("What useless superpower does Sam secretly have?", "Sam")).toBe("superpower");
+  const round = makeRound("custom/x", "What would Sam bring to a picnic?");
+  const line = writeOfflineLine({ round, role: "BOLD", profile: styleProfile([], "Sam"), targetChars: 30, avoid: [] }, createRng(3));
+  expect(line.toLowerCase()).toContain("picnic");
+});
+
+test("styling follows the group's habits", () => {
+  const casual = styleProfile(["lol idk", "probably nothing", "u know it"], "Sam");
+  expect(styleLike("Really, you know it.", casual, createRng(1))).toBe(styleLike("Really, you know it.", casual, createRng(1)));
+  expect(styleLike("Really, you know it.", casual, createRng(1))).not.toMatch(/[A-Z.,]/);
+});
+
+test("votes go to the most bot-like human submission", () => {
+  const options = [
+    { submissionId: "a", content: "Sam forgets his keys every day" },
+    { submissionId: "b", content: "ok" },
+    { submissionId: "c", content: "the cat, somehow" },
+  ];
+  const all = [...options.map((o) => o.content), "Sam forgets his keys every day lol"];
+  expect(chooseOfflineVote(options, all, [], createRng(1))).toBe("a");
+  expect(chooseOfflineVote(options.slice(1), all, [{ submissionId: "c" }], createRng(1))).toBe("b");
+});
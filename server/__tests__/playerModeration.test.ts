@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, expect, jest, test } from "@jest/globals";
+import { randomUUID } from "crypto";
+import { kickPlayer, onSubmissionUpdated, startRoundForGame } from "../game/gameService";
+import type { Game, Round } from "../game/gameTypes";
+import { buildPublicGameView } from "../game/gameView";
+import { listModerationRecords } from "../game/moderationLog";
+import { isBanned, joinRefusal, KICK_BAN_MS, reportPlayer } from "../game/playerModeration";
+import { disposeScheduler } from "../game/scheduler";
+
+const savedToxicityUrl = process.env.TOXICITY_URL;
+
+beforeEach(() => {
+  process.env.TOXICITY_URL = "off";
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  disposeScheduler("KICK");
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  if (savedToxicityUrl === undefined) delete process.env.TOXICITY_URL;
+  else process.env.TOXICITY_URL = savedToxicityUrl;
+});
+
+// Three humans and no AIs, so nothing but the players decides when a round moves on
+function makeGame(): Game {
+  const player = (playerId: string, alias: string, colorId: string) =>
+    ({ playerId, alias, colorId, alive: true, connected: true, score: 0, missedSubmissions: 0 });
+  return {
+    code: "KICK",
+    state: "IN_PROGRESS",
+    roundNumber: 0,
+    hostPlayerId: "h1",
+    players: [player("h1", "Alice", "red"), player("h2", "Bob", "blue"), player("h3", "Cleo", "green")],
+    rounds: [],
+  };
+}
+
+function submit(game: Game, round: Round, playerId: string, content: string) {
+  const submission = { submissionId: randomUUID(), playerId, content, roundNumber: round.roundNumber, submittedAt: Date.now() };
+  round.submissions.push(submission);
+  onSubmissionUpdated(game, round, submission);
+}
+
+test("kicking the last player the round waits on eliminates them and moves the round on", () => {
+  const game = makeGame();
+  const round = startRoundForGame(game)!;
+  submit(game, round, "h1", "she hates mondays");
+  submit(game, round, "h3", "cold pizza");
+  expect(round.status).toBe("SUBMITTING");
+
+  expect(kickPlayer(game, "h2", "h1")).toBe(true);
+  expect(round.status).toBe("VOTING");
+  expect(round.participantIds).not.toContain("h2");
+  expect(round.eliminatedPlayerIds).toContain("h2");
+  expect(game.players.find((p) => p.playerId === "h2")?.alive).toBe(false);
+  expect(game.events?.some((e) => e.type === "ELIMINATION" && e.playerId === "h2" && e.reason === "KICKED")).toBe(true);
+
+  expect(isBanned(game, "h2")).toBe(true);
+  jest.setSystemTime(Date.now() + KICK_BAN_MS + 1);
+  expect(isBanned(game, "h2")).toBe(false);
+});
+
+test("reports count each reporter once, reach only the host's view and land in the moderation log", () => {
+  const game = { ...makeGame(), state: "LOBBY" as const };
+
+  expect(reportPlayer(game, "h2", "h2").ok).toBe(false);
+  expect(reportPlayer(game, "h2", "h3", "spamming slurs")).toMatchObject({ ok: true, summary: { colorId: "green", count: 1 } });
+  expect(reportPlayer(game, "h2", "h3")).toMatchObject({ ok: true, summary: { count: 1, reasons: ["spamming slurs"] } });
+  expect(reportPlayer(game, "h1", "h3", "rude")).toMatchObject({ ok: true, summary: { count: 2 } });
+
+  expect(buildPublicGameView(game, "h1").reports).toEqual([
+    { playerId: "h3", colorId: "green", alias: "Cleo", count: 2, reasons: ["spamming slurs", "rude"] },
+  ]);
+  expect(buildPublicGameView(game, "h2").reports).toBeUndefined();
+  expect(listModerationRecords([game], { source: "REPORT" })).toHaveLength(3);
+
+  // In the lobby a kick simply removes them
+  kickPlayer(game, "h3", "h1");
+  expect(game.players.map((p) => p.playerId)).toEqual(["h1", "h2"]);
+  expect(listModerationRecords([game], { action: "KICKED" })[0]).toMatchObject({ playerId: "h3", actorId: "h1" });
+});
+
+test("a kicked player's old session can't rejoin, while anyone else still can", () => {
+  const game = { ...makeGame(), state: "LOBBY" as const };
+  kickPlayer(game, "h2", "h1");
+
+  expect(joinRefusal(game, { previousPlayerId: "h2" })).toBe("You were removed from this game");
+  expect(joinRefusal(game, { previousPlayerId: "h3" })).toBeUndefined();
+  expect(joinRefusal(game, {})).toBeUndefined();
+  expect(game.bans?.[0]).toEqual({ playerId: "h2", until: expect.any(Number) });
+
+  jest.setSystemTime(Date.now() + KICK_BAN_MS + 1);
+  expect(joinRefusal(game, { previousPlayerId: "h2" })).toBeUndefined();
+});
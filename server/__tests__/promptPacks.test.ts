@@ -0,0 +1,75 @@
+import path from "path";
+import { expect, test } from "@jest/globals";
+import { loadPromptPacks, pickRoundPrompt, readPromptPackDir, validatePromptPack } from "../game/promptPacks";
+import type { Game } from "../game/gameTypes";
+
+const PACK_DIR = path.join(__dirname, "..", "prompts", "packs");
+
+function makeGame(): Game {
+  const players = ["Alice", "Bob", "Cara"].map((alias, i) => ({
+    playerId: `p${i + 1}`,
+    alias,
+    colorId: `c${i + 1}`,
+    alive: true,
+    connected: true,
+    score: 0,
+    missedSubmissions: 0,
+  }));
+  return { code: "PACK", state: "LOBBY", roundNumber: 0, hostPlayerId: "p1", players, rounds: [] };
+}
+
+test("bundled packs pass validation", () => {
+  const { packs, errors } = readPromptPackDir(PACK_DIR);
+  expect(errors).toEqual([]);
+  expect(packs.map((p) => p.id)).toContain("classic");
+});
+
+test("unknown placeholders and duplicate template ids are reported", () => {
+  const { pack, errors } = validatePromptPack(
+    {
+      id: "bad",
+      name: "Bad",
+      language: "en",
+      contentRating: "family",
+      templates: [
+        { id: "a", text: "What does {targt} eat?" },
+        { id: "a", text: "Hello {target}" },
+      ],
+    },
+    "bad.json"
+  );
+  expect(pack).toBeUndefined();
+  expect(errors.some((e) => e.includes("{targt}"))).toBe(true);
+  expect(errors.some((e) => e.includes('duplicates id "a"'))).toBe(true);
+});
+
+test("prompts don't repeat until every template in the selection was used", () => {
+  loadPromptPacks(PACK_DIR);
+  const game = makeGame();
+  const classic = readPromptPackDir(PACK_DIR).packs.find((p) => p.id === "classic")!;
+
+  const keys = classic.templates.map(() => pickRoundPrompt(game, ["classic"], "Alice").templateKey);
+  expect(new Set(keys).size).toBe(classic.templates.length);
+
+  // Next pick starts a fresh cycle
+  pickRoundPrompt(game, ["classic"], "Alice");
+  expect(game.usedPromptKeys).toHaveLength(1);
+});
+
+test("placeholders are filled with the target and another living player", () => {
+  const game = makeGame();
+  const [bob] = game.players.slice(1);
+  bob!.alive = false;
+  const { pack } = validatePromptPack(
+    { id: "t", name: "T", language: "en", contentRating: "family", templates: [{ id: "x", text: "{target} vs {randomPlayer}" }] },
+    "inline"
+  );
+  expect(pack).toBeDefined();
+
+  // loadPromptPacks returns the live registry
+  loadPromptPacks(PACK_DIR).push(pack!);
+
+  const { text, templateKey } = pickRoundPrompt(game, ["t"], "Alice");
+  expect(templateKey).toBe("t/x");
+  expect(text).toBe("Alice vs Cara");
+});
@@ -0,0 +1,36 @@
+import { expect, test } from "@jest/globals";
+import { createVirtualScheduler, disposeScheduler, schedulerFor, setGameScheduler } from "../game/scheduler";
+
+test("virtual scheduler fires timers in deadline order and keyed timers replace each other", () => {
+  const scheduler = createVirtualScheduler(0);
+  const fired: string[] = [];
+
+  scheduler.schedule(() => fired.push("late"), 500);
+  scheduler.schedule(() => fired.push("first submit"), 100, "submit");
+  scheduler.schedule(() => fired.push("rearmed submit"), 300, "submit");
+  scheduler.schedule(() => fired.push("early"), 50);
+
+  scheduler.advanceBy(400);
+  expect(fired).toEqual(["early", "rearmed submit"]);
+  expect(scheduler.now()).toBe(400);
+
+  scheduler.cancel("submit"); // already fired: no-op
+  expect(scheduler.runNext()).toBe(true);
+  expect(fired).toEqual(["early", "rearmed submit", "late"]);
+  expect(scheduler.runNext()).toBe(false);
+});
+
+test("disposing a game's scheduler cancels everything it still owns", () => {
+  const scheduler = createVirtualScheduler(0);
+  setGameScheduler("SCHED", scheduler);
+  const fired: number[] = [];
+
+  schedulerFor({ code: "SCHED" }).schedule(() => fired.push(1), 10, "vote");
+  schedulerFor({ code: "SCHED" }).schedule(() => fired.push(2), 20);
+  expect(scheduler.pendingCount()).toBe(2);
+
+  disposeScheduler("SCHED");
+  scheduler.advanceBy(1000);
+  expect(fired).toEqual([]);
+  expect(scheduler.pendingCount()).toBe(0);
+});
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, expect, jest, test } from "@jest/globals";
+import { randomUUID } from "crypto";
+import { onSubmissionUpdated, onVotesUpdated, startRoundForGame } from "../game/gameService";
+import { createDefaultSettings } from "../game/gameSettings";
+import type { Game, Round } from "../game/gameTypes";
+import { createRng, shuffleWith } from "../game/rng";
+import { disposeScheduler } from "../game/scheduler";
+import { buildReplays } from "../game/gameEvents";
+import { buildTrainingRecords, computeReward } from "../game/trainingExport";
+
+const savedToxicityUrl = process.env.TOXICITY_URL;
+
+beforeEach(() => {
+  process.env.TOXICITY_URL = "off";
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  disposeScheduler("SEED");
+  jest.clearAllTimers();
+  jest.useRealTimers();
+  if (savedToxicityUrl === undefined) delete process.env.TOXICITY_URL;
+  else process.env.TOXICITY_URL = savedToxicityUrl;
+});
+
+function makeGame(seed: number): Game {
+  const human = (id: string, alias: string, colorId: string) => ({
+    playerId: id,
+    alias,
+    colorId,
+    alive: true,
+    connected: true,
+    score: 0,
+    missedSubmissions: 0,
+  });
+  return {
+    code: "SEED",
+    state: "IN_PROGRESS",
+    roundNumber: 0,
+    hostPlayerId: "h1",
+    players: [
+      human("h1", "Alice", "red"),
+      human("h2", "Bob", "blue"),
+      human("h3", "Cara", "green"),
+      {
+        ...human("ai1", "AI-1", "yellow"),
+        connected: false,
+        isAI: true,
+        aiData: {
+          teamId: "impostors",
+          provider: { kind: "scripted", script: { submissions: ["honestly no idea lol"], votes: ["Bob"] } },
+        },
+      },
+    ],
+    rounds: [],
+    settings: createDefaultSettings(),
+    rngSeed: seed,
+  };
+}
+
+function submit(game: Game, round: Round, playerId: string, content: string) {
+  const submission = { submissionId: randomUUID(), playerId, content, roundNumber: round.roundNumber, submittedAt: Date.now() };
+  round.submissions.push(submission);
+  onSubmissionUpdated(game, round, submission);
+}
+
+function submissionOf(round: Round, playerId: string): string {
+  return round.submissions.find((s) => s.playerId === playerId)!.submissionId;
+}
+
+test("the same seed produces the same target, prompt and random stream", () => {
+  const a = makeGame(1234);
+  const b = makeGame(1234);
+  const ra = startRoundForGame(a)!;
+  const rb = startRoundForGame(b)!;
+
+  expect(rb.targetAlias).toBe(ra.targetAlias);
+  expect(rb.roundPrompt).toBe(ra.roundPrompt);
+  expect(b.rngState).toBe(a.rngState);
+  expect(shuffleWith(createRng(7), [1, 2, 3, 4, 5])).toEqual(shuffleWith(createRng(7), [1, 2, 3, 4, 5]));
+});
+
+test("a scripted AI plays out an exact, assertable round", async () => {
+  const game = makeGame(42);
+  const round = startRoundForGame(game)!;
+
+  submit(game, round, "h1", "she hates mondays");
+  submit(game, round, "h2", "pineapple pizza probably");
+  submit(game, round, "h3", "being late to everything");
+
+  // Once every human is in, the AI takes a few seconds to "type" its line
+  await jest.advanceTimersByTimeAsync(15_000);
+  expect(round.submissions.find((s) => s.playerId === "ai1")?.content).toBe("honestly no idea lol");
+  expect(game.state).toBe("ROUND_VOTING");
+
+  round.votes.push({ voterId: "h1", submissionId: submissionOf(round, "ai1") });
+  round.votes.push({ voterId: "h2", submissionId: submissionOf(round, "ai1") });
+  round.votes.push({ voterId: "h3", submissionId: submissionOf(round, "h1") });
+  onVotesUpdated(game, round);
+
+  // Fast-tracked AI vote follows the script
+  await jest.advanceTimersByTimeAsync(300);
+  expect(round.votes.find((v) => v.voterId === "ai1")?.submissionId).toBe(submissionOf(round, "h2"));
+  expect(round.eliminatedPlayerIds).toEqual(["ai1"]);
+
+  await jest.advanceTimersByTimeAsync(game.settings!.resultsDelayMs);
+  expect(game.state).toBe("GAME_OVER");
+  expect(game.winner).toBe("HUMANS");
+
+  // The event log replays the match, now revealing the AI
+  const [replay] = buildReplays(game);
+  expect(replay?.winner).toBe("HUMANS");
+  expect(replay?.players.find((p) => p.isAI)?.playerId).toBe("ai1");
+  const replayRound = replay?.rounds[0];
+  expect(replayRound?.prompt).toBe(round.roundPrompt);
+  expect(replayRound?.submissions.find((s) => s.playerId === "ai1")?.voterIds.sort()).toEqual(["h1", "h2"]);
+  expect(replayRound?.eliminations).toEqual([{ playerId: "ai1", reason: "VOTED_OUT" }]);
+  expect(replayRound?.scores).toEqual(Object.fromEntries(game.players.map((p) => [p.playerId, p.score])));
+
+  // ...and yields one training record for the AI's submission
+  const [record] = buildTrainingRecords(game);
+  expect(record).toMatchObject({
+    aiPlayerId: "ai1",
+    provider: "scripted",
+    completion: "honestly no idea lol",
+    humanVoters: 3,
+    humanVotesReceived: 2,
+    eliminated: true,
+    reward: computeReward({ eliminated: true, humanVotesReceived: 2, humanVoters: 3 }),
+  });
+  expect(record?.humanSubmissions).toHaveLength(3);
+  expect(JSON.parse(record!.prompt!).targetAlias).toBe(round.targetAlias);
+});
@@ -0,0 +1,33 @@
+import { afterEach, expect, jest, test } from "@jest/globals";
+import { issueSessionToken, SESSION_TOKEN_MAX_AGE_MS, verifySessionToken } from "../socket/sessionToken";
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+test("a freshly issued token verifies to the same session", () => {
+  const token = issueSessionToken({ code: "ABCD", playerId: "p1" });
+
+  expect(verifySessionToken(token)).toEqual({ code: "ABCD", playerId: "p1" });
+});
+
+test("tampered or malformed tokens are rejected", () => {
+  const token = issueSessionToken({ code: "ABCD", playerId: "p1" });
+  const [version, , mac] = token.split(".");
+  const forgedBody = Buffer.from(JSON.stringify({ c: "ABCD", p: "p2", iat: Date.now() })).toString("base64url");
+
+  expect(verifySessionToken(`${version}.${forgedBody}.${mac}`)).toBeNull();
+  expect(verifySessionToken(`${token}x`)).toBeNull();
+  expect(verifySessionToken("not-a-token")).toBeNull();
+  expect(verifySessionToken(undefined)).toBeNull();
+});
+
+test("tokens stop verifying once they are older than the max age", () => {
+  jest.useFakeTimers();
+  const token = issueSessionToken({ code: "ABCD", playerId: "p1" });
+
+  jest.setSystemTime(Date.now() + SESSION_TOKEN_MAX_AGE_MS);
+  expect(verifySessionToken(token)).toEqual({ code: "ABCD", playerId: "p1" });
+  jest.setSystemTime(Date.now() + 1);
+  expect(verifySessionToken(token)).toBeNull();
+});
@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, expect, test } from "@jest/globals";
+import { DEFAULT_SIMULATION_OPTIONS, runSimulation, summarize } from "../sim/simulate";
+
+const savedToxicityUrl = process.env.TOXICITY_URL;
+
+beforeEach(() => {
+  process.env.TOXICITY_URL = "off";
+});
+
+afterEach(() => {
+  if (savedToxicityUrl === undefined) delete process.env.TOXICITY_URL;
+  else process.env.TOXICITY_URL = savedToxicityUrl;
+});
+
+const options = { ...DEFAULT_SIMULATION_OPTIONS, games: 5, seed: 99 };
+
+test("simulated games finish and are reproducible from the seed", async () => {
+  const first = await runSimulation(options);
+  const second = await runSimulation(options);
+
+  expect(first.results).toHaveLength(5);
+  expect(first.results.every((r) => r.winner !== "NONE")).toBe(true);
+  expect(second.results).toEqual(first.results);
+  expect(first.summary.aiWinRate + first.summary.humanWinRate).toBeCloseTo(1);
+  expect(first.summary.detectionByRound[0]?.gamesReached).toBe(5);
+});
+
+test("summarize reports per-round detection rates", () => {
+  const base = { aiCount: 1, humansEliminated: 0, humanScores: [10], aiScores: [5] };
+  const summary = summarize([
+    { ...base, seed: 1, winner: "HUMANS", rounds: 1, aiSurvivors: 0, aiEliminatedInRounds: [1] },
+    { ...base, seed: 2, winner: "HUMANS", rounds: 2, aiSurvivors: 0, aiEliminatedInRounds: [2] },
+    { ...base, seed: 3, winner: "AIS", rounds: 2, aiSurvivors: 1, aiEliminatedInRounds: [] },
+  ]);
+
+  expect(summary.detectionByRound).toEqual([
+    { round: 1, gamesReached: 3, detections: 1, rate: 1 / 3 },
+    { round: 2, gamesReached: 2, detections: 1, rate: 0.5 },
+  ]);
+  expect(summary.aiSurvivalRate).toBeCloseTo(1 / 3);
+});
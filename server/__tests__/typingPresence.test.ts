@@ -0,0 +1,66 @@
+import { afterEach, expect, test } from "@jest/globals";
+import type { Game } from "../game/gameTypes";
+import { createVirtualScheduler, disposeScheduler, setGameScheduler } from "../game/scheduler";
+import type { TypingUpdate } from "../game/typingPresence";
+import { TYPING_THROTTLE_MS, TYPING_TTL_MS, clearTyping, setTypingBroadcastCallback, setTyping } from "../game/typingPresence";
+
+afterEach(() => {
+  setTypingBroadcastCallback(null);
+  clearTyping(makeGame());
+  disposeScheduler("TYPE");
+});
+
+function makeGame(): Game {
+  const player = (id: string, colorId: string) => ({ playerId: id, alias: id, colorId, alive: true, connected: true, score: 0, missedSubmissions: 0 });
+  return {
+    code: "TYPE",
+    state: "ROUND_SUBMITTING",
+    roundNumber: 1,
+    hostPlayerId: "h1",
+    players: [player("h1", "red"), player("h2", "blue"), { ...player("ai", "green"), isAI: true }],
+    rounds: [
+      { roundNumber: 1, roundType: "TEXT", targetAlias: "h1", status: "SUBMITTING", submissions: [], votes: [], participantIds: ["h1", "h2", "ai"] },
+    ],
+  };
+}
+
+test("typing is broadcast by color, throttled, and expires", () => {
+  const scheduler = createVirtualScheduler(0);
+  setGameScheduler("TYPE", scheduler);
+  const sent: TypingUpdate[] = [];
+  setTypingBroadcastCallback((_game, update) => sent.push(update));
+  const game = makeGame();
+
+  setTyping(game, "h1", true);
+  setTyping(game, "ai", true);
+  expect(sent).toEqual([{ roundNumber: 1, colors: ["red"] }]);
+
+  // The second change waits out the throttle window
+  scheduler.advanceBy(TYPING_THROTTLE_MS);
+  expect(sent[1]).toEqual({ roundNumber: 1, colors: ["green", "red"] });
+
+  // Nobody refreshed: both expire
+  scheduler.advanceBy(TYPING_TTL_MS);
+  expect(sent[sent.length - 1]).toEqual({ roundNumber: 1, colors: [] });
+
+  // Not in the round, or already submitted: ignored
+  expect(setTyping(game, "stranger", true)).toBe(false);
+  game.rounds[0]!.submissions.push({ submissionId: "s", playerId: "h2", content: "x", roundNumber: 1 });
+  expect(setTyping(game, "h2", true)).toBe(false);
+});
+
+test("the end of the submit phase clears everyone", () => {
+  const scheduler = createVirtualScheduler(0);
+  setGameScheduler("TYPE", scheduler);
+  const sent: TypingUpdate[] = [];
+  setTypingBroadcastCallback((_game, update) => sent.push(update));
+  const game = makeGame();
+
+  setTyping(game, "h2", true);
+  clearTyping(game);
+  expect(sent).toEqual([
+    { roundNumber: 1, colors: ["blue"] },
+    { roundNumber: 1, colors: [] },
+  ]);
+  expect(scheduler.pendingCount()).toBe(0);
+});
@@ -0,0 +1,70 @@
+// server/game/aiChat.ts
+import type { AIChatMemory, AIMemory, ChatMessage } from "./gameTypes";
+
+/**
+ * What an AI means to say in a discussion. Every line has an intent: defend
+ * itself when a player points at its color, push suspicion onto the human the
+ * team is going to vote for, comment on last round's eliminations, or just chat.
+ * What it said is kept in the AI's memory so later rounds don't contradict it.
+ */
+
+export type ChatIntent = "DEFEND" | "SUSPECT" | "REACT" | "SMALL_TALK";
+
+// Passed to the model along with the intent
+export const INTENT_BRIEFS: Record<ChatIntent, string> = {
+  DEFEND:
+    "accuserColors just pointed at your color. Defend your line like a mildly annoyed human; if it helps, redirect attention to suspectColor.",
+  SUSPECT:
+    "Cast some doubt on suspectColor: point at something in their line that feels off, casually and without overdoing it.",
+  REACT: "Comment on the elimination in eliminations, the way a player who just saw the results would.",
+  SMALL_TALK: "Say something casual about the round without accusing anyone in particular.",
+};
+
+// Words that turn a mention of a color into an accusation
+const SUSPICION_WORDS =
+  /\b(sus|suss|suspicious|sketchy|bot|robot|ai|impostor|imposter|fake|weird|off|lying|liar|copied|copying|generic|vote|voting)\b/i;
+
+// Everyone echoing the same suspicion is a tell, so teammates only sometimes pile on
+export const PILE_ON_CHANCE = 0.3;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function mentionsColor(text: string, colorId: string): boolean {
+  return new RegExp(`\\b${escapeRegExp(colorId)}\\b`, "i").test(text);
+}
+
+export function isAccusation(text: string, colorId: string): boolean {
+  return mentionsColor(text, colorId) && SUSPICION_WORDS.test(text);
+}
+
+// Lines by other players accusing `colorId` after `since`
+export function accusationsSince(chat: readonly ChatMessage[], playerId: string, colorId: string, since: number): ChatMessage[] {
+  return chat.filter((m) => m.at > since && m.playerId !== playerId && isAccusation(m.text, colorId));
+}
+
+export function ensureChatMemory(mem: AIMemory): AIChatMemory {
+  mem.chat ??= { suspected: [], accusedBy: [], pendingReactions: [] };
+  return mem.chat;
+}
+
+/**
+ * Pick the line's intent. Being accused always gets an answer; the first line
+ * of a round comments on fresh eliminations; otherwise the AI voices the team's
+ * suspicion once per round, unless a teammate already did (then only sometimes).
+ */
+export function chooseChatIntent(s: {
+  accused: boolean;
+  firstLineThisRound: boolean;
+  pendingReaction: boolean;
+  hasSuspect: boolean;
+  suspectedThisRound: boolean;
+  teammateSuspectedThisRound: boolean;
+  roll: number;
+}): ChatIntent {
+  if (s.accused) return "DEFEND";
+  if (s.firstLineThisRound && s.pendingReaction) return "REACT";
+  if (s.hasSuspect && !s.suspectedThisRound && (!s.teammateSuspectedThisRound || s.roll < PILE_ON_CHANCE)) return "SUSPECT";
+  return "SMALL_TALK";
+}
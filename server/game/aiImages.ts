@@ -0,0 +1,191 @@
+// server/game/aiImages.ts
+import fs from "fs";
+import path from "path";
+import { deflateSync } from "zlib";
+import type { Round } from "./gameTypes";
+import type { Rng } from "./rng";
+import { ALLOWED_IMAGE_MIME_TYPES, storeImage } from "./imageStore";
+import logger from "../config/loggerWinston";
+
+/**
+ * Image submissions for AI players. AIs pick from a local stock library whose
+ * file names double as tags ("dog-beach-sunset.jpg"), preferring images that
+ * match words in the round prompt. Chosen files go through the same image store
+ * as human uploads, so the resulting URLs are indistinguishable. No library is
+ * bundled, and without one IMAGE rounds are switched off (see hasStockImages).
+ */
+
+const STOCK_EXTENSIONS = new Map([
+  [".png", "image/png"],
+  [".jpg", "image/jpeg"],
+  [".jpeg", "image/jpeg"],
+  [".gif", "image/gif"],
+  [".webp", "image/webp"],
+]);
+
+export interface StockImage {
+  file: string;
+  tags: string[];
+}
+
+let stockLibrary: StockImage[] | null = null;
+let warnedEmpty = false;
+
+function stockDir(): string {
+  return process.env.AI_STOCK_IMAGE_DIR?.trim() || path.resolve("assets", "stock-images");
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length >= 3);
+}
+
+export function loadStockLibrary(dir = stockDir()): StockImage[] {
+  const out: StockImage[] = [];
+  if (fs.existsSync(dir)) {
+    for (const name of fs.readdirSync(dir).sort()) {
+      const ext = path.extname(name).toLowerCase();
+      const mime = STOCK_EXTENSIONS.get(ext);
+      if (!mime || !ALLOWED_IMAGE_MIME_TYPES.includes(mime)) continue;
+      out.push({ file: path.join(dir, name), tags: words(path.basename(name, ext)) });
+    }
+  }
+  stockLibrary = out;
+  warnedEmpty = false;
+  return out;
+}
+
+function getStockLibrary(): StockImage[] {
+  return stockLibrary ?? loadStockLibrary();
+}
+
+// Every AI in an IMAGE round submits a different stock image, so the library needs one per AI
+export function hasStockImages(aiCount = 1): boolean {
+  return getStockLibrary().length >= Math.max(1, aiCount);
+}
+
+/**
+ * Rank stock images by how many of their tags appear in the prompt; ties (and
+ * prompts matching nothing) are broken randomly. Images in `exclude` are skipped
+ * while anything else is left.
+ */
+export function chooseStockImage(
+  library: StockImage[],
+  prompt: string,
+  exclude: Set<string>,
+  random: () => number = Math.random
+): StockImage | null {
+  const fresh = library.filter((img) => !exclude.has(img.file));
+  const pool = fresh.length > 0 ? fresh : library;
+  if (pool.length === 0) return null;
+
+  const promptWords = new Set(words(prompt));
+  let best: StockImage[] = [];
+  let bestScore = -1;
+  for (const img of pool) {
+    const score = img.tags.filter((t) => promptWords.has(t)).length;
+    if (score > bestScore) {
+      best = [img];
+      bestScore = score;
+    } else if (score === bestScore) {
+      best.push(img);
+    }
+  }
+  return best[Math.floor(random() * best.length)] ?? null;
+}
+
+// ---- Generated images ----
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (const byte of buf) c = CRC_TABLE[(c ^ byte) & 0xff]! ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const len = Buffer.alloc(4);
+  len.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([len, body, crc]);
+}
+
+/**
+ * A small abstract "doodle" (gradient plus a few blobs) as a PNG, for dev and
+ * test fixtures. Never submitted for an AI: it looks nothing like the photos
+ * players upload.
+ */
+export function generateDoodlePng(random: () => number = Math.random, size = 160): Buffer {
+  const rgb = () => [0, 0, 0].map(() => Math.floor(random() * 256)) as [number, number, number];
+  const [top, bottom] = [rgb(), rgb()];
+  const blobs = Array.from({ length: 3 + Math.floor(random() * 4) }, () => ({
+    x: random() * size,
+    y: random() * size,
+    r: size * (0.08 + random() * 0.2),
+    color: rgb(),
+  }));
+
+  const raw = Buffer.alloc((size * 3 + 1) * size);
+  for (let y = 0; y < size; y++) {
+    const row = y * (size * 3 + 1);
+    raw[row] = 0; // filter: none
+    const t = y / (size - 1);
+    for (let x = 0; x < size; x++) {
+      let px = top.map((c, i) => Math.round(c + (bottom[i]! - c) * t));
+      for (const b of blobs) {
+        if ((x - b.x) ** 2 + (y - b.y) ** 2 <= b.r ** 2) px = b.color;
+      }
+      raw.set(px, row + 1 + x * 3);
+    }
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB, no interlace
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/**
+ * Pick (and store) an image for an AI's IMAGE-round submission. `used` holds
+ * image URLs the AI team already submitted this round, so teammates differ.
+ * Returns the stored image URL, or null if no unused stock image could be
+ * stored; the AI then sits the round out rather than submit something odd.
+ */
+export function buildAIImageSubmission(round: Round, used: Set<string>, random: Rng = Math.random): string | null {
+  const library = getStockLibrary();
+  const prompt = `${round.roundPrompt ?? ""} ${round.targetAlias}`;
+
+  if (library.length === 0 && !warnedEmpty) {
+    warnedEmpty = true;
+    logger.warn(`AI stock image library at ${stockDir()} is empty; IMAGE rounds should not have started`);
+  }
+
+  // Teammates' picks and unreadable files are skipped until the library runs out
+  const tried = new Set<string>();
+  while (tried.size < library.length) {
+    const pick = chooseStockImage(library, prompt, tried, random);
+    if (!pick || tried.has(pick.file)) break;
+    tried.add(pick.file);
+    try {
+      const mime = STOCK_EXTENSIONS.get(path.extname(pick.file).toLowerCase());
+      const stored = storeImage(fs.readFileSync(pick.file), mime);
+      if (stored.ok && !used.has(stored.url)) return stored.url;
+      if (!stored.ok) logger.warn(`Stock image ${pick.file} rejected: ${stored.error}`);
+    } catch (err) {
+      logger.warn(`Could not read stock image ${pick.file}: ${String(err)}`);
+    }
+  }
+  return null;
+}
@@ -0,0 +1,44 @@
+// server/game/aiNames.ts
+import type { Game } from "./gameTypes";
+import { gameRng } from "./rng";
+
+/**
+ * Aliases for AIs the server names itself. Players see aliases, so these have
+ * to pass for something a person would type into the join box: no "AI-",
+ * "bot" or numbering scheme, and a mix of casing like real players use.
+ */
+const NAME_POOL = [
+  "sam",
+  "Jordan",
+  "mike",
+  "Priya",
+  "alex_r",
+  "Nina",
+  "tomtom",
+  "Leo",
+  "kat",
+  "Dave",
+  "jess",
+  "Marco",
+  "emily",
+  "Chris",
+  "rosie",
+  "Ben",
+  "lucas",
+  "Hana",
+  "olly",
+  "Maya",
+];
+
+export function pickAIAlias(game: Game): string {
+  const taken = new Set(game.players.map((p) => p.alias.toLowerCase()));
+  const rng = gameRng(game);
+  const available = NAME_POOL.filter((n) => !taken.has(n.toLowerCase()));
+  if (available.length > 0) return available[Math.floor(rng() * available.length)]!;
+
+  // Pool exhausted: the way people dodge a taken name
+  const base = NAME_POOL[Math.floor(rng() * NAME_POOL.length)]!;
+  for (let n = 2; ; n++) {
+    if (!taken.has(`${base}${n}`.toLowerCase())) return `${base}${n}`;
+  }
+}
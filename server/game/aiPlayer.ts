@@ -1,5 +1,8 @@
 // server/game/aiPlayer.ts
 import type {
+  AIRole,
+  AIRoundPlan,
+  ChatMessage,
   Game,
   Round,
   Player,
@@ -9,48 +12,54 @@ import type {
   AIRoundSummary,
 } from "./gameTypes";
 
-import OpenAI from "openai";
+import { randomUUID } from "crypto";
 import logger from "../config/loggerWinston";
-import type { ToxicityAssessment } from "./gameTypes";
+import type { StyleProfile } from "./aiText";
+import { buildAIImageSubmission } from "./aiImages";
+import { isStoredImageUrl } from "./imageStore";
+import { cleanSingleLine, median, styleProfile, truncateToLimit } from "./aiText";
+import { resolveAIProvider } from "./aiProviders";
+import { derivedRng, gameRng } from "./rng";
+import { schedulerFor } from "./scheduler";
+import { recordEvent } from "./gameEvents";
+import { armFor, armLabel, renderInstructions } from "./experiments";
+import { ROLE_STYLES, recordRoleOutcomes, roleFor, roleTargetChars } from "./aiRoles";
+import type { ChatIntent } from "./aiChat";
+import { INTENT_BRIEFS, accusationsSince, chooseChatIntent, ensureChatMemory, isAccusation } from "./aiChat";
+import { chooseOfflineVote, writeOfflineChatLine, writeOfflineLine } from "./offlineAI";
+import { DEFAULT_MS_PER_CHAR, catchUpDelay, expectedChars, observedHumanTimings, sampleSubmitDelay } from "./aiTiming";
+import { setTyping } from "./typingPresence";
+import { assessText } from "./toxicity";
 
 type TeamMemory = NonNullable<Game["aiTeamMemory"]>[string];
-
-const TOXICITY_URL = process.env.TOXICITY_URL?.trim() || "http://toxicity:8080";
-
-const openaiClientCache = new Map<string, OpenAI>();
-
-function normalizeOptString(s: string | undefined): string | undefined {
-  const t = s?.trim();
-  return t && t.length > 0 ? t : undefined;
-}
-
-function pickRandom<T>(arr: readonly T[]): T {
-  if (arr.length === 0) throw new Error("pickRandom called with empty array");
-  const idx = Math.floor(Math.random() * arr.length);
-  return (arr[idx] ?? arr[0]) as T;
+type ChatFn = (game: Game, round: Round, playerId: string, text: string) => Promise<void>;
+
+// Discussion limits per AI: a few lines, spaced out like someone reading and typing.
+// One more is kept back for answering an accusation.
+const AI_CHAT_MAX_MESSAGES = 3;
+const AI_CHAT_MIN_GAP_MS = 8000;
+// Chance an AI opens the discussion, and that it answers a given human line
+const AI_CHAT_OPEN_CHANCE = 0.5;
+const AI_CHAT_REPLY_CHANCE = 0.4;
+// Entries kept per list in an AI's chat memory
+const AI_CHAT_MEMORY_LIMIT = 20;
+
+// What an AI is about to say in the discussion, and about whom (colors)
+interface ChatLinePlan {
+  intent: ChatIntent;
+  suspect?: string;
+  accusers: string[];
+  reaction?: NonNullable<AIMemory["chat"]>["pendingReactions"][number];
+  // The accuser (DEFEND) or suspect (SUSPECT) already came up in an earlier round
+  repeat: boolean;
 }
 
 function makeEmptyMemory(): AIMemory {
   return { kickedPlayers: [], roundsSummary: [], notes: [] };
 }
 
-function getOpenAIClient(apiKey?: string): OpenAI | null {
-  const key =
-    normalizeOptString(apiKey) ??
-    normalizeOptString(process.env.OPENAI_API_KEY);
-
-  if (!key) return null;
-
-  let client = openaiClientCache.get(key);
-  if (!client) {
-    client = new OpenAI({ apiKey: key });
-    openaiClientCache.set(key, client);
-  }
-  return client;
-}
-
-function makeSubmissionId(gameCode: string, playerId: string, roundNumber: number) {
-  return `ai-${gameCode}-${playerId}-${roundNumber}-${Date.now()}`;
+function makeSubmissionId() {
+  return randomUUID();
 }
 
 function ensureMem(p: Player): AIMemory {
@@ -99,6 +108,14 @@ function addOrReplaceVote(sum: AIRoundSummary, vote: Vote) {
   else sum.votes.push(vote);
 }
 
+// Enough to write from: at least one human line is in
+function hasSubmissionContext(game: Game, round: Round): boolean {
+  return round.submissions.some((s) => {
+    const pl = game.players.find((p) => p.playerId === s.playerId);
+    return !!pl && !pl.isAI;
+  });
+}
+
 function allHumanParticipantsSubmitted(game: Game, round: Round): boolean {
   const humanParticipantIds = (round.participantIds ?? []).filter((pid) => {
     const pl = game.players.find((p) => p.playerId === pid);
@@ -117,11 +134,10 @@ async function getHumanSubmissionsSanitized(
   for (const s of round.submissions) {
     const pl = game.players.find((p) => p.playerId === s.playerId);
     if (!pl || pl.isAI) continue;
-    const { text: content, sanitized } = await sanitizeContentForAI(game, aiPlayer, s.content);
+    const { text: content, sanitized, summary } = await sanitizeContentForAI(game, aiPlayer, s.content);
     if (sanitized) {
-      const assessment = getAssessmentFromCaches(game, aiPlayer, s.content);
       logger.debug(
-        `Sanitized (generation prompt) for AI ${aiPlayer.alias} round ${round.roundNumber} from ${pl.playerId} :: ${assessment?.summary ?? "toxic"}`
+        `Sanitized (generation prompt) for AI ${aiPlayer.alias} round ${round.roundNumber} from ${pl.playerId} :: ${summary ?? "toxic"}`
       );
     }
     out.push({ alias: pl.alias ?? "unknown", color: pl.colorId ?? "", content, sanitized });
@@ -129,66 +145,6 @@ async function getHumanSubmissionsSanitized(
   return out;
 }
 
-function median(nums: number[]): number {
-  if (nums.length === 0) return 0;
-  const sorted = [...nums].sort((a, b) => a - b);
-  const mid = Math.floor(sorted.length / 2);
-  if (sorted.length % 2 === 0) return Math.floor(((sorted[mid - 1] ?? 0) + (sorted[mid] ?? 0)) / 2);
-  return sorted[mid] ?? 0;
-}
-
-function styleProfile(contents: string[], targetAlias: string) {
-  const cleaned = contents.map((s) => (s ?? "").toString());
-  const lengths = cleaned.map((s) => s.length);
-  const med = median(lengths);
-  const minLen = lengths.length ? Math.min(...lengths) : 0;
-  const maxLen = lengths.length ? Math.max(...lengths) : 0;
-
-  const punctRe = /[.?!,;:"'()[\]{}]/;
-  const emojiRe = /[\u{1F300}-\u{1FAFF}]/u;
-
-  let noPunct = 0;
-  let allLower = 0;
-  let hasEmoji = 0;
-  let mentionsTarget = 0;
-
-  const target = (targetAlias ?? "").trim().toLowerCase();
-
-  for (const s of cleaned) {
-    if (!punctRe.test(s)) noPunct += 1;
-    if (s === s.toLowerCase()) allLower += 1;
-    if (emojiRe.test(s)) hasEmoji += 1;
-    if (target && s.toLowerCase().includes(target)) mentionsTarget += 1;
-  }
-
-  const n = cleaned.length || 1;
-
-  return {
-    count: cleaned.length,
-    medianLength: med,
-    minLength: minLen,
-    maxLength: maxLen,
-    noPunctuationRate: noPunct / n,
-    allLowercaseRate: allLower / n,
-    emojiRate: hasEmoji / n,
-    mentionsTargetRate: mentionsTarget / n,
-    examples: cleaned.slice(0, 8),
-  };
-}
-
-function cleanSingleLine(s: string): string {
-  return s.replace(/[\r\n]+/g, " ").replace(/\s+/g, " ").trim();
-}
-
-function truncateToLimit(s: string, limit: number): string {
-  const t = cleanSingleLine(s);
-  if (t.length <= limit) return t;
-  const cut = t.slice(0, limit);
-  const lastSpace = cut.lastIndexOf(" ");
-  if (lastSpace >= Math.floor(limit * 0.6)) return cut.slice(0, lastSpace).trim();
-  return cut.trim();
-}
-
 function formatList(items: string[], bullet = "• "): string {
   return items.map((i) => `${bullet}${i}`).join("\n");
 }
@@ -202,6 +158,7 @@ function logAISubmissionDecision(params: {
   visibleHumans: Array<{ alias: string; color: string; content: string; sanitized: boolean }>;
   teamNotesRecent: string[];
   usedSamplesCount: number;
+  role?: AIRole | undefined;
   output: string;
   usedModel: boolean;
 }) {
@@ -214,6 +171,7 @@ function logAISubmissionDecision(params: {
     visibleHumans,
     teamNotesRecent,
     usedSamplesCount,
+    role,
     output,
     usedModel,
   } = params;
@@ -244,6 +202,7 @@ function logAISubmissionDecision(params: {
   if (notesLines.length) lines.push(formatList(notesLines, "  • "));
   lines.push(`- Used samples this round: ${usedSamplesCount}`);
   lines.push(`Decision:`);
+  if (role) lines.push(`- Role: ${role}`);
   lines.push(`- Output: "${truncateToLimit(output, 120)}"`);
   lines.push(`- Method: ${usedModel ? "model-guided" : "copy/fit-from-group"}`);
 
@@ -298,92 +257,90 @@ function logAIVoteDecision(params: {
   logger.info(lines.join("\n"));
 }
 
-// Robustly extract and parse a JSON object from possibly messy model output
-function extractFirstJsonObject(text: string): string | null {
-  if (!text) return null;
-  // Prefer fenced code blocks if present
-  const fence = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
-  if (fence && fence[1]) return fence[1].trim();
-
-  // If the whole text looks like JSON, try it as-is
-  const trimmed = text.trim();
-  if (trimmed.startsWith("{") && trimmed.endsWith("}")) return trimmed;
-
-  // Scan for the first balanced {...} region, ignoring braces inside strings
-  let depth = 0;
-  let inString = false;
-  let escape = false;
-  let start = -1;
-  for (let i = 0; i < trimmed.length; i++) {
-    const ch = trimmed[i] ?? "";
-    if (inString) {
-      if (escape) {
-        escape = false;
-      } else if (ch === "\\") {
-        escape = true;
-      } else if (ch === '"') {
-        inString = false;
-      }
-      continue;
-    }
-    if (ch === '"') {
-      inString = true;
-      continue;
-    }
-    if (ch === "{") {
-      if (depth === 0) start = i;
-      depth++;
-    } else if (ch === "}") {
-      depth--;
-      if (depth === 0 && start >= 0) {
-        return trimmed.slice(start, i + 1).trim();
-      }
-    }
+function getRoundPlan(game: Game, teamMem: TeamMemory, roundNumber: number): AIRoundPlan {
+  const key = String(roundNumber);
+  const plans = (teamMem.roundPlans = teamMem.roundPlans ?? {});
+  const match = game.match ?? 0;
+  // A plan left over from the same round number of an earlier match starts fresh
+  const existing = plans[key];
+  if (!existing || (existing.match ?? 0) !== match) {
+    plans[key] = { match, roles: {}, usedSamples: [] };
   }
-  return null;
+  const plan = plans[key]!;
+  plan.roles = plan.roles ?? {};
+  plan.usedSamples = plan.usedSamples ?? [];
+  return plan;
 }
 
-function parseJSONFromText<T = unknown>(text: string): T | null {
-  if (!text) return null;
-  try {
-    return JSON.parse(text) as T;
-  } catch (_) {
-    // ignore and try extraction
-  }
-  const candidate = extractFirstJsonObject(text);
-  if (!candidate) return null;
-  try {
-    return JSON.parse(candidate) as T;
-  } catch (_) {
-    return null;
-  }
+// In-flight AI work (model calls, toxicity checks). Headless runs wait on this
+// before advancing their virtual clock.
+const pendingAIWork = new Set<Promise<unknown>>();
+
+export function trackAIWork(task: Promise<unknown>): void {
+  const tracked = task
+    .catch((err) => logger.error("AI task failed", err))
+    .finally(() => pendingAIWork.delete(tracked));
+  pendingAIWork.add(tracked);
 }
 
-function getRoundPlan(teamMem: TeamMemory, roundNumber: number): { usedSamples: string[]; fallbackVoteSubmissionId?: string } {
-  const key = String(roundNumber);
-  const plans: any = (teamMem as any).roundPlans ?? ((teamMem as any).roundPlans = {});
-  plans[key] = plans[key] ?? { usedSamples: [] };
-  plans[key].usedSamples = plans[key].usedSamples ?? [];
-  return plans[key] as { usedSamples: string[]; fallbackVoteSubmissionId?: string };
+export async function waitForPendingAIWork(): Promise<void> {
+  while (pendingAIWork.size > 0) await Promise.allSettled(Array.from(pendingAIWork));
 }
 
-export function scheduleAIForRound(
+/**
+ * Arm an AI's submission `delayMs` from now, preceded by "typing…" bursts about
+ * as long as typing `chars` characters takes, with the occasional pause. Bursts
+ * draw from their own stream so presence never shifts the game's decisions.
+ */
+function scheduleAISubmit(
   game: Game,
   round: Round,
+  aiPlayer: Player,
+  delayMs: number,
+  chars: number,
   submitFn?: (game: Game, round: Round, submission: Submission) => void
 ) {
-  if (!allHumanParticipantsSubmitted(game, round)) return;
+  const scheduler = schedulerFor(game);
+  const submitAt = scheduler.now() + delayMs;
+  scheduler.schedule(() => trackAIWork(handleAISubmit(game, round, aiPlayer, submitFn)), delayMs, `ai-submit:${aiPlayer.playerId}`);
+
+  const rng = derivedRng(game, `typing:${game.match ?? 0}:${round.roundNumber}:${aiPlayer.playerId}:${submitAt}`);
+  const typingMs = Math.round(chars * DEFAULT_MS_PER_CHAR * (0.8 + rng() * 0.4));
+  const burst = () => {
+    if (round.status !== "SUBMITTING" || scheduler.now() >= submitAt) return;
+    if (round.submissions.some((s) => s.playerId === aiPlayer.playerId)) return;
+    const pause = rng() < 0.2;
+    setTyping(game, aiPlayer.playerId, !pause);
+    scheduler.schedule(burst, Math.floor((pause ? 1000 : 1500) + rng() * 1500), `ai-typing:${aiPlayer.playerId}`);
+  };
+  scheduler.schedule(burst, Math.max(0, delayMs - typingMs), `ai-typing:${aiPlayer.playerId}`);
+}
 
-  const now = Date.now();
-  const expiresAt = round.expiresAt ?? now + 30_000;
-  const remaining = Math.max(2000, expiresAt - now);
+/**
+ * Plan when each AI submits, sampled from the humans' timing so far. An AI whose
+ * time comes before any human line is in waits for one (see notifyAIsOfSubmission).
+ * Plans are kept, so calling this again (e.g. on resume) re-arms the same times.
+ */
+export function scheduleAIForRound(
+  game: Game,
+  round: Round,
+  submitFn?: (game: Game, round: Round, submission: Submission) => void
+) {
+  const scheduler = schedulerFor(game);
+  const now = scheduler.now();
+  const startedAt = round.startedAt ?? now;
+  const windowMs = Math.max(2000, (round.expiresAt ?? now + 30_000) - startedAt);
+  const samples = observedHumanTimings(game);
+  const chars = expectedChars(samples);
 
   for (const p of game.players) {
     if (!p.isAI || !p.alive) continue;
     if (round.submissions.find((s) => s.playerId === p.playerId)) continue;
 
-    const delay = Math.max(500, Math.floor(remaining * (0.15 + Math.random() * 0.25)));
-    setTimeout(() => void handleAISubmit(game, round, p, submitFn), delay);
+    const plan = getRoundPlan(game, ensureTeamMem(game, p.aiData?.teamId ?? "impostors"), round.roundNumber);
+    plan.submitAt = plan.submitAt ?? {};
+    const submitAt = (plan.submitAt[p.playerId] ??= startedAt + sampleSubmitDelay(samples, windowMs, chars, gameRng(game)));
+    scheduleAISubmit(game, round, p, Math.max(200, submitAt - now), chars, submitFn);
   }
 }
 
@@ -394,20 +351,23 @@ export async function notifyAIsOfSubmission(
   submitFn?: (game: Game, round: Round, submission: Submission) => void
 ) {
   if (submission) {
+    // AI lines are scored together when submissions close (moderateAISubmissions), not one by one here
+    const fromAI = game.players.some((p) => p.playerId === submission.playerId && p.isAI);
     for (const p of game.players) {
       if (!p.isAI || !p.alive) continue;
 
       const mem = ensureMem(p);
       const sum = upsertRoundSummary(mem, round);
-      const { text: sanitizedText, sanitized } = await sanitizeContentForAI(game, p, submission.content);
+      const { text: sanitizedText, sanitized, summary } = fromAI
+        ? { text: submission.content, sanitized: false, summary: undefined }
+        : await sanitizeContentForAI(game, p, submission.content);
       addOrReplaceSubmission(sum, { ...submission, content: sanitizedText }, sanitized);
       if (sanitized) {
         mem.notes.push(
           `Round ${round.roundNumber}: content from ${submission.playerId} was sanitized and replaced (original hidden)`
         );
-        const assessment = getAssessmentFromCaches(game, p, submission.content);
         logger.info(
-          `Sanitized swap applied for AI ${p.alias} round ${round.roundNumber} author ${submission.playerId} :: ${assessment?.summary ?? "toxic"}`
+          `Sanitized swap applied for AI ${p.alias} round ${round.roundNumber} author ${submission.playerId} :: ${summary ?? "toxic"}`
         );
       }
 
@@ -418,21 +378,36 @@ export async function notifyAIsOfSubmission(
         addOrReplaceSubmission(tsum, { ...submission, content: sanitizedText }, sanitized);
         if (sanitized) {
           tm.notes.push(`Round ${round.roundNumber}: a submission was sanitized for team visibility`);
-          const assessment = getAssessmentFromCaches(game, p, submission.content);
           logger.debug(
-            `Team memory sanitized (submission) for team ${teamId} round ${round.roundNumber} from ${submission.playerId} :: ${assessment?.summary ?? "toxic"}`
+            `Team memory sanitized (submission) for team ${teamId} round ${round.roundNumber} from ${submission.playerId} :: ${summary ?? "toxic"}`
           );
         }
       }
     }
   }
 
-  if (!allHumanParticipantsSubmitted(game, round)) return;
+  if (round.status !== "SUBMITTING" || !hasSubmissionContext(game, round)) return;
 
+  // AIs past their planned time were waiting for a line to work from; once every
+  // human is in, nobody should be kept waiting for long either
+  const scheduler = schedulerFor(game);
+  const now = scheduler.now();
+  const allIn = allHumanParticipantsSubmitted(game, round);
+  const latest = Math.max(200, (round.expiresAt ?? now + 30_000) - now - 500);
   for (const p of game.players) {
     if (!p.isAI || !p.alive) continue;
     if (round.submissions.find((s) => s.playerId === p.playerId)) continue;
-    setTimeout(() => void handleAISubmit(game, round, p, submitFn), 200 + Math.floor(Math.random() * 800));
+
+    const plan = getRoundPlan(game, ensureTeamMem(game, p.aiData?.teamId ?? "impostors"), round.roundNumber);
+    const submitAt = plan.submitAt?.[p.playerId];
+    if (submitAt != null && submitAt > now && !allIn) continue;
+
+    const chars = submission?.content.length ?? 30;
+    const catchUp = catchUpDelay(chars, gameRng(game));
+    const delay = Math.max(200, Math.min(latest, submitAt != null && submitAt > now ? Math.min(submitAt - now, catchUp) : catchUp));
+    // Re-planned, so later lines don't keep pushing it back
+    (plan.submitAt ??= {})[p.playerId] = now + delay;
+    scheduleAISubmit(game, round, p, delay, chars, submitFn);
   }
 }
 
@@ -441,7 +416,7 @@ export function scheduleAIVotesForRound(
   round: Round,
   voteFn?: (game: Game, round: Round, vote: Vote) => void
 ) {
-  const now = Date.now();
+  const now = schedulerFor(game).now();
   const expiresAt = round.expiresAt ?? now + 30_000;
   const remaining = Math.max(1500, expiresAt - now);
 
@@ -449,28 +424,18 @@ export function scheduleAIVotesForRound(
     if (!p.isAI || !p.alive) continue;
     if (round.votes.find((v) => v.voterId === p.playerId)) continue;
 
-    const delay = Math.max(500, Math.floor(remaining * (0.25 + Math.random() * 0.5)));
-    setTimeout(() => void handleAIVote(game, round, p, voteFn), delay);
+    const delay = Math.max(500, Math.floor(remaining * (0.25 + gameRng(game)() * 0.5)));
+    schedulerFor(game).schedule(() => trackAIWork(handleAIVote(game, round, p, voteFn)), delay);
   }
 
   // SAFETY: last-second coordinated fallback vote if any AIs haven't voted
   const teamId = (game.players.find((pl) => pl.isAI)?.aiData?.teamId) ?? "impostors";
   const tm = ensureTeamMem(game, teamId);
-  const plan = getRoundPlan(tm, round.roundNumber);
+  const plan = getRoundPlan(game, tm, round.roundNumber);
+  teamSuspect(game, round, plan);
 
-  // Precompute a fallback target (prefer human submissions; else any)
-  if (!plan.fallbackVoteSubmissionId) {
-    const humanSubs = round.submissions.filter((s) => {
-      const pl = game.players.find((p) => p.playerId === s.playerId);
-      return pl && !pl.isAI;
-    });
-    const pool = humanSubs.length > 0 ? humanSubs : round.submissions;
-    const pick = pool.length > 0 ? pickRandom(pool) : undefined;
-    if (pick) plan.fallbackVoteSubmissionId = pick.submissionId;
-  }
-
-  const safetyDelay = Math.max(0, (expiresAt - Date.now()) - 250);
-  setTimeout(() => {
+  const safetyDelay = Math.max(0, (expiresAt - now) - 250);
+  schedulerFor(game).schedule(() => {
     if (round.status !== "VOTING") return;
     const targetId = plan.fallbackVoteSubmissionId;
     if (!targetId) return;
@@ -499,6 +464,30 @@ export function scheduleAIVotesForRound(
   }, safetyDelay);
 }
 
+/**
+ * The team's fallback vote target, precomputed once per round (prefer human
+ * submissions; else any). A discussion sets it before voting opens, so what the
+ * AIs cast doubt on in chat is what they end up voting for.
+ */
+function teamSuspect(game: Game, round: Round, plan: AIRoundPlan): string | undefined {
+  if (!plan.fallbackVoteSubmissionId) {
+    const humanSubs = round.submissions.filter((s) => {
+      const pl = game.players.find((p) => p.playerId === s.playerId);
+      return pl && !pl.isAI;
+    });
+    const pool = humanSubs.length > 0 ? humanSubs : round.submissions;
+    if (pool.length > 0) {
+      plan.fallbackVoteSubmissionId = chooseOfflineVote(
+        pool,
+        round.submissions.map((s) => s.content),
+        round.votes,
+        gameRng(game)
+      );
+    }
+  }
+  return plan.fallbackVoteSubmissionId;
+}
+
 // Fast-track: when all humans have voted, accelerate remaining AI votes now
 export function fastTrackAIVotesForRound(
   game: Game,
@@ -509,8 +498,8 @@ export function fastTrackAIVotesForRound(
   for (const p of game.players) {
     if (!p.isAI || !p.alive) continue;
     if (round.votes.find((v) => v.voterId === p.playerId)) continue;
-    const jitter = 50 + Math.floor(Math.random() * 200);
-    setTimeout(() => void handleAIVote(game, round, p, voteFn), jitter);
+    const jitter = 50 + Math.floor(gameRng(game)() * 200);
+    schedulerFor(game).schedule(() => trackAIWork(handleAIVote(game, round, p, voteFn)), jitter);
   }
 }
 
@@ -539,6 +528,7 @@ export async function notifyAIsOfElimination(game: Game, round: Round) {
 
     const mem = ensureMem(p);
     mem.kickedPlayers = Array.from(new Set([...(mem.kickedPlayers ?? []), ...eliminated]));
+    rememberEliminations(game, round, p, eliminated);
 
     const sum = upsertRoundSummary(mem, round);
     sum.eliminatedPlayerIds = eliminated;
@@ -546,12 +536,11 @@ export async function notifyAIsOfElimination(game: Game, round: Round) {
     // Store only sanitized versions of submissions in memory
     sum.submissions = [];
     for (const s of round.submissions) {
-      const { text: sanitizedText, sanitized } = await sanitizeContentForAI(game, p, s.content);
+      const { text: sanitizedText, sanitized, summary } = await sanitizeContentForAI(game, p, s.content);
       sum.submissions.push({ playerId: s.playerId, content: sanitizedText, sanitized });
       if (sanitized) {
-        const assessment = getAssessmentFromCaches(game, p, s.content);
         logger.debug(
-          `Sanitized (results memory) for AI ${p.alias} round ${round.roundNumber} from ${s.playerId} :: ${assessment?.summary ?? "toxic"}`
+          `Sanitized (results memory) for AI ${p.alias} round ${round.roundNumber} from ${s.playerId} :: ${summary ?? "toxic"}`
         );
       }
     }
@@ -569,8 +558,235 @@ export async function notifyAIsOfElimination(game: Game, round: Round) {
       tsum.submissions = sum.submissions;
       tsum.votes = sum.votes;
       tm.notes.push(`Round ${round.roundNumber}: eliminated=${eliminated.join(",") || "none"}`);
+      recordRoleOutcomes(tm, getRoundPlan(game, tm, round.roundNumber), eliminated);
+    }
+  }
+}
+
+function scheduleAIChat(game: Game, round: Round, aiPlayer: Player, delayMs: number, chatFn?: ChatFn) {
+  const scheduler = schedulerFor(game);
+  const plan = getRoundPlan(game, ensureTeamMem(game, aiPlayer.aiData?.teamId ?? "impostors"), round.roundNumber);
+  (plan.chatAt ??= {})[aiPlayer.playerId] = scheduler.now() + delayMs;
+  scheduler.schedule(() => trackAIWork(handleAIChat(game, round, aiPlayer, chatFn)), delayMs, `ai-chat:${aiPlayer.playerId}`);
+}
+
+function discussingAIs(game: Game, round: Round): Player[] {
+  return game.players.filter((p) => p.isAI && p.alive && round.participantIds.includes(p.playerId));
+}
+
+/**
+ * Opening lines for the discussion: some AIs speak up a few seconds in. Lines
+ * already planned (e.g. before a restart) are re-armed at their time instead.
+ */
+export function scheduleAIChatForRound(game: Game, round: Round, chatFn?: ChatFn) {
+  const now = schedulerFor(game).now();
+  for (const p of discussingAIs(game, round)) {
+    const plan = getRoundPlan(game, ensureTeamMem(game, p.aiData?.teamId ?? "impostors"), round.roundNumber);
+    const planned = plan.chatAt?.[p.playerId];
+    if (planned != null) {
+      if (planned > now) scheduleAIChat(game, round, p, planned - now, chatFn);
+      continue;
+    }
+    const rng = gameRng(game);
+    if (rng() < AI_CHAT_OPEN_CHANCE) scheduleAIChat(game, round, p, Math.round(3000 + rng() * 7000), chatFn);
+  }
+}
+
+function chatBudget(accused: boolean): number {
+  return AI_CHAT_MAX_MESSAGES + (accused ? 1 : 0);
+}
+
+/**
+ * A human said something: each AI may answer it, within its message budget and
+ * never sooner than AI_CHAT_MIN_GAP_MS after its own last line. An AI whose color
+ * is accused always answers, and sooner. AIs don't answer each other, so they
+ * can't talk among themselves in a loop.
+ */
+export function notifyAIsOfChat(game: Game, round: Round, message: ChatMessage, chatFn?: ChatFn) {
+  if (round.status !== "DISCUSSING") return;
+  const author = game.players.find((p) => p.playerId === message.playerId);
+  if (!author || author.isAI) return;
+
+  const now = schedulerFor(game).now();
+  for (const p of discussingAIs(game, round)) {
+    const accused = isAccusation(message.text, p.colorId);
+    if (accused) {
+      const chatMem = ensureChatMemory(ensureMem(p));
+      chatMem.accusedBy.push({ match: game.match ?? 0, roundNumber: round.roundNumber, colorId: author.colorId });
+      chatMem.accusedBy = chatMem.accusedBy.slice(-AI_CHAT_MEMORY_LIMIT);
+    }
+
+    const plan = getRoundPlan(game, ensureTeamMem(game, p.aiData?.teamId ?? "impostors"), round.roundNumber);
+    if ((plan.chatCount?.[p.playerId] ?? 0) >= chatBudget(accused)) continue;
+    // Still due: that line will see this one too
+    const last = plan.chatAt?.[p.playerId];
+    if (last != null && last > now) continue;
+
+    const rng = gameRng(game);
+    if (!accused && rng() >= AI_CHAT_REPLY_CHANCE) continue;
+    const gap = accused ? AI_CHAT_MIN_GAP_MS / 2 : AI_CHAT_MIN_GAP_MS;
+    const delay = Math.max(catchUpDelay(message.text.length, rng), (last ?? -Infinity) + gap - now);
+    if (round.expiresAt != null && now + delay > round.expiresAt - 1000) continue;
+    scheduleAIChat(game, round, p, delay, chatFn);
+  }
+}
+
+// Queue a comment on the round's eliminations for the AI's first line of the next discussion
+function rememberEliminations(game: Game, round: Round, aiPlayer: Player, eliminated: readonly string[]) {
+  const chatMem = ensureChatMemory(ensureMem(aiPlayer));
+  const match = game.match ?? 0;
+  const teamId = aiPlayer.aiData?.teamId ?? "impostors";
+  chatMem.pendingReactions = eliminated
+    .filter((id) => id !== aiPlayer.playerId)
+    .map((id) => game.players.find((p) => p.playerId === id))
+    .filter((p): p is Player => !!p)
+    .map((p) => ({
+      match,
+      roundNumber: round.roundNumber,
+      colorId: p.colorId,
+      suspected: chatMem.suspected.some((s) => s.match === match && s.colorId === p.colorId),
+      teammate: !!p.isAI && (p.aiData?.teamId ?? "impostors") === teamId,
+    }));
+}
+
+function planChatLine(game: Game, round: Round, aiPlayer: Player, plan: AIRoundPlan, accusers: ChatMessage[], sent: number): ChatLinePlan {
+  const match = game.match ?? 0;
+  const chatMem = ensureChatMemory(ensureMem(aiPlayer));
+  const thisRound = (e: { match: number; roundNumber: number }) => e.match === match && e.roundNumber === round.roundNumber;
+  const earlier = (e: { match: number; roundNumber: number }) => e.match === match && e.roundNumber < round.roundNumber;
+
+  const suspectId = teamSuspect(game, round, plan);
+  const suspectPlayerId = round.submissions.find((s) => s.submissionId === suspectId)?.playerId;
+  const suspectColor = game.players.find((p) => p.playerId === suspectPlayerId)?.colorId;
+  const suspect = suspectColor && suspectColor !== aiPlayer.colorId ? suspectColor : undefined;
+
+  const teamId = aiPlayer.aiData?.teamId ?? "impostors";
+  const teammates = discussingAIs(game, round).filter(
+    (p) => p.playerId !== aiPlayer.playerId && (p.aiData?.teamId ?? "impostors") === teamId
+  );
+  const reaction = chatMem.pendingReactions.find((r) => r.match === match && r.roundNumber < round.roundNumber);
+  const accuserColors = Array.from(new Set(accusers.map((m) => m.colorId)));
+
+  const intent = chooseChatIntent({
+    accused: accusers.length > 0,
+    firstLineThisRound: sent === 0,
+    pendingReaction: !!reaction,
+    hasSuspect: !!suspect,
+    suspectedThisRound: chatMem.suspected.some(thisRound),
+    teammateSuspectedThisRound: teammates.some((t) => (t.aiData?.memory?.chat?.suspected ?? []).some(thisRound)),
+    roll: gameRng(game)(),
+  });
+
+  const repeat =
+    intent === "DEFEND"
+      ? chatMem.accusedBy.some((a) => earlier(a) && accuserColors.includes(a.colorId))
+      : intent === "SUSPECT"
+        ? chatMem.suspected.some((s) => earlier(s) && s.colorId === suspect)
+        : false;
+
+  return {
+    intent,
+    accusers: accuserColors,
+    repeat,
+    ...(suspect ? { suspect } : {}),
+    ...(intent === "REACT" && reaction ? { reaction } : {}),
+  };
+}
+
+// Once the line is out: remember the stance it took
+function rememberChatLine(game: Game, round: Round, aiPlayer: Player, line: ChatLinePlan) {
+  const chatMem = ensureChatMemory(ensureMem(aiPlayer));
+  if (line.intent === "SUSPECT" && line.suspect) {
+    chatMem.suspected.push({ match: game.match ?? 0, roundNumber: round.roundNumber, colorId: line.suspect });
+    chatMem.suspected = chatMem.suspected.slice(-AI_CHAT_MEMORY_LIMIT);
+  }
+  if (line.intent === "REACT") chatMem.pendingReactions = [];
+}
+
+async function handleAIChat(game: Game, round: Round, aiPlayer: Player, chatFn?: ChatFn) {
+  if (round.status !== "DISCUSSING" || !aiPlayer.alive) return;
+  const plan = getRoundPlan(game, ensureTeamMem(game, aiPlayer.aiData?.teamId ?? "impostors"), round.roundNumber);
+  const sent = plan.chatCount?.[aiPlayer.playerId] ?? 0;
+  const chat = round.chat ?? [];
+  const lastOwnAt = chat.filter((m) => m.playerId === aiPlayer.playerId).pop()?.at ?? -Infinity;
+  const accusers = accusationsSince(chat, aiPlayer.playerId, aiPlayer.colorId, lastOwnAt);
+  if (sent >= chatBudget(accusers.length > 0)) return;
+
+  const line = planChatLine(game, round, aiPlayer, plan, accusers, sent);
+  const text = await buildAIChatMessage(game, round, aiPlayer, line, sent);
+  if (round.status !== "DISCUSSING" || !text) return;
+
+  (plan.chatCount ??= {})[aiPlayer.playerId] = sent + 1;
+  (plan.chatAt ??= {})[aiPlayer.playerId] = schedulerFor(game).now();
+  rememberChatLine(game, round, aiPlayer, line);
+  logger.info(`AI ${aiPlayer.alias} chat round ${round.roundNumber} (${line.intent}): ${text}`);
+  if (chatFn) await chatFn(game, round, aiPlayer.playerId, text);
+}
+
+// Model context: the round's lines and the chat so far, by color; the offline line if no model answers
+async function buildAIChatMessage(
+  game: Game,
+  round: Round,
+  aiPlayer: Player,
+  line: ChatLinePlan,
+  messageIndex: number
+): Promise<string> {
+  const colorOf = (playerId: string) => game.players.find((p) => p.playerId === playerId)?.colorId ?? "unknown";
+  const submissions: Array<{ color: string; content: string; mine: boolean }> = [];
+  for (const s of round.submissions) {
+    if (!s.content) continue;
+    const { text } = await sanitizeContentForAI(game, aiPlayer, s.content);
+    const content = isStoredImageUrl(s.content) ? "(an image)" : text;
+    submissions.push({ color: colorOf(s.playerId), content, mine: s.playerId === aiPlayer.playerId });
+  }
+  // Chat text is already filtered for everyone
+  const chat = (round.chat ?? []).slice(-20).map((m) => ({ color: m.colorId, text: m.text }));
+  const humanLines = submissions.filter((s) => !s.mine).map((s) => s.content);
+  const mine = submissions.find((s) => s.mine)?.content;
+  const chatMem = ensureChatMemory(ensureMem(aiPlayer));
+  const match = game.match ?? 0;
+
+  const provider = resolveAIProvider(game, aiPlayer);
+  if (provider) {
+    const input = JSON.stringify({
+      mode: "discussion",
+      roundNumber: round.roundNumber,
+      prompt: round.roundPrompt ?? round.targetAlias,
+      yourColor: aiPlayer.colorId,
+      intent: { name: line.intent, brief: INTENT_BRIEFS[line.intent] },
+      ...(line.suspect ? { suspectColor: line.suspect } : {}),
+      ...(line.accusers.length > 0 ? { accuserColors: line.accusers } : {}),
+      ...(line.reaction ? { eliminations: [line.reaction.colorId] } : {}),
+      // Earlier stances this match, to stay consistent with
+      yourHistory: {
+        suspected: chatMem.suspected.filter((s) => s.match === match).slice(-5),
+        accusedBy: chatMem.accusedBy.filter((a) => a.match === match).slice(-5),
+      },
+      submissions,
+      chat,
+      styleProfile: styleProfile(humanLines, round.targetAlias),
+    });
+    try {
+      const out = await provider.chat({ roundNumber: round.roundNumber, messageIndex, input });
+      if (out?.message) return out.message;
+    } catch (err) {
+      logger.warn(`AI ${aiPlayer.alias} chat generation failed: ${String(err)}`);
     }
   }
+
+  return writeOfflineChatLine(
+    {
+      intent: line.intent,
+      profile: styleProfile(humanLines, round.targetAlias),
+      avoid: chat.map((m) => m.text),
+      repeat: line.repeat,
+      ...(line.suspect ? { suspect: line.suspect } : {}),
+      ...(line.accusers[0] ? { accuser: line.accusers[0] } : {}),
+      ...(mine ? { mine } : {}),
+      ...(line.reaction ? { eliminated: line.reaction } : {}),
+    },
+    gameRng(game)
+  );
 }
 
 async function handleAISubmit(
@@ -582,22 +798,44 @@ async function handleAISubmit(
   if (round.status !== "SUBMITTING") return;
   if (!aiPlayer.alive) return; // dead AIs must not submit
   if (round.submissions.find((s) => s.playerId === aiPlayer.playerId)) return;
-  if (!allHumanParticipantsSubmitted(game, round)) return;
+  if (!hasSubmissionContext(game, round)) return;
 
   const submissionResult = await buildAISubmissionContent(game, round, aiPlayer);
+  if (!submissionResult) {
+    logger.warn(`AI ${aiPlayer.alias} has no stock image left for round ${round.roundNumber}; sitting it out`);
+    return;
+  }
   const content = submissionResult.text;
 
   const submission: Submission = {
-    submissionId: makeSubmissionId(game.code, aiPlayer.playerId, round.roundNumber),
+    submissionId: makeSubmissionId(),
     playerId: aiPlayer.playerId,
     content,
     roundNumber: round.roundNumber,
-    submittedAt: Date.now(),
+    submittedAt: schedulerFor(game).now(),
   };
 
   if (submitFn) submitFn(game, round, submission);
   else round.submissions.push(submission);
 
+  if (round.submissions.some((s) => s.submissionId === submission.submissionId)) {
+    const provider = resolveAIProvider(game, aiPlayer);
+    // Assigned even when no model answered, so fallback play is attributed to its arm too
+    const arm = armFor(game, aiPlayer) ? armLabel(aiPlayer) : undefined;
+    recordEvent(game, {
+      type: "AI_GENERATION",
+      roundNumber: round.roundNumber,
+      playerId: aiPlayer.playerId,
+      submissionId: submission.submissionId,
+      usedModel: submissionResult.usedModel,
+      ...(submissionResult.prompt ? { prompt: submissionResult.prompt } : {}),
+      ...(provider ? { provider: provider.kind } : {}),
+      ...(provider?.model ? { model: provider.model } : {}),
+      ...(arm ? { arm } : {}),
+      ...(submissionResult.role ? { role: submissionResult.role } : {}),
+    });
+  }
+
   const mem = ensureMem(aiPlayer);
   const sum = upsertRoundSummary(mem, round);
   addOrReplaceSubmission(sum, submission);
@@ -606,7 +844,7 @@ async function handleAISubmit(
   const teamId = aiPlayer.aiData?.teamId;
   if (teamId) {
     const tm = ensureTeamMem(game, teamId);
-    const plan = getRoundPlan(tm, round.roundNumber);
+    const plan = getRoundPlan(game, tm, round.roundNumber);
     plan.usedSamples.push(content);
     tm.notes = tm.notes ?? [];
     tm.notes.push(`Round ${round.roundNumber}: ${aiPlayer.alias}: ${content}`);
@@ -616,7 +854,7 @@ async function handleAISubmit(
     const humans = await getHumanSubmissionsSanitized(game, round, aiPlayer);
     const teamId = aiPlayer.aiData?.teamId;
     const tm = teamId ? ensureTeamMem(game, teamId) : undefined;
-    const usedSamplesCount = teamId ? (getRoundPlan(tm!, round.roundNumber).usedSamples?.length ?? 0) : 0;
+    const usedSamplesCount = teamId ? (getRoundPlan(game, tm!, round.roundNumber).usedSamples?.length ?? 0) : 0;
     const recentNotes = tm?.notes ? tm.notes.slice(-5) : [];
     logAISubmissionDecision({
       roundNumber: round.roundNumber,
@@ -627,6 +865,7 @@ async function handleAISubmit(
       visibleHumans: humans,
       teamNotesRecent: recentNotes,
       usedSamplesCount,
+      role: submissionResult.role,
       output: content,
       usedModel: !!submissionResult.usedModel,
     });
@@ -665,7 +904,7 @@ async function handleAIVote(
 
   const teamId = aiPlayer.aiData?.teamId ?? "impostors";
   const teamMem = ensureTeamMem(game, teamId);
-  const plan = getRoundPlan(teamMem, round.roundNumber);
+  const plan = getRoundPlan(game, teamMem, round.roundNumber);
 
   // Prefer human targets if available, excluding self
   const humanSubs = visibleSubs.filter((s) => !s.isAI && s.playerId !== aiPlayer.playerId);
@@ -684,11 +923,20 @@ async function handleAIVote(
   // Try model vote first (when API available)
   let chosen: string | null = null;
   let method: "model" | "team-fallback" = "team-fallback";
-  const haveKey = !!normalizeOptString(aiPlayer.aiData?.apiKey) || !!normalizeOptString(process.env.OPENAI_API_KEY);
-  if (haveKey) {
+  const provider = resolveAIProvider(game, aiPlayer);
+  if (provider) {
     try {
       const prompt = await buildAIVotePrompt(game, round, aiPlayer, visibleSubs, votesSoFar);
-      const out = await generateVoteWithModel(aiPlayer.aiData?.apiKey, prompt, allowedAliases);
+      const arm = armFor(game, aiPlayer);
+      const out = await provider.chooseVote({
+        roundNumber: round.roundNumber,
+        input: prompt,
+        allowedAliases,
+        options: {
+          ...(arm?.voteInstructions ? { instructions: arm.voteInstructions } : {}),
+          ...(arm?.voteTemperature !== undefined ? { temperature: arm.voteTemperature } : {}),
+        },
+      });
       if (out?.author_alias) {
         const matches = aliasToSubmissions.get(out.author_alias) ?? [];
         const humanFirst = matches.find((m) => !m.isAI) ?? matches[0];
@@ -702,10 +950,15 @@ async function handleAIVote(
     }
   }
 
-  // Fallback: use team-coordinated target, else random from options
+  // Fallback: use team-coordinated target, else the most suspicious-looking option
   if (!chosen) {
     if (!plan.fallbackVoteSubmissionId || !optionIds.includes(plan.fallbackVoteSubmissionId)) {
-      plan.fallbackVoteSubmissionId = pickRandom(optionIds);
+      plan.fallbackVoteSubmissionId = chooseOfflineVote(
+        optionPool,
+        visibleSubs.map((s) => s.content),
+        votesSoFar,
+        gameRng(game)
+      );
     }
     chosen = plan.fallbackVoteSubmissionId;
   }
@@ -764,12 +1017,11 @@ async function buildAIVotePrompt(
     sanitized: boolean;
   }> = [];
   for (const s of submissions) {
-    const { text, sanitized } = await sanitizeContentForAI(game, aiPlayer, s.content);
+    const { text, sanitized, summary } = await sanitizeContentForAI(game, aiPlayer, s.content);
     sanitizedSubs.push({ ...s, content: text, sanitized });
     if (sanitized) {
-      const assessment = getAssessmentFromCaches(game, aiPlayer, s.content);
       logger.debug(
-        `Sanitized (voting prompt) for AI ${aiPlayer.alias} round ${round.roundNumber} from ${s.playerId} :: ${assessment?.summary ?? "toxic"}`
+        `Sanitized (voting prompt) for AI ${aiPlayer.alias} round ${round.roundNumber} from ${s.playerId} :: ${summary ?? "toxic"}`
       );
     }
   }
@@ -791,86 +1043,64 @@ async function buildAIVotePrompt(
     },
     instruction: "Pick author_alias exactly from currentSubmissions[].alias; return author_alias + team_note only.",
   };
+  // Votes that contradict what the AI said in the discussion would stand out
+  if (round.chat?.length) {
+    const match = game.match ?? 0;
+    body.discussion = {
+      chat: round.chat.slice(-20).map((m) => ({ color: m.colorId, text: m.text })),
+      youSuspected: (mem.chat?.suspected ?? [])
+        .filter((s) => s.match === match && s.roundNumber === round.roundNumber)
+        .map((s) => s.colorId),
+    };
+  }
   return JSON.stringify(body);
 }
 
-type VoteModelOutput = { author_alias: string; team_note: string };
-
-async function generateVoteWithModel(
-  apiKey: string | undefined,
-  prompt: string,
-  allowedAliases: string[]
-): Promise<VoteModelOutput | null> {
-  const client = getOpenAIClient(apiKey);
-  if (!client) return null;
-
-  const model = process.env.OPENAI_MODEL ?? "gpt-5.2";
-
-  const instructions =
-    process.env.OPENAI_GAME_VOTE_INSTRUCTIONS ??
-    [
-      "You are an AI player impostor in a social deduction game, loosely based on 'Among Us' and 'Fibbage'. Real players can only see Colors, not aliases.",
-      "Choose exactly one submission to vote for from currentSubmissions; that player will be eliminated.",
-      "Consider author info (alias, color, isAI), teamMemory.notes, and the currentVotes so far.",
-      'Return JSON only: {"author_alias":"<alias>","team_note":"..."}.',
-      "Choose the exact alias string from currentSubmissions[].alias.",
-      "Include a brief team_note to guide teammates.",
-    ].join(" ");
-
-  const schema = {
-    type: "object",
-    properties: {
-      author_alias: { type: "string", enum: allowedAliases.length ? allowedAliases : undefined },
-      team_note: { type: "string" },
-    },
-    required: ["author_alias", "team_note"],
-    additionalProperties: false,
-  } as const;
-
-  const response = await client.responses.create({
-    model,
-    instructions,
-    input: prompt,
-    reasoning: { effort: "none" },
-    text: {
-      verbosity: "low",
-      format: { type: "json_schema", name: "round_vote", strict: true, schema },
-    },
-    temperature: 0.3,
-    max_output_tokens: 40,
-    store: false,
-  } as any);
-
-  const raw = cleanSingleLine((response.output_text ?? "").trim());
-  if (!raw) return null;
-  const parsed = parseJSONFromText<Partial<VoteModelOutput>>(raw);
-  if (!parsed) return null;
-  if (!parsed.author_alias) return null;
-  if (allowedAliases.length && !allowedAliases.includes(parsed.author_alias)) return null;
-  if (!parsed.team_note) return null;
-  return { author_alias: parsed.author_alias, team_note: parsed.team_note };
-}
+// `prompt` is the model context for this round (built even when no model answers), kept for training export
+async function buildAISubmissionContent(
+  game: Game,
+  round: Round,
+  aiPlayer: Player
+): Promise<{ text: string; usedModel: boolean; prompt?: string; role?: AIRole } | null> {
+  // Humans can only submit images here, so no image means no submission at all
+  if (round.roundType === "IMAGE") {
+    const teamMem = ensureTeamMem(game, aiPlayer.aiData?.teamId ?? "impostors");
+    const url = buildAIImageSubmission(
+      round,
+      new Set(getRoundPlan(game, teamMem, round.roundNumber).usedSamples ?? []),
+      gameRng(game)
+    );
+    return url ? { text: url, usedModel: false } : null;
+  }
 
-async function buildAISubmissionContent(game: Game, round: Round, aiPlayer: Player): Promise<{ text: string; usedModel: boolean }> {
   const humans = await getHumanSubmissionsSanitized(game, round, aiPlayer);
   const humanContents = humans.map((h) => h.content);
 
   const teamId = aiPlayer.aiData?.teamId ?? "impostors";
   const teamMem = ensureTeamMem(game, teamId);
-  const plan = getRoundPlan(teamMem, round.roundNumber);
+  const plan = getRoundPlan(game, teamMem, round.roundNumber);
   const used = new Set((plan.usedSamples ?? []).map((s) => cleanSingleLine(s)));
+  const role = roleFor(game, teamMem, plan, teamId, aiPlayer.playerId, round.roundNumber);
+  const humanMedian = median(humanContents.map((s) => cleanSingleLine(s).length));
 
-  const haveKey =
-    !!normalizeOptString(aiPlayer.aiData?.apiKey) ||
-    !!normalizeOptString(process.env.OPENAI_API_KEY);
-
-  if (haveKey && humans.length > 0) {
-    const prompt = buildPromptForModel(game, round, aiPlayer, humans, used);
+  const provider = resolveAIProvider(game, aiPlayer);
+  const prompt = humans.length > 0 ? buildPromptForModel(game, round, aiPlayer, humans, used, role) : undefined;
 
-    const targetChars = median(humanContents.map((s) => cleanSingleLine(s).length));
-    const lengthWindow = 15;
+  if (provider && prompt) {
+    const targetChars = roleTargetChars(role, humanMedian);
+    const arm = armFor(game, aiPlayer);
+    const lengthWindow = arm?.lengthWindow ?? ROLE_STYLES[role].lengthWindow;
 
-    const generated = await generateWithModel(aiPlayer.aiData?.apiKey, prompt, targetChars, lengthWindow);
+    const generated = await provider.generateSubmission({
+      roundNumber: round.roundNumber,
+      input: prompt,
+      targetChars,
+      lengthWindow,
+      options: {
+        ...(arm?.instructions ? { instructions: renderInstructions(arm.instructions, targetChars, lengthWindow) } : {}),
+        ...(arm?.temperature !== undefined ? { temperature: arm.temperature } : {}),
+      },
+    });
 
     if (generated?.submission) {
       const sub = truncateToLimit(generated.submission, 140);
@@ -881,22 +1111,30 @@ async function buildAISubmissionContent(game: Game, round: Round, aiPlayer: Play
 
       if (generated.team_note) storeTeamNote(game, aiPlayer, round, generated.team_note);
 
+      // Scripted lines are used verbatim so test games stay reproducible
+      if (provider.kind === "scripted") return { text: sub, usedModel: true, prompt, role };
+
       if (!used.has(cleanSingleLine(fitted)) && fitted.length >= minLen) {
-        return { text: fitted, usedModel: true };
+        return { text: fitted, usedModel: true, prompt, role };
       }
     }
   }
 
-  if (humanContents.length > 0) {
-    const pool = humanContents.filter((c) => !used.has(cleanSingleLine(c)));
-    const pick = pickRandom(pool.length > 0 ? pool : humanContents);
-    return { text: truncateToLimit(pick, 140), usedModel: false };
-  }
-
-  return { text: "idk", usedModel: false };
+  // No model, or nothing usable from it: write a line locally
+  const text = writeOfflineLine(
+    {
+      round,
+      role,
+      profile: styleProfile(humanContents, round.targetAlias),
+      targetChars: humanContents.length > 0 ? roleTargetChars(role, humanMedian) : 30,
+      avoid: [...humanContents, ...(plan.usedSamples ?? [])],
+    },
+    gameRng(game)
+  );
+  return { text, usedModel: false, ...(prompt ? { prompt } : {}), role };
 }
 
-function fitToGroupEnvelope(s: string, prof: ReturnType<typeof styleProfile>): string {
+function fitToGroupEnvelope(s: string, prof: StyleProfile): string {
   const t = truncateToLimit(s, 140);
   const target = prof.medianLength > 0 ? prof.medianLength : 40;
   const upper = Math.min(140, target + 15);
@@ -919,7 +1157,8 @@ function buildPromptForModel(
   round: Round,
   aiPlayer: Player,
   visibleHumans: Array<{ alias: string; color: string; content: string; sanitized: boolean }>,
-  usedThisRound: Set<string>
+  usedThisRound: Set<string>,
+  role: AIRole
 ) {
   const mem = ensureMem(aiPlayer);
 
@@ -947,6 +1186,7 @@ function buildPromptForModel(
     roundNumber: round.roundNumber,
     targetAlias: round.targetAlias,
     styleProfile: prof,
+    role: { name: role, brief: ROLE_STYLES[role].brief, targetChars: roleTargetChars(role, prof.medianLength) },
     recentRounds,
     teamMemory: {
       notes: (teamMem.notes ?? []).slice(-20),
@@ -958,195 +1198,28 @@ function buildPromptForModel(
   return JSON.stringify(body);
 }
 
-type ModelOutput = { submission: string; team_note: string };
-
-async function generateWithModel(
-  apiKey: string | undefined,
-  prompt: string,
-  targetChars: number,
-  lengthWindow: number
-): Promise<ModelOutput | null> {
-  const client = getOpenAIClient(apiKey);
-  if (!client) return null;
-
-  const model = process.env.OPENAI_MODEL ?? "gpt-5.2";
-
-  // Rough heuristic: ~3 chars/token in short slangy text + JSON overhead
-  // Keep it tight so it doesn't ramble.
-  const maxTokens = Math.max(
-    60,
-    Math.min(140, Math.ceil((targetChars + 40) / 3))
-  );
-
-  const instructions =
-    process.env.OPENAI_GAME_INSTRUCTIONS ??
-    [
-      "You are an AI player impostor in a social deduction game, loosely based on 'Among Us' and 'Fibbage'. Real players can only see Colors, not aliases.",
-      "Write one short line that blends in with visibleSubmissions.",
-      "Match the group's length, casing, punctuation/no-punctuation, slang, spelling style, and vibe.",
-      "You may subtly reference previous behavior using player colors if it fits the style.",
-      `Target length: ${targetChars} chars (acceptable ${targetChars - lengthWindow}..${targetChars + lengthWindow}).`,
-      'Return JSON only: {"submission":"...","team_note":"..."}',
-      "Both must be single-line strings with no newline characters.",
-    ].join(" ");
-
-  const requestPayload = {
-  model,
-  instructions,
-  input: prompt,
-
-  reasoning: { effort: "none" },
-  text: {
-    verbosity: "low",
-    format: {
-      type: "json_schema",
-      name: "round_submission",
-      strict: true,
-      schema: {
-        type: "object",
-        properties: {
-          submission: { type: "string" },
-          team_note: { type: "string" },
-        },
-        required: ["submission", "team_note"],
-        additionalProperties: false,
-      },
-    },
-  },
-
-  temperature: 0.9,
-  max_output_tokens: maxTokens,
-  store: false,
-} as const;
-
-  const response = await client.responses.create(requestPayload as any);
-  const raw = cleanSingleLine((response.output_text ?? "").trim());
-  if (!raw) return null;
-
-  const parsed = parseJSONFromText<Partial<ModelOutput>>(raw);
-  if (!parsed) return null;
-  const submission = truncateToLimit(parsed.submission ?? "", 140);
-  const team_note = truncateToLimit(parsed.team_note ?? "", 80);
-  if (!submission) return null;
-
-  return { submission, team_note };
-}
-
 export default {
   scheduleAIForRound,
   scheduleAIVotesForRound,
+  scheduleAIChatForRound,
   notifyAIsOfSubmission,
+  notifyAIsOfChat,
   notifyAIsOfVote,
   notifyAIsOfElimination,
 };
 
-// ===== Toxicity filtering & caching =====
-
-function ensureToxicityCache(mem: AIMemory): Record<string, ToxicityAssessment> {
-  if (!mem.toxicityCache) mem.toxicityCache = {};
-  return mem.toxicityCache;
-}
-
-function pickTopCategories(scores: Record<string, number>, threshold = 0.5, maxCats = 3): string[] {
-  const entries = Object.entries(scores)
-    .filter(([k]) => k !== "non_toxic")
-    .sort((a, b) => (b[1] ?? 0) - (a[1] ?? 0))
-    .filter(([_, v]) => (v ?? 0) >= threshold)
-    .slice(0, maxCats)
-    .map(([k, v]) => `${k} ${(v ?? 0).toFixed(2)}`);
-  return entries;
-}
-
-async function callToxicityService(text: string): Promise<{ is_toxic: boolean; detailed_scores?: Record<string, number> } | null> {
-  try {
-    const res = await fetch(`${TOXICITY_URL}/predict`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ text }),
-    } as any);
-    if (!res.ok) throw new Error(`HTTP ${res.status}`);
-    const data = (await res.json()) as any;
-    return { is_toxic: !!data.is_toxic, detailed_scores: data.detailed_scores ?? {} };
-  } catch (e) {
-    logger.warn(`Toxicity service error: ${String(e)}`);
-    return null;
-  }
-}
-
-function buildReplacement(scores?: Record<string, number>, reason?: string): { replacedText: string; summary?: string } {
-  const cats = scores ? pickTopCategories(scores) : [];
-  const summary = cats.length > 0 ? cats.join(", ") : (reason || "content hidden");
-  const replacedText = `(content replaced due to toxicity: ${summary})`;
-  return { replacedText, summary };
-}
-
-async function assessAndCache(mem: AIMemory, original: string): Promise<ToxicityAssessment> {
-  const cache = ensureToxicityCache(mem);
-  const key = original;
-  if (cache[key]) return cache[key];
-
-  const resp = await callToxicityService(original);
-  if (!resp) {
-    const { replacedText, summary } = buildReplacement(undefined, "toxicity model unavailable");
-    const assessment: ToxicityAssessment = {
-      isToxic: true,
-      scores: {},
-      replacedText,
-      ...(summary ? { summary } : {}),
-    } as ToxicityAssessment;
-    cache[key] = assessment;
-    return assessment;
-  }
-
-  if (resp.is_toxic) {
-    const { replacedText, summary } = buildReplacement(resp.detailed_scores);
-    const assessment: ToxicityAssessment = {
-      isToxic: true,
-      scores: resp.detailed_scores ?? {},
-      replacedText,
-      ...(summary ? { summary } : {}),
-    } as ToxicityAssessment;
-    cache[key] = assessment;
-    return assessment;
-  } else {
-    const assessment: ToxicityAssessment = { isToxic: false, scores: resp.detailed_scores ?? {}, replacedText: original };
-    cache[key] = assessment;
-    return assessment;
-  }
-}
+// ===== Toxicity filtering =====
 
+// Scores come from the process-wide cache in toxicity.ts, so every AI reading the same line shares one check
 async function sanitizeContentForAI(
   game: Game,
   aiPlayer: Player,
   original: string
-): Promise<{ text: string; sanitized: boolean }> {
-  // Prefer team-level cache to maximize reuse across AIs
-  const teamId = aiPlayer.aiData?.teamId ?? "impostors";
-  const tm = ensureTeamMem(game, teamId);
-  // ensure both caches exist
-  ensureToxicityCache(tm);
-  const mem = ensureMem(aiPlayer);
-  ensureToxicityCache(mem);
-
-  // Try team cache first
-  const teamCache = tm.toxicityCache!;
-  const existing = teamCache[original];
-  if (existing) {
-    // Mirror into personal cache too
-    mem.toxicityCache![original] = existing;
-    return { text: existing.isToxic ? existing.replacedText : original, sanitized: existing.isToxic };
-  }
-
-  // Not cached: assess and store in both
-  const assessment = await assessAndCache(tm, original);
-  mem.toxicityCache![original] = assessment;
-  return { text: assessment.isToxic ? assessment.replacedText : original, sanitized: assessment.isToxic };
-}
+): Promise<{ text: string; sanitized: boolean; summary?: string }> {
+  // Uploaded images are referenced by URL; there is no text to score
+  if (isStoredImageUrl(original)) return { text: original, sanitized: false };
 
-function getAssessmentFromCaches(game: Game, aiPlayer: Player, original: string): ToxicityAssessment | null {
-  const teamId = aiPlayer.aiData?.teamId ?? "impostors";
-  const tm = ensureTeamMem(game, teamId);
-  const mem = ensureMem(aiPlayer);
-  const a = tm.toxicityCache?.[original] || mem.toxicityCache?.[original] || null;
-  return a ?? null;
+  const assessment = await assessText(game, original);
+  if (!assessment.isToxic) return { text: original, sanitized: false };
+  return { text: assessment.replacedText, sanitized: true, ...(assessment.summary ? { summary: assessment.summary } : {}) };
 }
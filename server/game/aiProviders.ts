@@ -0,0 +1,441 @@
+// server/game/aiProviders.ts
+import fs from "fs";
+import OpenAI from "openai";
+import { parse as parseYaml } from "yaml";
+import type { AIProviderConfig, AIProviderKind, Game, Player, ScriptedAIScript } from "./gameTypes";
+import { getGameSettings, validateProviderSettings } from "./gameSettings";
+import { cleanSingleLine, parseJSONFromText, truncateToLimit } from "./aiText";
+import { armFor } from "./experiments";
+import logger from "../config/loggerWinston";
+
+// Per-request overrides of the provider defaults (experiment arms)
+export interface GenerationOptions {
+  instructions?: string;
+  temperature?: number;
+}
+
+export interface SubmissionRequest {
+  roundNumber: number;
+  // JSON game context built by aiPlayer (style profile, memory, visible submissions)
+  input: string;
+  targetChars: number;
+  lengthWindow: number;
+  options?: GenerationOptions;
+}
+
+export interface VoteRequest {
+  roundNumber: number;
+  input: string;
+  allowedAliases: string[];
+  options?: GenerationOptions;
+}
+
+export interface ChatRequest {
+  roundNumber: number;
+  // How many discussion messages this AI has already sent this round
+  messageIndex: number;
+  input: string;
+}
+
+export type SubmissionOutput = { submission: string; team_note: string };
+export type VoteOutput = { author_alias: string; team_note: string };
+export type ChatOutput = { message: string };
+
+/**
+ * A source of AI decisions. Returning null means "no opinion"; the caller then
+ * uses its own fallback (copying/team-coordinated votes).
+ */
+export interface AIModelProvider {
+  readonly kind: AIProviderKind;
+  // Model name, for providers that have one
+  readonly model?: string;
+  generateSubmission(req: SubmissionRequest): Promise<SubmissionOutput | null>;
+  chooseVote(req: VoteRequest): Promise<VoteOutput | null>;
+  chat(req: ChatRequest): Promise<ChatOutput | null>;
+}
+
+const DEFAULT_OPENAI_MODEL = "gpt-5.2";
+const DEFAULT_LOCAL_MODEL = "llama3.1";
+
+function normalizeOptString(s: string | undefined): string | undefined {
+  const t = s?.trim();
+  return t && t.length > 0 ? t : undefined;
+}
+
+function submissionInstructions(targetChars: number, lengthWindow: number): string {
+  return (
+    process.env.OPENAI_GAME_INSTRUCTIONS ??
+    [
+      "You are an AI player impostor in a social deduction game, loosely based on 'Among Us' and 'Fibbage'. Real players can only see Colors, not aliases.",
+      "Write one short line that blends in with visibleSubmissions.",
+      "Match the group's length, casing, punctuation/no-punctuation, slang, spelling style, and vibe.",
+      "You may subtly reference previous behavior using player colors if it fits the style.",
+      `Target length: ${targetChars} chars (acceptable ${targetChars - lengthWindow}..${targetChars + lengthWindow}).`,
+      'Return JSON only: {"submission":"...","team_note":"..."}',
+      "Both must be single-line strings with no newline characters.",
+    ].join(" ")
+  );
+}
+
+function voteInstructions(): string {
+  return (
+    process.env.OPENAI_GAME_VOTE_INSTRUCTIONS ??
+    [
+      "You are an AI player impostor in a social deduction game, loosely based on 'Among Us' and 'Fibbage'. Real players can only see Colors, not aliases.",
+      "Choose exactly one submission to vote for from currentSubmissions; that player will be eliminated.",
+      "Consider author info (alias, color, isAI), teamMemory.notes, and the currentVotes so far.",
+      'Return JSON only: {"author_alias":"<alias>","team_note":"..."}.',
+      "Choose the exact alias string from currentSubmissions[].alias.",
+      "Include a brief team_note to guide teammates.",
+    ].join(" ")
+  );
+}
+
+function chatInstructions(): string {
+  return (
+    process.env.OPENAI_GAME_CHAT_INSTRUCTIONS ??
+    [
+      "You are an AI player impostor in a social deduction game, loosely based on 'Among Us' and 'Fibbage'. Real players can only see Colors, not aliases.",
+      "Everyone has submitted a line and the players are now discussing who the impostors are before the vote.",
+      "Write one short chat message (under 100 characters) as a regular player would, in the casual style of the group, referring to players by color.",
+      "Follow intent.brief from the input, and stay consistent with yourHistory: don't clear a color you suspected earlier without a reason.",
+      "Never admit to being an AI and never repeat a line from the chat.",
+      'Return JSON only: {"message":"..."}',
+    ].join(" ")
+  );
+}
+
+// Rough heuristic: ~3 chars/token in short slangy text + JSON overhead.
+// Keep it tight so it doesn't ramble.
+function submissionMaxTokens(targetChars: number): number {
+  return Math.max(60, Math.min(140, Math.ceil((targetChars + 40) / 3)));
+}
+
+function parseSubmission(text: string): SubmissionOutput | null {
+  const raw = cleanSingleLine(text.trim());
+  if (!raw) return null;
+  const parsed = parseJSONFromText<Partial<SubmissionOutput>>(raw);
+  if (!parsed) return null;
+  const submission = truncateToLimit(parsed.submission ?? "", 140);
+  const team_note = truncateToLimit(parsed.team_note ?? "", 80);
+  if (!submission) return null;
+  return { submission, team_note };
+}
+
+function parseVote(text: string, allowedAliases: string[]): VoteOutput | null {
+  const raw = cleanSingleLine(text.trim());
+  if (!raw) return null;
+  const parsed = parseJSONFromText<Partial<VoteOutput>>(raw);
+  if (!parsed) return null;
+  if (!parsed.author_alias) return null;
+  if (allowedAliases.length && !allowedAliases.includes(parsed.author_alias)) return null;
+  if (!parsed.team_note) return null;
+  return { author_alias: parsed.author_alias, team_note: parsed.team_note };
+}
+
+function parseChat(text: string): ChatOutput | null {
+  const raw = cleanSingleLine(text.trim());
+  if (!raw) return null;
+  const parsed = parseJSONFromText<Partial<ChatOutput>>(raw);
+  const message = truncateToLimit(parsed?.message ?? "", 140);
+  return message ? { message } : null;
+}
+
+// OpenAI Responses API with strict JSON schemas.
+export function createOpenAIProvider(client: OpenAI, model: string): AIModelProvider {
+  return {
+    kind: "openai",
+    model,
+
+    async generateSubmission({ input, targetChars, lengthWindow, options }) {
+      const response = await client.responses.create({
+        model,
+        instructions: options?.instructions ?? submissionInstructions(targetChars, lengthWindow),
+        input,
+        reasoning: { effort: "none" },
+        text: {
+          verbosity: "low",
+          format: {
+            type: "json_schema",
+            name: "round_submission",
+            strict: true,
+            schema: {
+              type: "object",
+              properties: {
+                submission: { type: "string" },
+                team_note: { type: "string" },
+              },
+              required: ["submission", "team_note"],
+              additionalProperties: false,
+            },
+          },
+        },
+        temperature: options?.temperature ?? 0.9,
+        max_output_tokens: submissionMaxTokens(targetChars),
+        store: false,
+      } as any);
+      return parseSubmission(response.output_text ?? "");
+    },
+
+    async chooseVote({ input, allowedAliases, options }) {
+      const schema = {
+        type: "object",
+        properties: {
+          author_alias: { type: "string", enum: allowedAliases.length ? allowedAliases : undefined },
+          team_note: { type: "string" },
+        },
+        required: ["author_alias", "team_note"],
+        additionalProperties: false,
+      } as const;
+
+      const response = await client.responses.create({
+        model,
+        instructions: options?.instructions ?? voteInstructions(),
+        input,
+        reasoning: { effort: "none" },
+        text: {
+          verbosity: "low",
+          format: { type: "json_schema", name: "round_vote", strict: true, schema },
+        },
+        temperature: options?.temperature ?? 0.3,
+        max_output_tokens: 40,
+        store: false,
+      } as any);
+      return parseVote(response.output_text ?? "", allowedAliases);
+    },
+
+    async chat({ input }) {
+      const response = await client.responses.create({
+        model,
+        instructions: chatInstructions(),
+        input,
+        reasoning: { effort: "none" },
+        text: {
+          verbosity: "low",
+          format: {
+            type: "json_schema",
+            name: "discussion_message",
+            strict: true,
+            schema: {
+              type: "object",
+              properties: { message: { type: "string" } },
+              required: ["message"],
+              additionalProperties: false,
+            },
+          },
+        },
+        temperature: 0.9,
+        max_output_tokens: 60,
+        store: false,
+      } as any);
+      return parseChat(response.output_text ?? "");
+    },
+  };
+}
+
+/**
+ * OpenAI-compatible chat endpoint (llama.cpp server, Ollama, vLLM...). These only
+ * reliably implement /chat/completions, and JSON mode rather than schemas.
+ */
+export function createLocalProvider(client: OpenAI, model: string): AIModelProvider {
+  async function complete(instructions: string, input: string, temperature: number, maxTokens: number): Promise<string> {
+    const response = await client.chat.completions.create({
+      model,
+      messages: [
+        { role: "system", content: instructions },
+        { role: "user", content: input },
+      ],
+      response_format: { type: "json_object" },
+      temperature,
+      max_tokens: maxTokens,
+    });
+    return response.choices[0]?.message?.content ?? "";
+  }
+
+  return {
+    kind: "local",
+    model,
+
+    async generateSubmission({ input, targetChars, lengthWindow, options }) {
+      const text = await complete(
+        options?.instructions ?? submissionInstructions(targetChars, lengthWindow),
+        input,
+        options?.temperature ?? 0.9,
+        submissionMaxTokens(targetChars)
+      );
+      return parseSubmission(text);
+    },
+
+    async chooseVote({ input, allowedAliases, options }) {
+      const instructions = `${options?.instructions ?? voteInstructions()} author_alias must be one of: ${allowedAliases.join(", ")}.`;
+      return parseVote(await complete(instructions, input, options?.temperature ?? 0.3, 60), allowedAliases);
+    },
+
+    async chat({ input }) {
+      return parseChat(await complete(chatInstructions(), input, 0.9, 60));
+    },
+  };
+}
+
+/**
+ * Canned outputs, one entry per round (cycling when the script is shorter than
+ * the game); chat lines go one per message. Votes fall back to the first scripted alias that is still a valid
+ * choice. Lists left out of the script defer to the caller's fallback.
+ */
+export function createScriptedProvider(script: ScriptedAIScript): AIModelProvider {
+  const at = <T>(list: T[], roundNumber: number): T | undefined => list[(roundNumber - 1) % list.length];
+
+  return {
+    kind: "scripted",
+
+    async generateSubmission({ roundNumber }) {
+      const lines = script.submissions ?? [];
+      if (lines.length === 0) return null;
+      const submission = truncateToLimit(at(lines, roundNumber) ?? "", 140);
+      return submission ? { submission, team_note: "" } : null;
+    },
+
+    async chooseVote({ roundNumber, allowedAliases }) {
+      const aliases = script.votes ?? [];
+      if (aliases.length === 0) return null;
+      const preferred = at(aliases, roundNumber);
+      const chosen = preferred && allowedAliases.includes(preferred) ? preferred : aliases.find((a) => allowedAliases.includes(a));
+      return chosen ? { author_alias: chosen, team_note: "" } : null;
+    },
+
+    // Chat lines run on across rounds rather than restarting each round
+    async chat({ roundNumber, messageIndex }) {
+      const lines = script.chat ?? [];
+      if (lines.length === 0) return null;
+      const message = truncateToLimit(lines[(roundNumber - 1 + messageIndex) % lines.length] ?? "", 140);
+      return message ? { message } : null;
+    },
+  };
+}
+
+const MAX_SCRIPT_ENTRIES = 50;
+
+function scriptList(raw: unknown): string[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .filter((v): v is string => typeof v === "string")
+    .slice(0, MAX_SCRIPT_ENTRIES)
+    .map((v) => truncateToLimit(v, 140));
+}
+
+// Provider config for an AI added by a host: settings fields plus an optional script.
+export function parseAIProviderConfig(raw: unknown): { ok: true; config: AIProviderConfig } | { ok: false; error: string } {
+  const result = validateProviderSettings(raw);
+  if (!result.ok) return result;
+  const config: AIProviderConfig = { ...result.settings };
+
+  const script = (raw as { script?: { submissions?: unknown; votes?: unknown; chat?: unknown } }).script;
+  if (config.kind === "scripted" && script) {
+    const submissions = scriptList(script.submissions);
+    const votes = scriptList(script.votes);
+    const chat = scriptList(script.chat);
+    config.script = {
+      ...(submissions ? { submissions } : {}),
+      ...(votes ? { votes } : {}),
+      ...(chat ? { chat } : {}),
+    };
+  }
+  return { ok: true, config };
+}
+
+/**
+ * Canned scripts for scripted AIs that weren't given one inline, keyed by AI
+ * alias with an optional "default". Loaded from AI_SCRIPT_FILE (JSON or YAML):
+ *
+ *   default: { submissions: ["idk"] }
+ *   players:
+ *     Jordan: { submissions: ["first", "second"], votes: ["Alice"], chat: ["wasn't me"] }
+ */
+export interface AIScriptFile {
+  default?: ScriptedAIScript;
+  players?: Record<string, ScriptedAIScript>;
+}
+
+let aiScripts: AIScriptFile | null = null;
+
+export function setAIScripts(scripts: AIScriptFile | null) {
+  aiScripts = scripts;
+}
+
+export function loadAIScriptFile(file: string): AIScriptFile {
+  const text = fs.readFileSync(file, "utf8");
+  const raw = (file.endsWith(".json") ? JSON.parse(text) : parseYaml(text)) as AIScriptFile | null;
+  const toScript = (s: unknown): ScriptedAIScript => {
+    const { submissions, votes, chat } = (s ?? {}) as { submissions?: unknown; votes?: unknown; chat?: unknown };
+    const subs = scriptList(submissions);
+    const vs = scriptList(votes);
+    const lines = scriptList(chat);
+    return { ...(subs ? { submissions: subs } : {}), ...(vs ? { votes: vs } : {}), ...(lines ? { chat: lines } : {}) };
+  };
+  const out: AIScriptFile = {};
+  if (raw?.default) out.default = toScript(raw.default);
+  if (raw?.players) out.players = Object.fromEntries(Object.entries(raw.players).map(([alias, s]) => [alias, toScript(s)]));
+  return out;
+}
+
+function scriptFor(alias: string): ScriptedAIScript {
+  if (aiScripts === null) {
+    const file = process.env.AI_SCRIPT_FILE?.trim();
+    aiScripts = {};
+    if (file) {
+      try {
+        aiScripts = loadAIScriptFile(file);
+      } catch (err) {
+        logger.warn(`Could not load AI_SCRIPT_FILE ${file}: ${String(err)}`);
+      }
+    }
+  }
+  return aiScripts.players?.[alias] ?? aiScripts.default ?? {};
+}
+
+const providerCache = new Map<string, AIModelProvider>();
+
+function cached(key: string, create: () => AIModelProvider): AIModelProvider {
+  let provider = providerCache.get(key);
+  if (!provider) {
+    provider = create();
+    providerCache.set(key, provider);
+  }
+  return provider;
+}
+
+/**
+ * The provider an AI player should use: its own `aiData.provider` if set,
+ * otherwise the game's aiProvider setting. Returns null when the chosen
+ * provider isn't configured (e.g. no OpenAI key), so callers fall back.
+ * An experiment arm's model replaces the game setting's, not a per-AI one.
+ */
+export function resolveAIProvider(game: Game, aiPlayer: Player): AIModelProvider | null {
+  const own = aiPlayer.aiData?.provider;
+  const config: AIProviderConfig = own ?? getGameSettings(game).aiProvider;
+  const armModel = own ? undefined : normalizeOptString(armFor(game, aiPlayer)?.model);
+  const model = armModel ?? normalizeOptString(config.model);
+
+  switch (config.kind) {
+    case "openai": {
+      const apiKey = normalizeOptString(aiPlayer.aiData?.apiKey) ?? normalizeOptString(process.env.OPENAI_API_KEY);
+      if (!apiKey) return null;
+      const resolvedModel = model ?? normalizeOptString(process.env.OPENAI_MODEL) ?? DEFAULT_OPENAI_MODEL;
+      return cached(`openai|${apiKey}|${resolvedModel}`, () => createOpenAIProvider(new OpenAI({ apiKey }), resolvedModel));
+    }
+    case "local": {
+      const baseURL = normalizeOptString(config.baseUrl) ?? normalizeOptString(process.env.LOCAL_LLM_BASE_URL);
+      if (!baseURL) return null;
+      // Most local servers ignore the key, but the SDK requires one
+      const apiKey = normalizeOptString(aiPlayer.aiData?.apiKey) ?? normalizeOptString(process.env.LOCAL_LLM_API_KEY) ?? "local";
+      const resolvedModel = model ?? normalizeOptString(process.env.LOCAL_LLM_MODEL) ?? DEFAULT_LOCAL_MODEL;
+      return cached(`local|${baseURL}|${apiKey}|${resolvedModel}`, () =>
+        createLocalProvider(new OpenAI({ apiKey, baseURL }), resolvedModel)
+      );
+    }
+    case "scripted":
+      return createScriptedProvider(config.script ?? scriptFor(aiPlayer.alias));
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,123 @@
+// server/game/aiRoles.ts
+import type { AIRole, AIRoundPlan, Game } from "./gameTypes";
+import type { Rng } from "./rng";
+import { derivedRng, pickWith, shuffleWith } from "./rng";
+
+/**
+ * Team-level round planning. Each round the impostor team splits its AIs over
+ * complementary roles so they don't all write the same kind of line, and steers
+ * away from roles that keep getting voted out.
+ */
+
+type TeamMemory = NonNullable<Game["aiTeamMemory"]>[string];
+type RoleStats = NonNullable<TeamMemory["roleStats"]>;
+
+export interface RoleStyle {
+  // Multiplier on the human median length
+  lengthFactor: number;
+  // Allowed distance from the target length, in chars
+  lengthWindow: number;
+  // Passed to the model with the round context
+  brief: string;
+}
+
+// Listed in the order they're handed out when nothing is known yet
+export const AI_ROLES: readonly AIRole[] = ["MIMIC", "VAGUE", "BOLD"];
+
+export const ROLE_STYLES: Record<AIRole, RoleStyle> = {
+  MIMIC: {
+    lengthFactor: 1,
+    lengthWindow: 10,
+    brief: "Blend in: match the group's length, casing, punctuation and wording as closely as you can without repeating a line.",
+  },
+  VAGUE: {
+    lengthFactor: 0.7,
+    lengthWindow: 8,
+    brief: "Stay noncommittal: a short, generic take that fits the prompt but gives nobody anything to pick at.",
+  },
+  BOLD: {
+    lengthFactor: 1.25,
+    lengthWindow: 20,
+    brief: "Take a stance: commit to one specific, opinionated detail like a confident player would, in the group's casual style.",
+  },
+};
+
+// Smoothed elimination rate, so a role played once isn't written off
+export function roleRisk(stats: RoleStats, role: AIRole): number {
+  const s = stats[role];
+  return ((s?.eliminated ?? 0) + 1) / ((s?.played ?? 0) + 2);
+}
+
+// Voted out at least twice and in most rounds it was played
+function isBenched(stats: RoleStats, role: AIRole): boolean {
+  const s = stats[role];
+  return !!s && s.eliminated >= 2 && s.eliminated * 2 > s.played;
+}
+
+/**
+ * Roles in the order they should be handed out: safest first. Benched roles are
+ * left out unless every role is benched.
+ */
+export function rankRoles(stats: RoleStats): AIRole[] {
+  const ranked = [...AI_ROLES].sort((a, b) => roleRisk(stats, a) - roleRisk(stats, b));
+  const active = ranked.filter((r) => !isBenched(stats, r));
+  return active.length > 0 ? active : ranked;
+}
+
+/**
+ * Assign a role to each AI. With more AIs than roles the ranking wraps around,
+ * so the safest role is the one that doubles up. Which AI gets which role is
+ * shuffled per round (reproducibly from the game seed) so nobody is stuck with one.
+ */
+export function assignRoles(game: Game, stats: RoleStats, aiIds: readonly string[], roundNumber: number): Record<string, AIRole> {
+  const ranked = rankRoles(stats);
+  const order = shuffleWith(derivedRng(game, `roles:${game.match ?? 0}:${roundNumber}`), [...aiIds].sort());
+  const roles: Record<string, AIRole> = {};
+  order.forEach((id, i) => {
+    roles[id] = ranked[i % ranked.length]!;
+  });
+  return roles;
+}
+
+/**
+ * This AI's role for the round. The whole team is planned the first time any of
+ * its AIs asks; an AI missing from the plan (e.g. added mid-round) gets the safest role.
+ */
+export function roleFor(game: Game, teamMem: TeamMemory, plan: AIRoundPlan, teamId: string, playerId: string, roundNumber: number): AIRole {
+  const stats = teamMem.roleStats ?? {};
+  if (Object.keys(plan.roles).length === 0) {
+    const teamAIs = game.players
+      .filter((p) => p.isAI && p.alive && (p.aiData?.teamId ?? "impostors") === teamId)
+      .map((p) => p.playerId);
+    plan.roles = assignRoles(game, stats, teamAIs, roundNumber);
+  }
+  return (plan.roles[playerId] ??= rankRoles(stats)[0]!);
+}
+
+// Count the round's outcome for every role that was played in it (once per plan)
+export function recordRoleOutcomes(teamMem: TeamMemory, plan: AIRoundPlan, eliminatedIds: readonly string[]): void {
+  if (plan.rolesScored || Object.keys(plan.roles).length === 0) return;
+  plan.rolesScored = true;
+  const stats = (teamMem.roleStats ??= {});
+  for (const [playerId, role] of Object.entries(plan.roles)) {
+    const s = (stats[role] ??= { played: 0, eliminated: 0 });
+    s.played += 1;
+    if (eliminatedIds.includes(playerId)) s.eliminated += 1;
+  }
+}
+
+// The length the role should aim for, given the humans' median
+export function roleTargetChars(role: AIRole, humanMedian: number): number {
+  return Math.max(1, Math.min(140, Math.round(humanMedian * ROLE_STYLES[role].lengthFactor)));
+}
+
+/**
+ * Fallback when no model answers: the human line (from `pool`) that best suits
+ * the role — closest to the median for MIMIC, shortest for VAGUE, longest for BOLD.
+ */
+export function pickSampleForRole(pool: readonly string[], role: AIRole, humanMedian: number, rng: Rng): string {
+  const score = (line: string) =>
+    role === "MIMIC" ? Math.abs(line.length - humanMedian) : role === "VAGUE" ? line.length : -line.length;
+  const best = Math.min(...pool.map(score));
+  return pickWith(rng, pool.filter((line) => score(line) === best));
+}
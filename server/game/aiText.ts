@@ -0,0 +1,153 @@
+// server/game/aiText.ts
+// Text helpers shared by AI players and model providers.
+
+export function cleanSingleLine(s: string): string {
+  return s.replace(/[\r\n]+/g, " ").replace(/\s+/g, " ").trim();
+}
+
+export function truncateToLimit(s: string, limit: number): string {
+  const t = cleanSingleLine(s);
+  if (t.length <= limit) return t;
+  const cut = t.slice(0, limit);
+  const lastSpace = cut.lastIndexOf(" ");
+  if (lastSpace >= Math.floor(limit * 0.6)) return cut.slice(0, lastSpace).trim();
+  return cut.trim();
+}
+
+// Robustly extract and parse a JSON object from possibly messy model output
+function extractFirstJsonObject(text: string): string | null {
+  if (!text) return null;
+  // Prefer fenced code blocks if present
+  const fence = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  if (fence && fence[1]) return fence[1].trim();
+
+  // If the whole text looks like JSON, try it as-is
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") && trimmed.endsWith("}")) return trimmed;
+
+  // Scan for the first balanced {...} region, ignoring braces inside strings
+  let depth = 0;
+  let inString = false;
+  let escape = false;
+  let start = -1;
+  for (let i = 0; i < trimmed.length; i++) {
+    const ch = trimmed[i] ?? "";
+    if (inString) {
+      if (escape) {
+        escape = false;
+      } else if (ch === "\\") {
+        escape = true;
+      } else if (ch === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+      continue;
+    }
+    if (ch === "{") {
+      if (depth === 0) start = i;
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0 && start >= 0) {
+        return trimmed.slice(start, i + 1).trim();
+      }
+    }
+  }
+  return null;
+}
+
+export function parseJSONFromText<T = unknown>(text: string): T | null {
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as T;
+  } catch (_) {
+    // ignore and try extraction
+  }
+  const candidate = extractFirstJsonObject(text);
+  if (!candidate) return null;
+  try {
+    return JSON.parse(candidate) as T;
+  } catch (_) {
+    return null;
+  }
+}
+
+export function median(nums: number[]): number {
+  if (nums.length === 0) return 0;
+  const sorted = [...nums].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  if (sorted.length % 2 === 0) return Math.floor(((sorted[mid - 1] ?? 0) + (sorted[mid] ?? 0)) / 2);
+  return sorted[mid] ?? 0;
+}
+
+// Shape of a set of lines (the human submissions of a round) that AIs try to blend into
+export function styleProfile(contents: string[], targetAlias: string) {
+  const cleaned = contents.map((s) => (s ?? "").toString());
+  const lengths = cleaned.map((s) => s.length);
+  const med = median(lengths);
+  const minLen = lengths.length ? Math.min(...lengths) : 0;
+  const maxLen = lengths.length ? Math.max(...lengths) : 0;
+
+  const punctRe = /[.?!,;:"'()[\]{}]/;
+  const emojiRe = /[\u{1F300}-\u{1FAFF}]/u;
+
+  let noPunct = 0;
+  let allLower = 0;
+  let hasEmoji = 0;
+  let mentionsTarget = 0;
+
+  const target = (targetAlias ?? "").trim().toLowerCase();
+
+  for (const s of cleaned) {
+    if (!punctRe.test(s)) noPunct += 1;
+    if (s === s.toLowerCase()) allLower += 1;
+    if (emojiRe.test(s)) hasEmoji += 1;
+    if (target && s.toLowerCase().includes(target)) mentionsTarget += 1;
+  }
+
+  const n = cleaned.length || 1;
+
+  return {
+    count: cleaned.length,
+    medianLength: med,
+    minLength: minLen,
+    maxLength: maxLen,
+    noPunctuationRate: noPunct / n,
+    allLowercaseRate: allLower / n,
+    emojiRate: hasEmoji / n,
+    mentionsTargetRate: mentionsTarget / n,
+    examples: cleaned.slice(0, 8),
+  };
+}
+
+export type StyleProfile = ReturnType<typeof styleProfile>;
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9']+/).filter(Boolean));
+}
+
+// Jaccard overlap of the two lines' words, 0..1
+export function similarity(a: string, b: string): number {
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return 0;
+  let shared = 0;
+  for (const w of wa) if (wb.has(w)) shared++;
+  return shared / (wa.size + wb.size - shared);
+}
+
+/**
+ * How bot-like a submission looks: near-copies of another answer and throwaway
+ * answers rank highest.
+ */
+export function suspicionScore(content: string, others: string[]): number {
+  let score = 0;
+  const maxSimilarity = Math.max(0, ...others.map((o) => similarity(content, o)));
+  if (maxSimilarity >= 0.8) score += 2;
+  else if (maxSimilarity >= 0.5) score += 1;
+  if (content.trim().length < 6) score += 1;
+  return score;
+}
@@ -0,0 +1,100 @@
+// server/game/aiTiming.ts
+import type { Game, GameEvent } from "./gameTypes";
+import type { Rng } from "./rng";
+import { median } from "./aiText";
+import { pickWith } from "./rng";
+
+/**
+ * When AIs hand in their line. Delays are sampled from how long the humans of
+ * this game took (from the event log), split into thinking time and typing time
+ * so a longer line takes longer to "type".
+ */
+
+export interface TimingSample {
+  // Time from round start to submission
+  elapsedMs: number;
+  chars: number;
+}
+
+// Roughly 45 words a minute
+export const DEFAULT_MS_PER_CHAR = 250;
+// Below this many human samples the prior is used instead
+const MIN_SAMPLES = 3;
+// Keep clear of the very start and end of the window
+const EDGE_MS = 1500;
+
+/** Every text submission in the log with its time since round start, human or AI. */
+export function submissionTimings(game: Game): Array<TimingSample & { playerId: string; roundNumber: number; match: number; order: number }> {
+  const starts = new Map<string, GameEvent>();
+  const counts = new Map<string, number>();
+  const out: Array<TimingSample & { playerId: string; roundNumber: number; match: number; order: number }> = [];
+  for (const e of game.events ?? []) {
+    const key = "roundNumber" in e ? `${e.match}:${e.roundNumber}` : "";
+    if (e.type === "ROUND_STARTED" && e.roundType === "TEXT") starts.set(key, e);
+    if (e.type !== "SUBMISSION" || e.missed) continue;
+    const start = starts.get(key);
+    if (!start) continue;
+    const order = counts.get(key) ?? 0;
+    counts.set(key, order + 1);
+    out.push({
+      playerId: e.playerId,
+      roundNumber: e.roundNumber,
+      match: e.match,
+      order,
+      elapsedMs: e.at - start.at,
+      chars: e.content.length,
+    });
+  }
+  return out;
+}
+
+// Human text submissions seen so far in this game
+export function observedHumanTimings(game: Game): TimingSample[] {
+  const humans = new Set(game.players.filter((p) => !p.isAI).map((p) => p.playerId));
+  return submissionTimings(game)
+    .filter((t) => humans.has(t.playerId))
+    .map(({ elapsedMs, chars }) => ({ elapsedMs, chars }));
+}
+
+// Typing speed implied by the samples (least-squares slope), kept within sane bounds
+export function estimateMsPerChar(samples: TimingSample[]): number {
+  if (samples.length < MIN_SAMPLES) return DEFAULT_MS_PER_CHAR;
+  const mc = samples.reduce((a, s) => a + s.chars, 0) / samples.length;
+  const me = samples.reduce((a, s) => a + s.elapsedMs, 0) / samples.length;
+  let cov = 0;
+  let varC = 0;
+  for (const s of samples) {
+    cov += (s.chars - mc) * (s.elapsedMs - me);
+    varC += (s.chars - mc) ** 2;
+  }
+  if (varC === 0) return DEFAULT_MS_PER_CHAR;
+  return Math.min(600, Math.max(80, cov / varC));
+}
+
+/**
+ * Delay from round start for an AI that expects to write about `expectedChars`:
+ * a human's thinking time (one observed sample, minus its typing) plus the
+ * typing time of the AI's own line, with some jitter.
+ */
+export function sampleSubmitDelay(samples: TimingSample[], windowMs: number, expectedChars: number, rng: Rng): number {
+  let delay: number;
+  if (samples.length >= MIN_SAMPLES) {
+    const msPerChar = estimateMsPerChar(samples);
+    const sample = pickWith(rng, samples);
+    const thinkMs = Math.max(1000, sample.elapsedMs - sample.chars * msPerChar);
+    delay = (thinkMs + expectedChars * msPerChar) * (0.85 + rng() * 0.3);
+  } else {
+    delay = windowMs * (0.2 + rng() * 0.5);
+  }
+  return Math.round(Math.min(Math.max(delay, EDGE_MS), Math.max(EDGE_MS, windowMs - EDGE_MS)));
+}
+
+// Length an AI can expect to write, from the human lines seen so far
+export function expectedChars(samples: TimingSample[]): number {
+  return samples.length > 0 ? median(samples.map((s) => s.chars)) : 30;
+}
+
+// Time to read the newest line and type a reply, for an AI that was waiting on context
+export function catchUpDelay(chars: number, rng: Rng): number {
+  return Math.round(1500 + rng() * 2500 + chars * DEFAULT_MS_PER_CHAR * (0.5 + rng() * 0.5));
+}
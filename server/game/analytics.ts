@@ -0,0 +1,211 @@
+// server/game/analytics.ts
+import type { Game } from "./gameTypes";
+import { styleProfile } from "./aiText";
+import type { TrainingRecord } from "./trainingExport";
+import { buildTrainingRecords } from "./trainingExport";
+import { submissionTimings } from "./aiTiming";
+
+/**
+ * Detection metrics for AI players, aggregated over every game the server
+ * knows about. Built from the same per-submission records as the training export.
+ */
+
+// How far an AI line strays from the round's human style; 0 = blends in
+export interface StyleFeatures {
+  lengthDeviation: number;
+  casingMismatch: number;
+  punctuationMismatch: number;
+}
+
+export type StyleFeature = keyof StyleFeatures;
+
+export interface AIGroupMetrics {
+  key: string;
+  submissions: number;
+  // Mean share of the round's human voters who voted for the AI's submission
+  humanVoteShare: number;
+  // Share of AI submissions whose author was eliminated that round
+  eliminationRate: number;
+  // Completed rounds an AI lasted per match, averaged over (AI, match) pairs
+  avgRoundsSurvived: number;
+  meanReward: number;
+  // Pearson correlation of each feature with humanVoteShare; null without enough spread
+  styleCorrelations: Record<StyleFeature, number | null>;
+  meanStyle: StyleFeatures;
+}
+
+export interface TimingStats {
+  submissions: number;
+  // Time from round start to submission
+  medianMs: number;
+  p10Ms: number;
+  p90Ms: number;
+  // Share of these submissions that came first / last in their round
+  firstShare: number;
+  lastShare: number;
+}
+
+export interface SubmissionTimingReport {
+  human: TimingStats;
+  ai: TimingStats;
+  // Share of AI submissions outside the humans' 10th-90th percentile
+  aiOutsideHumanRange: number;
+}
+
+export interface AnalyticsReport {
+  generatedAt: number;
+  games: number;
+  submissions: number;
+  byAlias: AIGroupMetrics[];
+  byProvider: AIGroupMetrics[];
+  byModel: AIGroupMetrics[];
+  // Experiment arms; empty when no experiment has run
+  byArm: AIGroupMetrics[];
+  // Text rounds only; AIs shouldn't stand out by when they submit
+  timing: SubmissionTimingReport;
+}
+
+const STYLE_FEATURES: StyleFeature[] = ["lengthDeviation", "casingMismatch", "punctuationMismatch"];
+const PUNCT_RE = /[.?!,;:"'()[\]{}]/;
+
+export function styleFeatures(completion: string, humanSubmissions: string[]): StyleFeatures {
+  const prof = styleProfile(humanSubmissions, "");
+  const isLower = completion === completion.toLowerCase() ? 1 : 0;
+  const noPunct = PUNCT_RE.test(completion) ? 0 : 1;
+  return {
+    lengthDeviation: prof.medianLength > 0 ? Math.abs(completion.length - prof.medianLength) / prof.medianLength : 0,
+    casingMismatch: Math.abs(isLower - prof.allLowercaseRate),
+    punctuationMismatch: Math.abs(noPunct - prof.noPunctuationRate),
+  };
+}
+
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 3) return null;
+  const mean = (vs: number[]) => vs.slice(0, n).reduce((a, b) => a + b, 0) / n;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let cov = 0;
+  let vx = 0;
+  let vy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i]! - mx;
+    const dy = ys[i]! - my;
+    cov += dx * dy;
+    vx += dx * dx;
+    vy += dy * dy;
+  }
+  if (vx === 0 || vy === 0) return null;
+  return cov / Math.sqrt(vx * vy);
+}
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+function voteShare(r: TrainingRecord): number {
+  return r.humanVoters > 0 ? r.humanVotesReceived / r.humanVoters : 0;
+}
+
+function groupMetrics(key: string, records: TrainingRecord[]): AIGroupMetrics {
+  const n = records.length;
+  const shares = records.map(voteShare);
+  // Image rounds have no text style to compare against
+  const textRecords = records.filter((r) => r.roundType === "TEXT");
+  const features = textRecords.map((r) => styleFeatures(r.completion, r.humanSubmissions));
+  const textShares = textRecords.map(voteShare);
+
+  // A submission that wasn't eliminated is a round survived
+  const survivedByMatch = new Map<string, number>();
+  for (const r of records) {
+    const k = `${r.gameCode}:${r.match}:${r.aiPlayerId}`;
+    survivedByMatch.set(k, (survivedByMatch.get(k) ?? 0) + (r.eliminated ? 0 : 1));
+  }
+  const survived = Array.from(survivedByMatch.values());
+
+  const styleCorrelations = {} as Record<StyleFeature, number | null>;
+  const meanStyle = {} as StyleFeatures;
+  for (const f of STYLE_FEATURES) {
+    const values = features.map((x) => x[f]);
+    const r = pearson(values, textShares);
+    styleCorrelations[f] = r == null ? null : round3(r);
+    meanStyle[f] = values.length > 0 ? round3(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+  }
+
+  return {
+    key,
+    submissions: n,
+    humanVoteShare: round3(shares.reduce((a, b) => a + b, 0) / n),
+    eliminationRate: round3(records.filter((r) => r.eliminated).length / n),
+    avgRoundsSurvived: round3(survived.reduce((a, b) => a + b, 0) / survived.length),
+    meanReward: round3(records.reduce((a, r) => a + r.reward, 0) / n),
+    styleCorrelations,
+    meanStyle,
+  };
+}
+
+function groupBy(records: TrainingRecord[], keyOf: (r: TrainingRecord) => string): AIGroupMetrics[] {
+  const groups = new Map<string, TrainingRecord[]>();
+  for (const r of records) {
+    const key = keyOf(r);
+    const list = groups.get(key) ?? [];
+    list.push(r);
+    groups.set(key, list);
+  }
+  return Array.from(groups, ([key, list]) => groupMetrics(key, list)).sort((a, b) => b.submissions - a.submissions);
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))))]!;
+}
+
+function timingStats(list: Array<{ elapsedMs: number; first: boolean; last: boolean }>): TimingStats {
+  const sorted = list.map((t) => t.elapsedMs).sort((a, b) => a - b);
+  const n = list.length || 1;
+  return {
+    submissions: list.length,
+    medianMs: quantile(sorted, 0.5),
+    p10Ms: quantile(sorted, 0.1),
+    p90Ms: quantile(sorted, 0.9),
+    firstShare: round3(list.filter((t) => t.first).length / n),
+    lastShare: round3(list.filter((t) => t.last).length / n),
+  };
+}
+
+export function computeTimingReport(games: Game[]): SubmissionTimingReport {
+  const human: Array<{ elapsedMs: number; first: boolean; last: boolean }> = [];
+  const ai: Array<{ elapsedMs: number; first: boolean; last: boolean }> = [];
+  for (const game of games) {
+    const timings = submissionTimings(game);
+    const perRound = new Map<string, number>();
+    for (const t of timings) perRound.set(`${t.match}:${t.roundNumber}`, (perRound.get(`${t.match}:${t.roundNumber}`) ?? 0) + 1);
+    for (const t of timings) {
+      const isAI = !!game.players.find((p) => p.playerId === t.playerId)?.isAI;
+      const entry = { elapsedMs: t.elapsedMs, first: t.order === 0, last: t.order === perRound.get(`${t.match}:${t.roundNumber}`)! - 1 };
+      (isAI ? ai : human).push(entry);
+    }
+  }
+  const humanStats = timingStats(human);
+  const outside = ai.filter((t) => t.elapsedMs < humanStats.p10Ms || t.elapsedMs > humanStats.p90Ms).length;
+  return {
+    human: humanStats,
+    ai: timingStats(ai),
+    aiOutsideHumanRange: human.length > 0 && ai.length > 0 ? round3(outside / ai.length) : 0,
+  };
+}
+
+export function computeAnalytics(games: Game[], now = Date.now()): AnalyticsReport {
+  const records = games.flatMap((g) => buildTrainingRecords(g));
+  return {
+    generatedAt: now,
+    games: games.length,
+    submissions: records.length,
+    byAlias: groupBy(records, (r) => r.aiAlias),
+    byProvider: groupBy(records, (r) => r.provider ?? "fallback"),
+    byModel: groupBy(records, (r) => (r.model ? `${r.provider}/${r.model}` : r.provider ?? "fallback")),
+    byArm: groupBy(
+      records.filter((r) => r.arm),
+      (r) => r.arm!
+    ),
+    timing: computeTimingReport(games),
+  };
+}
@@ -0,0 +1,118 @@
+// server/game/chat.ts
+import type { ChatMessage, Game, PublicChatMessage, Round, ToxicityAssessment } from "./gameTypes";
+import { randomUUID } from "crypto";
+import { truncateToLimit } from "./aiText";
+import { recordEvent } from "./gameEvents";
+import { schedulerFor } from "./scheduler";
+import { recordModeration } from "./moderationLog";
+import { assessText } from "./toxicity";
+
+/**
+ * Discussion chat during ROUND_DISCUSSION. Humans and AIs post through the same
+ * path: lines are scored for toxicity before anyone sees them, kept on the round
+ * and in the event log, and broadcast by color only.
+ */
+
+export const MAX_CHAT_CHARS = 200;
+// Per player, so nobody can flood the panel
+export const CHAT_MIN_INTERVAL_MS = 1500;
+// Keeps a persisted round bounded
+export const MAX_CHAT_MESSAGES = 300;
+
+export type ChatResult = { ok: true; message: ChatMessage } | { ok: false; error: string };
+
+let broadcastCallback: ((game: Game, roundNumber: number, message: PublicChatMessage) => void) | null = null;
+
+export function setChatBroadcastCallback(callback: ((game: Game, roundNumber: number, message: PublicChatMessage) => void) | null) {
+  broadcastCallback = callback;
+}
+
+// "<code>:<playerId>" for messages still being scored; they count against the rate limit
+const inFlight = new Set<string>();
+
+export function toPublicChatMessage(message: ChatMessage): PublicChatMessage {
+  return {
+    messageId: message.messageId,
+    colorId: message.colorId,
+    text: message.text,
+    at: message.at,
+    ...(message.filtered ? { filtered: true } : {}),
+  };
+}
+
+export function publicChat(round: Round): PublicChatMessage[] {
+  return (round.chat ?? []).map(toPublicChatMessage);
+}
+
+function discussionRound(game: Game): Round | undefined {
+  const round = game.rounds[game.rounds.length - 1];
+  return game.state === "ROUND_DISCUSSION" && round?.status === "DISCUSSING" ? round : undefined;
+}
+
+/**
+ * Post a line to the current discussion as `playerId`. A line the toxicity
+ * service flags is kept, but only its replacement text is ever shown.
+ */
+export async function postChatMessage(game: Game, playerId: string, rawText: string): Promise<ChatResult> {
+  const round = discussionRound(game);
+  if (!round) return { ok: false, error: "There is no discussion right now" };
+
+  const player = game.players.find((p) => p.playerId === playerId);
+  if (!player || !player.alive || !round.participantIds.includes(playerId)) {
+    return { ok: false, error: "Only players in this round can chat" };
+  }
+
+  const text = truncateToLimit(rawText ?? "", MAX_CHAT_CHARS);
+  if (!text) return { ok: false, error: "Message is empty" };
+
+  const key = `${game.code}:${playerId}`;
+  const now = schedulerFor(game).now();
+  const chat = round.chat ?? [];
+  const last = chat.filter((m) => m.playerId === playerId).pop();
+  if (inFlight.has(key) || (last && now - last.at < CHAT_MIN_INTERVAL_MS)) {
+    return { ok: false, error: "You're sending messages too quickly" };
+  }
+  if (chat.length >= MAX_CHAT_MESSAGES) return { ok: false, error: "The discussion is full" };
+
+  inFlight.add(key);
+  let assessment: ToxicityAssessment;
+  try {
+    assessment = await assessText(game, text);
+  } finally {
+    inFlight.delete(key);
+  }
+  // The phase may have ended while the line was being scored
+  if (discussionRound(game) !== round) return { ok: false, error: "The discussion is over" };
+
+  const message: ChatMessage = {
+    messageId: randomUUID(),
+    playerId,
+    colorId: player.colorId,
+    text: assessment.isToxic ? assessment.replacedText : text,
+    at: schedulerFor(game).now(),
+    ...(assessment.isToxic ? { filtered: true } : {}),
+  };
+  (round.chat ??= []).push(message);
+  if (assessment.isToxic) {
+    recordModeration(game, {
+      roundNumber: round.roundNumber,
+      playerId,
+      source: "CHAT",
+      text,
+      action: "MASKED",
+      scores: assessment.scores,
+      ...(assessment.summary ? { summary: assessment.summary } : {}),
+    });
+  }
+  recordEvent(game, {
+    type: "CHAT_MESSAGE",
+    roundNumber: round.roundNumber,
+    messageId: message.messageId,
+    playerId,
+    text: message.text,
+    ...(message.filtered ? { filtered: true } : {}),
+  });
+
+  if (broadcastCallback) broadcastCallback(game, round.roundNumber, toPublicChatMessage(message));
+  return { ok: true, message };
+}
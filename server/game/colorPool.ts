@@ -1,4 +1,5 @@
 import type { Game } from "./gameTypes";
+import { gameRng } from "./rng";
 
 const COLOR_POOL = [
   "red",
@@ -20,7 +21,7 @@ export function assignColor(game: Game): string {
   const available = COLOR_POOL.filter((c) => !used.has(c));
   if (available.length > 0) {
     // Pick a random color from the available pool
-    const idx = Math.floor(Math.random() * available.length);
+    const idx = Math.floor(gameRng(game)() * available.length);
     return available[idx]!;
   }
 
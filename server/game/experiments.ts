@@ -0,0 +1,143 @@
+// server/game/experiments.ts
+import fs from "fs";
+import { parse as parseYaml } from "yaml";
+import type { ExperimentArm, Game, Player } from "./gameTypes";
+import { derivedRng } from "./rng";
+import logger from "../config/loggerWinston";
+
+/**
+ * A/B test of AI prompting. Each AI player is assigned one arm per game, at
+ * random (weighted, reproducible from the game seed), and keeps it for the
+ * whole game. Loaded from AI_EXPERIMENTS_FILE (JSON or YAML):
+ *
+ *   name: casual-vs-control
+ *   arms:
+ *     - id: control
+ *     - id: casual
+ *       weight: 2
+ *       instructions: "Write like a bored teenager. Aim for {minChars}-{maxChars} chars. Return JSON only: ..."
+ *       temperature: 1.1
+ *       lengthWindow: 8
+ *
+ * Fields left out of an arm keep the provider's defaults.
+ */
+export interface Experiment {
+  name: string;
+  arms: ExperimentArm[];
+}
+
+const ARM_ID_RE = /^[\w.-]{1,40}$/;
+
+function optNumber(raw: unknown, min: number, max: number): number | undefined {
+  return typeof raw === "number" && Number.isFinite(raw) && raw >= min && raw <= max ? raw : undefined;
+}
+
+function optString(raw: unknown, max: number): string | undefined {
+  return typeof raw === "string" && raw.trim() ? raw.trim().slice(0, max) : undefined;
+}
+
+export function validateExperiment(raw: unknown): { ok: true; experiment: Experiment } | { ok: false; error: string } {
+  const r = (raw ?? {}) as { name?: unknown; arms?: unknown };
+  const name = optString(r.name, 60);
+  if (!name || !ARM_ID_RE.test(name)) return { ok: false, error: "experiment name must match [A-Za-z0-9_.-]{1,40}" };
+  if (!Array.isArray(r.arms) || r.arms.length === 0) return { ok: false, error: "experiment needs at least one arm" };
+
+  const arms: ExperimentArm[] = [];
+  for (const rawArm of r.arms as Array<Record<string, unknown>>) {
+    const id = optString(rawArm?.id, 40);
+    if (!id || !ARM_ID_RE.test(id)) return { ok: false, error: `invalid arm id ${JSON.stringify(rawArm?.id)}` };
+    if (arms.some((a) => a.id === id)) return { ok: false, error: `duplicate arm id ${id}` };
+
+    const arm: ExperimentArm = { id };
+    const weight = optNumber(rawArm.weight, 0, 1000);
+    const instructions = optString(rawArm.instructions, 4000);
+    const voteInstructions = optString(rawArm.voteInstructions, 4000);
+    const temperature = optNumber(rawArm.temperature, 0, 2);
+    const voteTemperature = optNumber(rawArm.voteTemperature, 0, 2);
+    const model = optString(rawArm.model, 100);
+    const lengthWindow = optNumber(rawArm.lengthWindow, 0, 140);
+    if (weight !== undefined) arm.weight = weight;
+    if (instructions) arm.instructions = instructions;
+    if (voteInstructions) arm.voteInstructions = voteInstructions;
+    if (temperature !== undefined) arm.temperature = temperature;
+    if (voteTemperature !== undefined) arm.voteTemperature = voteTemperature;
+    if (model) arm.model = model;
+    if (lengthWindow !== undefined) arm.lengthWindow = Math.round(lengthWindow);
+    arms.push(arm);
+  }
+  if (arms.every((a) => (a.weight ?? 1) === 0)) return { ok: false, error: "at least one arm needs a positive weight" };
+  return { ok: true, experiment: { name, arms } };
+}
+
+export function loadExperimentFile(file: string): Experiment {
+  const text = fs.readFileSync(file, "utf8");
+  const result = validateExperiment(file.endsWith(".json") ? JSON.parse(text) : parseYaml(text));
+  if (!result.ok) throw new Error(result.error);
+  return result.experiment;
+}
+
+// undefined = not loaded yet; null = no experiment running
+let experiment: Experiment | null | undefined;
+
+export function setExperiment(next: Experiment | null) {
+  experiment = next;
+}
+
+export function getExperiment(): Experiment | null {
+  if (experiment === undefined) {
+    experiment = null;
+    const file = process.env.AI_EXPERIMENTS_FILE?.trim();
+    if (file) {
+      try {
+        experiment = loadExperimentFile(file);
+        logger.info(`Running AI experiment ${experiment.name} (${experiment.arms.map((a) => a.id).join(", ")})`);
+      } catch (err) {
+        logger.warn(`Could not load AI_EXPERIMENTS_FILE ${file}: ${String(err)}`);
+      }
+    }
+  }
+  return experiment;
+}
+
+/**
+ * The arm this AI plays under, assigning one on first use. Returns null when no
+ * experiment is running; players assigned under an older experiment are re-drawn.
+ */
+export function armFor(game: Game, aiPlayer: Player): ExperimentArm | null {
+  const current = getExperiment();
+  if (!current || !aiPlayer.aiData) return null;
+
+  const assigned = aiPlayer.aiData.experiment;
+  if (assigned?.name === current.name) {
+    const arm = current.arms.find((a) => a.id === assigned.arm);
+    if (arm) return arm;
+  }
+
+  const rng = derivedRng(game, `experiment:${current.name}:${aiPlayer.playerId}`);
+  const total = current.arms.reduce((sum, a) => sum + (a.weight ?? 1), 0);
+  let roll = rng() * total;
+  let arm = current.arms[current.arms.length - 1]!;
+  for (const candidate of current.arms) {
+    roll -= candidate.weight ?? 1;
+    if (roll < 0) {
+      arm = candidate;
+      break;
+    }
+  }
+  aiPlayer.aiData.experiment = { name: current.name, arm: arm.id };
+  return arm;
+}
+
+// "<experiment>/<arm>" label used in logs and analytics
+export function armLabel(aiPlayer: Player): string | undefined {
+  const assigned = aiPlayer.aiData?.experiment;
+  return assigned ? `${assigned.name}/${assigned.arm}` : undefined;
+}
+
+// Fill {targetChars}/{minChars}/{maxChars} in an arm's instruction text
+export function renderInstructions(template: string, targetChars: number, lengthWindow: number): string {
+  return template
+    .replace(/\{targetChars\}/g, String(targetChars))
+    .replace(/\{minChars\}/g, String(Math.max(1, targetChars - lengthWindow)))
+    .replace(/\{maxChars\}/g, String(targetChars + lengthWindow));
+}
@@ -0,0 +1,119 @@
+// server/game/gameEvents.ts
+import type {
+  Game,
+  GameEvent,
+  GameEventPayload,
+  MatchReplay,
+  Player,
+  ReplayPlayer,
+  ReplayRound,
+} from "./gameTypes";
+import { schedulerFor } from "./scheduler";
+
+/**
+ * Every state transition of a game lands in `game.events`, which is saved with
+ * the game itself. The log is never rewritten; a restart just opens a new match.
+ */
+export function recordEvent(game: Game, payload: GameEventPayload): GameEvent {
+  const events = (game.events ??= []);
+  const event = {
+    ...payload,
+    seq: (events[events.length - 1]?.seq ?? 0) + 1,
+    at: schedulerFor(game).now(),
+    match: game.match ?? 0,
+  } as GameEvent;
+  events.push(event);
+  return event;
+}
+
+export function toReplayPlayer(p: Player): ReplayPlayer {
+  return { playerId: p.playerId, alias: p.alias, colorId: p.colorId, isAI: !!p.isAI };
+}
+
+export function recordPlayerJoined(game: Game, player: Player) {
+  recordEvent(game, { type: "PLAYER_JOINED", ...toReplayPlayer(player) });
+}
+
+// Opens the next match; its roster is frozen here so lobby changes can't rewrite history
+export function recordMatchStarted(game: Game) {
+  game.match = (game.match ?? 0) + 1;
+  recordEvent(game, { type: "MATCH_STARTED", players: game.players.map(toReplayPlayer) });
+}
+
+function replayMatch(events: GameEvent[]): MatchReplay | null {
+  const start = events.find((e) => e.type === "MATCH_STARTED");
+  const end = events.find((e) => e.type === "GAME_OVER");
+  if (!start || start.type !== "MATCH_STARTED" || !end || end.type !== "GAME_OVER") return null;
+
+  const rounds = new Map<number, ReplayRound>();
+  const scores: Record<string, number> = {};
+  for (const p of start.players) scores[p.playerId] = 0;
+
+  for (const e of events) {
+    if (e.type === "ROUND_STARTED") {
+      const round: ReplayRound = {
+        roundNumber: e.roundNumber,
+        roundType: e.roundType,
+        targetAlias: e.targetAlias,
+        submissions: [],
+        eliminations: [],
+        scores: { ...scores },
+      };
+      if (e.prompt != null) round.prompt = e.prompt;
+      rounds.set(e.roundNumber, round);
+      continue;
+    }
+    if (!("roundNumber" in e)) continue;
+    const round = rounds.get(e.roundNumber);
+    if (!round) continue;
+
+    switch (e.type) {
+      case "SUBMISSION":
+        round.submissions.push({
+          submissionId: e.submissionId,
+          playerId: e.playerId,
+          content: e.content,
+          missed: !!e.missed,
+          voterIds: [],
+        });
+        break;
+      case "VOTE":
+        round.submissions.find((s) => s.submissionId === e.submissionId)?.voterIds.push(e.voterId);
+        break;
+      case "SCORE_CHANGED":
+        scores[e.playerId] = e.score;
+        round.scores[e.playerId] = e.score;
+        break;
+      case "ELIMINATION":
+        round.eliminations.push({ playerId: e.playerId, reason: e.reason });
+        break;
+    }
+  }
+
+  const replay: MatchReplay = {
+    match: start.match,
+    startedAt: start.at,
+    endedAt: end.at,
+    players: start.players,
+    rounds: Array.from(rounds.values()).sort((a, b) => a.roundNumber - b.roundNumber),
+  };
+  if (end.winner) replay.winner = end.winner;
+  return replay;
+}
+
+/** Replays of every finished match in the game, oldest first. */
+export function buildReplays(game: Game): MatchReplay[] {
+  const byMatch = new Map<number, GameEvent[]>();
+  for (const e of game.events ?? []) {
+    if (e.match === 0) continue;
+    const list = byMatch.get(e.match) ?? [];
+    list.push(e);
+    byMatch.set(e.match, list);
+  }
+  const replays: MatchReplay[] = [];
+  for (const events of byMatch.values()) {
+    const replay = replayMatch(events);
+    if (replay) replays.push(replay);
+  }
+  return replays.sort((a, b) => a.match - b.match);
+}
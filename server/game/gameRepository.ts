@@ -0,0 +1,129 @@
+// server/game/gameRepository.ts
+import fs from "fs";
+import path from "path";
+import type { Game } from "./gameTypes";
+import logger from "../config/loggerWinston";
+
+/**
+ * Persistence backend for games. The store keeps the live objects; a repository
+ * only needs to durably hold snapshots of them.
+ */
+export interface GameRepository {
+  load(code: string): Game | undefined;
+  loadAll(): Game[];
+  save(game: Game): void;
+  remove(code: string): void;
+  // Write out any saves still waiting (on shutdown, or before switching repositories)
+  flush(): void;
+}
+
+export function createMemoryGameRepository(): GameRepository {
+  const games = new Map<string, Game>();
+  return {
+    load: (code) => games.get(code),
+    loadAll: () => Array.from(games.values()),
+    save: (game) => {
+      games.set(game.code, game);
+    },
+    remove: (code) => {
+      games.delete(code);
+    },
+    flush: () => {},
+  };
+}
+
+// Saves of the same game within this window are written once, with its latest state
+const SAVE_DEBOUNCE_MS = (() => {
+  const parsed = parseInt(process.env.GAME_SAVE_DEBOUNCE_MS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 1000;
+})();
+
+// Never written to disk: per-player API keys live only in memory, so an AI
+// restored after a restart falls back to the server's own key
+const SECRET_FIELDS = new Set(["apiKey"]);
+
+function serializeGame(game: Game): string {
+  return JSON.stringify(game, (key, value: unknown) => (SECRET_FIELDS.has(key) ? undefined : value));
+}
+
+/**
+ * One JSON document per game, written atomically (temp file + rename). Saves
+ * are coalesced: the game is written SAVE_DEBOUNCE_MS after the first save in
+ * a burst, so a round's worth of updates costs one write instead of dozens.
+ */
+export function createFileGameRepository(dir: string): GameRepository {
+  fs.mkdirSync(dir, { recursive: true });
+
+  const fileFor = (code: string) => path.join(dir, `${code}.json`);
+  const pending = new Map<string, Game>();
+  let timer: NodeJS.Timeout | null = null;
+
+  function readFile(file: string): Game | undefined {
+    try {
+      return JSON.parse(fs.readFileSync(file, "utf8")) as Game;
+    } catch (err) {
+      logger.warn(`Could not read persisted game ${file}: ${String(err)}`);
+      return undefined;
+    }
+  }
+
+  function write(game: Game) {
+    const file = fileFor(game.code);
+    const tmp = `${file}.tmp`;
+    try {
+      fs.writeFileSync(tmp, serializeGame(game));
+      fs.renameSync(tmp, file);
+    } catch (err) {
+      logger.error(`Could not persist game ${game.code}: ${String(err)}`);
+    }
+  }
+
+  function flush() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    const games = Array.from(pending.values());
+    pending.clear();
+    games.forEach(write);
+  }
+
+  return {
+    load: (code) => {
+      if (pending.has(code)) flush();
+      const file = fileFor(code);
+      return fs.existsSync(file) ? readFile(file) : undefined;
+    },
+    loadAll: () => {
+      flush();
+      const out: Game[] = [];
+      for (const name of fs.readdirSync(dir)) {
+        if (!name.endsWith(".json")) continue;
+        const game = readFile(path.join(dir, name));
+        if (game) out.push(game);
+      }
+      return out;
+    },
+    save: (game) => {
+      pending.set(game.code, game);
+      if (!timer) {
+        timer = setTimeout(flush, SAVE_DEBOUNCE_MS);
+        timer.unref();
+      }
+    },
+    remove: (code) => {
+      pending.delete(code);
+      fs.rmSync(fileFor(code), { force: true });
+    },
+    flush,
+  };
+}
+
+// GAME_STORE=file persists under GAME_STORE_DIR; anything else keeps games in memory only.
+export function createGameRepositoryFromEnv(): GameRepository {
+  const kind = process.env.GAME_STORE?.trim().toLowerCase() || "memory";
+  if (kind === "file") {
+    const dir = process.env.GAME_STORE_DIR?.trim() || path.resolve("data", "games");
+    logger.info(`Using file game store at ${dir}`);
+    return createFileGameRepository(dir);
+  }
+  return createMemoryGameRepository();
+}
@@ -1,12 +1,28 @@
-import type { Game, Round, Submission, Vote } from "./gameTypes";
+import type { ChatMessage, Game, Player, Round, RoundType, ScoreReason, Submission, Vote } from "./gameTypes";
 import { randomUUID } from "crypto";
 import {
   scheduleAIForRound,
   scheduleAIVotesForRound,
+  scheduleAIChatForRound,
   fastTrackAIVotesForRound,
   notifyAIsOfSubmission,
+  notifyAIsOfChat,
   notifyAIsOfElimination,
+  trackAIWork,
 } from "./aiPlayer";
+import { listAllGames, loadAllGames, removeGame } from "./gameStore";
+import { getGameSettings, roundTypeFor } from "./gameSettings";
+import { gameRng, pickWith } from "./rng";
+import { pickRoundPrompt } from "./promptPacks";
+import { disposeScheduler, schedulerFor } from "./scheduler";
+import { recordEvent, recordMatchStarted } from "./gameEvents";
+import { clearTyping, setTyping } from "./typingPresence";
+import { postChatMessage } from "./chat";
+import { isStoredImageUrl, releaseGameImages } from "./imageStore";
+import { hasStockImages } from "./aiImages";
+import { rebuildModerationWhitelist, recordModeration } from "./moderationLog";
+import { banPlayer } from "./playerModeration";
+import { moderateAISubmissions, uncheckedAISubmissions } from "./moderation";
 
 let emitGameUpdateCallback: ((game: Game) => void) | null = null;
 
@@ -14,22 +30,8 @@ export function setEmitGameUpdateCallback(callback: (game: Game) => void) {
   emitGameUpdateCallback = callback;
 }
 
-function pickRandom<T>(arr: readonly T[]): T {
-  if (arr.length === 0) throw new Error("pickRandom called with empty array");
-  const idx = Math.floor(Math.random() * arr.length);
-  return (arr[idx] ?? arr[0]) as T;
-}
-
-function generateRoundPrompt(targetAlias: string): string {
-  const t = targetAlias || "the target";
-  const templates = [
-    `Name one thing ${t} hates.`,
-    `Name what you like about ${t}.`,
-    `What would ${t} say on a bad day?`,
-    `What does ${t} always forget?`,
-    `Write a short sentence about ${t}.`,
-  ];
-  return pickRandom(templates);
+function pickRandom<T>(game: Game, arr: readonly T[]): T {
+  return pickWith(gameRng(game), arr);
 }
 
 function allSubmissionsIn(round: Round): boolean {
@@ -52,52 +54,109 @@ function allHumanVotesIn(game: Game, round: Round): boolean {
   return humanIds.every((pid) => voted.has(pid));
 }
 
-const DEFAULT_SUBMIT_DURATION_MS = process.env.SUBMIT_DURATION_MS
-  ? parseInt(process.env.SUBMIT_DURATION_MS, 10)
-  : 240_000;
-const DEFAULT_VOTE_DURATION_MS = process.env.VOTE_DURATION_MS
-  ? parseInt(process.env.VOTE_DURATION_MS, 10)
-  : 240_000;
+// Phase timers are keyed so re-arming one replaces it; AI timers share the
+// same per-game scheduler but are left to guard themselves on round status.
+const PHASE_TIMERS = ["submit", "discussion", "vote", "results"] as const;
 
-type GameTimers = { submit?: NodeJS.Timeout; vote?: NodeJS.Timeout; results?: NodeJS.Timeout };
-const timers = new Map<string, GameTimers>();
+function clearTimersForGame(game: Game) {
+  const scheduler = schedulerFor(game);
+  for (const key of PHASE_TIMERS) scheduler.cancel(key);
+}
 
-function clearTimersForGame(code: string) {
-  const t = timers.get(code);
-  if (!t) return;
-  if (t.submit) clearTimeout(t.submit);
-  if (t.vote) clearTimeout(t.vote);
-  if (t.results) clearTimeout(t.results);
-  timers.delete(code);
+function endGame(game: Game, winner?: Game["winner"]) {
+  if (winner) game.winner = winner;
+  game.state = "GAME_OVER";
+  recordEvent(game, { type: "GAME_OVER", ...(winner ? { winner } : {}) });
+  disposeScheduler(game.code);
+  if (emitGameUpdateCallback) emitGameUpdateCallback(game);
 }
 
-function scheduleSubmitTimer(game: Game, round: Round, durationMs = DEFAULT_SUBMIT_DURATION_MS) {
-  clearTimersForGame(game.code);
-  round.expiresAt = Date.now() + durationMs;
-  const submitTimer = setTimeout(() => handleSubmitTimeout(game, round), durationMs);
-  timers.set(game.code, { submit: submitTimer });
+function scheduleSubmitTimer(game: Game, round: Round, durationMs = getGameSettings(game).submitDurationMs) {
+  clearTimersForGame(game);
+  const scheduler = schedulerFor(game);
+  round.expiresAt = scheduler.now() + durationMs;
+  scheduler.schedule(() => handleSubmitTimeout(game, round), durationMs, "submit");
   if (emitGameUpdateCallback) emitGameUpdateCallback(game);
 }
 
-function scheduleVoteTimer(game: Game, round: Round, durationMs = DEFAULT_VOTE_DURATION_MS) {
-  round.expiresAt = Date.now() + durationMs;
-  const voteTimer = setTimeout(() => handleVoteTimeout(game, round), durationMs);
-  const cur = timers.get(game.code) ?? {};
-  cur.vote = voteTimer;
-  timers.set(game.code, cur);
+function scheduleDiscussionTimer(game: Game, round: Round, durationMs = getGameSettings(game).discussionDurationMs) {
+  const scheduler = schedulerFor(game);
+  round.expiresAt = scheduler.now() + durationMs;
+  scheduler.schedule(() => handleDiscussionTimeout(game, round), durationMs, "discussion");
   if (emitGameUpdateCallback) emitGameUpdateCallback(game);
 }
 
-function scheduleResultsAdvance(game: Game, delayMs = 3000) {
-  const cur = timers.get(game.code) ?? {};
-  cur.results = setTimeout(() => advanceAfterResults(game), delayMs);
-  timers.set(game.code, cur);
+function scheduleVoteTimer(game: Game, round: Round, durationMs = getGameSettings(game).voteDurationMs) {
+  const scheduler = schedulerFor(game);
+  round.expiresAt = scheduler.now() + durationMs;
+  scheduler.schedule(() => handleVoteTimeout(game, round), durationMs, "vote");
+  if (emitGameUpdateCallback) emitGameUpdateCallback(game);
 }
 
-function enterVotingPhase(game: Game, round: Round) {
-  round.status = "VOTING";
-  game.state = "ROUND_VOTING";
+function scheduleResultsAdvance(game: Game, delayMs = getGameSettings(game).resultsDelayMs) {
+  schedulerFor(game).schedule(() => advanceAfterResults(game), delayMs, "results");
+}
+
+function makeSubmitFn() {
+  return (g: Game, r: Round, sub: Submission) => {
+    if (r.status !== "SUBMITTING") return;
+    if (!r.participantIds.includes(sub.playerId)) return;
+    if (r.submissions.some((s) => s.playerId === sub.playerId)) return; // enforce 1 submission per player
+    r.submissions.push(sub);
+    onSubmissionUpdated(g, r, sub);
+    if (emitGameUpdateCallback) emitGameUpdateCallback(g);
+  };
+}
 
+function makeVoteFn() {
+  return (g: Game, r: Round, vote: Vote) => {
+    if (r.status !== "VOTING") return;
+    if (!r.participantIds.includes(vote.voterId)) return;
+    if (r.votes.some((v) => v.voterId === vote.voterId)) return; // enforce 1 vote per voter
+    if (!r.submissions.some((s) => s.submissionId === vote.submissionId)) return;
+    r.votes.push(vote);
+    onVotesUpdated(g, r);
+    if (emitGameUpdateCallback) emitGameUpdateCallback(g);
+  };
+}
+
+// AI lines go through the same checks and filtering as a human's
+function makeChatFn() {
+  return async (g: Game, r: Round, playerId: string, text: string) => {
+    const result = await postChatMessage(g, playerId, text);
+    if (result.ok) onChatMessage(g, r, result.message);
+  };
+}
+
+// Rounds whose AI lines are being moderated; the round stays SUBMITTING meanwhile, but
+// every participant already has an entry, so nothing more can be submitted
+const moderatingRounds = new WeakSet<Round>();
+
+// Submissions are in (or time is up): discuss first if the game has a discussion phase
+function closeSubmissions(game: Game, round: Round) {
+  if (moderatingRounds.has(round)) return;
+  clearTimersForGame(game);
+  clearTyping(game);
+  addMissingSubmissions(game, round);
+
+  // Nobody sees the AIs' lines before they've been through the same policy as the humans'
+  const unchecked = uncheckedAISubmissions(game, round);
+  if (unchecked.length === 0) return openRoundForVotes(game, round);
+  moderatingRounds.add(round);
+  trackAIWork(
+    moderateAISubmissions(game, round, unchecked).finally(() => {
+      moderatingRounds.delete(round);
+      if (round.status === "SUBMITTING" && game.rounds[game.rounds.length - 1] === round) openRoundForVotes(game, round);
+    })
+  );
+}
+
+function openRoundForVotes(game: Game, round: Round) {
+  if (getGameSettings(game).discussionDurationMs > 0) enterDiscussionPhase(game, round);
+  else enterVotingPhase(game, round);
+}
+
+function addMissingSubmissions(game: Game, round: Round) {
   // Ensure every participant has a submission entry (empty string if they didn't submit).
   // This allows players who didn't submit to be voted on and potentially eliminated.
   for (const pid of round.participantIds ?? []) {
@@ -109,22 +168,39 @@ function enterVotingPhase(game: Game, round: Round) {
         roundNumber: round.roundNumber ?? 0,
       };
       round.submissions.push(placeholder);
+      recordEvent(game, {
+        type: "SUBMISSION",
+        roundNumber: placeholder.roundNumber,
+        submissionId: placeholder.submissionId,
+        playerId: pid,
+        content: "",
+        missed: true,
+      });
     }
   }
+}
+
+function enterDiscussionPhase(game: Game, round: Round) {
+  round.status = "DISCUSSING";
+  game.state = "ROUND_DISCUSSION";
+
+  scheduleDiscussionTimer(game, round);
+
+  try {
+    scheduleAIChatForRound(game, round, makeChatFn());
+  } catch {}
+
+  if (emitGameUpdateCallback) emitGameUpdateCallback(game);
+}
+
+function enterVotingPhase(game: Game, round: Round) {
+  round.status = "VOTING";
+  game.state = "ROUND_VOTING";
 
   scheduleVoteTimer(game, round);
 
   try {
-    const voteFn = (g: Game, r: Round, vote: Vote) => {
-      if (r.status !== "VOTING") return;
-      if (!r.participantIds.includes(vote.voterId)) return;
-      if (r.votes.some((v) => v.voterId === vote.voterId)) return; // enforce 1 vote per voter
-      if (!r.submissions.some((s) => s.submissionId === vote.submissionId)) return;
-      r.votes.push(vote);
-      onVotesUpdated(g, r);
-      if (emitGameUpdateCallback) emitGameUpdateCallback(g);
-    };
-    scheduleAIVotesForRound(game, round, voteFn);
+    scheduleAIVotesForRound(game, round, makeVoteFn());
   } catch {}
 
   if (emitGameUpdateCallback) emitGameUpdateCallback(game);
@@ -132,8 +208,13 @@ function enterVotingPhase(game: Game, round: Round) {
 
 function handleSubmitTimeout(game: Game, round: Round) {
   if (round.status !== "SUBMITTING") return;
+  closeSubmissions(game, round);
+}
 
-  clearTimersForGame(game.code);
+function handleDiscussionTimeout(game: Game, round: Round) {
+  if (round.status !== "DISCUSSING") return;
+
+  clearTimersForGame(game);
   enterVotingPhase(game, round);
 }
 
@@ -142,29 +223,36 @@ function handleVoteTimeout(game: Game, round: Round) {
   finalizeVoting(game, round);
 }
 
+function addScore(game: Game, round: Round, player: Player, delta: number, reason: ScoreReason) {
+  if (delta === 0) return;
+  player.score = (player.score ?? 0) + delta;
+  recordEvent(game, { type: "SCORE_CHANGED", roundNumber: round.roundNumber, playerId: player.playerId, delta, score: player.score, reason });
+}
+
 function finalizeVoting(game: Game, round: Round) {
   if (round.status === "COMPLETED") return;
 
   round.status = "COMPLETED";
+  const settings = getGameSettings(game);
 
   // === SCORING LOGIC ===
-  const PARTITICATION_POINTS = 10;
-  const FAST_BONUSES = [5, 3, 1]; // 1st, 2nd, 3rd place
-  const NO_SUBMISSION_PENALTY = 5;
+  const PARTITICATION_POINTS = settings.scoring.participationPoints;
+  const FAST_BONUSES = settings.scoring.fastBonuses; // 1st, 2nd, 3rd place...
+  const NO_SUBMISSION_PENALTY = settings.scoring.noSubmissionPenalty;
 
   // Get all non-empty submissions sorted by submittedAt for fast bonus calculation
   const submissionsWithTime = round.submissions
     .filter((s) => s.submittedAt != null && s.content.trim().length > 0)
     .sort((a, b) => (a.submittedAt ?? 0) - (b.submittedAt ?? 0));
 
-  // Award fast bonuses to top 3 fastest non-empty submissions
+  // Award fast bonuses to the fastest non-empty submissions
   for (let i = 0; i < Math.min(FAST_BONUSES.length, submissionsWithTime.length); i++) {
     const submission = submissionsWithTime[i];
     const bonus = FAST_BONUSES[i];
     if (!submission || bonus === undefined) continue;
     const player = game.players.find((p) => p.playerId === submission.playerId);
     if (player && submission.content.trim().length > 0) {
-      player.score = (player.score ?? 0) + bonus;
+      addScore(game, round, player, bonus, "FAST_BONUS");
     }
   }
 
@@ -178,22 +266,28 @@ function finalizeVoting(game: Game, round: Round) {
       // Empty submission - increment missed submissions counter
       player.missedSubmissions = (player.missedSubmissions ?? 0) + 1;
       // Apply penalty for no submission
-      player.score = (player.score ?? 0) - NO_SUBMISSION_PENALTY;
+      addScore(game, round, player, -NO_SUBMISSION_PENALTY, "NO_SUBMISSION");
     } else {
       // Non-empty submission - award participation points and reset missed counter
-      player.score = (player.score ?? 0) + PARTITICATION_POINTS;
+      addScore(game, round, player, PARTITICATION_POINTS, "PARTICIPATION");
       player.missedSubmissions = 0;
     }
   }
 
-  // Check for players to eliminate due to 2+ consecutive missed submissions
+  // Check for players to eliminate due to too many consecutive missed submissions
   for (const player of game.players) {
-    if (player.alive && (player.missedSubmissions ?? 0) >= 2) {
+    if (player.alive && (player.missedSubmissions ?? 0) >= settings.missedSubmissionLimit) {
       player.alive = false;
       round.eliminatedPlayerIds = round.eliminatedPlayerIds ?? [];
       if (!round.eliminatedPlayerIds.includes(player.playerId)) {
         round.eliminatedPlayerIds.push(player.playerId);
       }
+      recordEvent(game, {
+        type: "ELIMINATION",
+        roundNumber: round.roundNumber,
+        playerId: player.playerId,
+        reason: "MISSED_SUBMISSIONS",
+      });
     }
   }
   // === END SCORING LOGIC ===
@@ -213,9 +307,11 @@ function finalizeVoting(game: Game, round: Round) {
     }
   }
 
-  // If there is a multi-way tie for the highest votes, do NOT eliminate anyone — skip elimination for this round.
+  // Multi-way tie for the highest votes: resolve according to the game's tie policy.
   if (eliminatedSubmissionIds.length > 1) {
-    eliminatedSubmissionIds = [];
+    if (settings.tiePolicy === "NO_ELIMINATION") eliminatedSubmissionIds = [];
+    else if (settings.tiePolicy === "RANDOM") eliminatedSubmissionIds = [pickRandom(game, eliminatedSubmissionIds)];
+    // ELIMINATE_ALL keeps every tied submission
   }
 
   const eliminatedPlayerIds: string[] = [...(round.eliminatedPlayerIds ?? [])];
@@ -229,125 +325,132 @@ function finalizeVoting(game: Game, round: Round) {
       if (!eliminatedPlayerIds.includes(player.playerId)) {
         eliminatedPlayerIds.push(player.playerId);
       }
+      recordEvent(game, { type: "ELIMINATION", roundNumber: round.roundNumber, playerId: player.playerId, reason: "VOTED_OUT" });
     }
   }
 
   round.eliminatedPlayerIds = eliminatedPlayerIds;
+  recordEvent(game, { type: "ROUND_COMPLETED", roundNumber: round.roundNumber, eliminatedPlayerIds: [...eliminatedPlayerIds] });
 
   try {
-    notifyAIsOfElimination(game, round);
+    trackAIWork(notifyAIsOfElimination(game, round));
   } catch {}
 
   game.state = "ROUND_RESULTS";
 
-  clearTimersForGame(game.code);
-  scheduleResultsAdvance(game, 3000);
+  clearTimersForGame(game);
+  scheduleResultsAdvance(game);
 
   if (emitGameUpdateCallback) emitGameUpdateCallback(game);
 }
 
 export function onSubmissionUpdated(game: Game, round: Round, submission?: Submission) {
   if (!submission) return;
+  setTyping(game, submission.playerId, false);
+
+  recordEvent(game, {
+    type: "SUBMISSION",
+    roundNumber: round.roundNumber,
+    submissionId: submission.submissionId,
+    playerId: submission.playerId,
+    content: submission.content,
+    ...(submission.moderation ? { moderation: submission.moderation.action } : {}),
+  });
 
   try {
-    const submitFn = (g: Game, r: Round, sub: Submission) => {
-      if (r.status !== "SUBMITTING") return;
-      if (!r.participantIds.includes(sub.playerId)) return;
-      if (r.submissions.some((s) => s.playerId === sub.playerId)) return; // enforce 1 submission per player
-      r.submissions.push(sub);
-      onSubmissionUpdated(g, r, sub);
-      if (emitGameUpdateCallback) emitGameUpdateCallback(g);
-    };
-    notifyAIsOfSubmission(game, round, submission, submitFn);
+    trackAIWork(notifyAIsOfSubmission(game, round, submission, makeSubmitFn()));
   } catch {}
 
   if (!allSubmissionsIn(round)) return;
 
-  clearTimersForGame(game.code);
-  enterVotingPhase(game, round);
+  closeSubmissions(game, round);
+}
+
+// After a discussion line has been posted (see chat.ts): let the AIs answer it
+export function onChatMessage(game: Game, round: Round, message: ChatMessage) {
+  try {
+    notifyAIsOfChat(game, round, message, makeChatFn());
+  } catch {}
 }
 
 export function onVotesUpdated(game: Game, round: Round) {
+  recordNewVotes(game, round);
+
   // If all humans have voted but some AIs haven't, fast-track AI votes now
   if (!allVotesIn(round) && allHumanVotesIn(game, round)) {
-    const voteFn = (g: Game, r: Round, vote: Vote) => {
-      if (r.status !== "VOTING") return;
-      if (!r.participantIds.includes(vote.voterId)) return;
-      if (r.votes.some((v) => v.voterId === vote.voterId)) return; // enforce 1 vote per voter
-      if (!r.submissions.some((s) => s.submissionId === vote.submissionId)) return;
-      r.votes.push(vote);
-      onVotesUpdated(g, r);
-      if (emitGameUpdateCallback) emitGameUpdateCallback(g);
-    };
     try {
-      fastTrackAIVotesForRound(game, round, voteFn);
+      fastTrackAIVotesForRound(game, round, makeVoteFn());
     } catch {}
   }
 
   if (!allVotesIn(round)) return;
 
-  const t = timers.get(game.code);
-  if (t?.vote) {
-    clearTimeout(t.vote);
-    delete t.vote; // exactOptionalPropertyTypes-safe
-    timers.set(game.code, t);
-  }
+  schedulerFor(game).cancel("vote");
 
   finalizeVoting(game, round);
 }
 
+// Votes are pushed by several callers (socket, AI fallback, simulations); log the ones not seen yet
+function recordNewVotes(game: Game, round: Round) {
+  const match = game.match ?? 0;
+  const logged = (game.events ?? []).filter(
+    (e) => e.type === "VOTE" && e.match === match && e.roundNumber === round.roundNumber
+  ).length;
+  for (const vote of round.votes.slice(logged)) {
+    recordEvent(game, { type: "VOTE", roundNumber: round.roundNumber, voterId: vote.voterId, submissionId: vote.submissionId });
+  }
+}
+
 function advanceAfterResults(game: Game) {
   const aliveHumans = game.players.filter((p) => p.alive && !p.isAI).length;
   const aliveAIs = game.players.filter((p) => p.alive && p.isAI).length;
 
   // Special-case: if it's a 1 vs 1 (one AI alive and one human alive), the AI automatically wins.
   if (aliveAIs === 1 && aliveHumans === 1) {
-    game.winner = "AIS";
-    game.state = "GAME_OVER";
-    clearTimersForGame(game.code);
-    if (emitGameUpdateCallback) emitGameUpdateCallback(game);
+    endGame(game, "AIS");
     return;
   }
 
   // Team-based win conditions
   if (aliveHumans === 0) {
-    game.winner = "AIS";
-    game.state = "GAME_OVER";
-    clearTimersForGame(game.code);
-    if (emitGameUpdateCallback) emitGameUpdateCallback(game);
+    endGame(game, "AIS");
     return;
   }
 
   if (aliveAIs === 0) {
-    game.winner = "HUMANS";
-    game.state = "GAME_OVER";
-    clearTimersForGame(game.code);
-    if (emitGameUpdateCallback) emitGameUpdateCallback(game);
+    endGame(game, "HUMANS");
     return;
   }
 
   // If AIs outnumber humans at any point, they can coordinate to always outvote.
   // End the game early and award an AI win.
   if (aliveAIs > aliveHumans) {
-    game.winner = "AIS";
-    game.state = "GAME_OVER";
-    clearTimersForGame(game.code);
-    if (emitGameUpdateCallback) emitGameUpdateCallback(game);
+    endGame(game, "AIS");
     return;
   }
 
-  const nextRound = startRoundForGame(game, "TEXT");
-  if (!nextRound) {
-    game.state = "GAME_OVER";
-    clearTimersForGame(game.code);
+  // Round limit reached with impostors still alive: they survived long enough to win.
+  const { maxRounds } = getGameSettings(game);
+  if (maxRounds > 0 && game.roundNumber >= maxRounds) {
+    endGame(game, "AIS");
+    return;
   }
 
+  const nextRound = startRoundForGame(game);
+  if (!nextRound) return endGame(game);
+
   if (emitGameUpdateCallback) emitGameUpdateCallback(game);
 }
 
-export function startRoundForGame(game: Game, roundType: "TEXT" | "IMAGE" = "TEXT"): Round | null {
+// roundType defaults to what the game's roundTypeMode setting calls for
+export function startRoundForGame(
+  game: Game,
+  roundType: RoundType = roundTypeFor(getGameSettings(game), game.roundNumber + 1)
+): Round | null {
   const alivePlayers = game.players.filter((p) => p.alive);
   if (game.players.length === 0) return null;
+  // Covers explicit overrides and settings saved before the stock library shrank
+  if (roundType === "IMAGE" && !hasStockImages(alivePlayers.filter((p) => p.isAI).length)) roundType = "TEXT";
 
   const humanPlayers = game.players.filter((p) => !p.isAI);
   const targetPool = humanPlayers.length > 0 ? humanPlayers : game.players;
@@ -358,13 +461,15 @@ export function startRoundForGame(game: Game, roundType: "TEXT" | "IMAGE" = "TEX
   const prevTargetAlias = game.rounds?.[game.rounds.length - 1]?.targetAlias;
   const filteredPool = prevTargetAlias ? targetPool.filter((p) => p.alias !== prevTargetAlias) : targetPool;
   const finalPool = filteredPool.length > 0 ? filteredPool : targetPool;
-  const targetPlayer = pickRandom(finalPool);
+  const targetPlayer = pickRandom(game, finalPool);
+  const prompt = pickRoundPrompt(game, getGameSettings(game).promptPackIds, targetPlayer.alias ?? "Unknown", gameRng(game));
 
   const round: Round = {
     roundNumber: nextRoundNumber,
     roundType,
     targetAlias: targetPlayer.alias ?? "Unknown",
-    roundPrompt: generateRoundPrompt(targetPlayer.alias ?? "Unknown"),
+    roundPrompt: prompt.text,
+    promptKey: prompt.templateKey,
     status: "SUBMITTING",
     submissions: [],
     votes: [],
@@ -372,23 +477,148 @@ export function startRoundForGame(game: Game, roundType: "TEXT" | "IMAGE" = "TEX
     eliminatedPlayerIds: [],
   };
 
+  if (nextRoundNumber === 1) recordMatchStarted(game);
+  round.startedAt = schedulerFor(game).now();
   game.roundNumber = nextRoundNumber;
   game.rounds.push(round);
   game.state = "ROUND_SUBMITTING";
+  recordEvent(game, {
+    type: "ROUND_STARTED",
+    roundNumber: round.roundNumber,
+    roundType: round.roundType,
+    targetAlias: round.targetAlias,
+    ...(round.roundPrompt != null ? { prompt: round.roundPrompt } : {}),
+    ...(round.promptKey != null ? { promptKey: round.promptKey } : {}),
+    participantIds: [...round.participantIds],
+  });
 
   scheduleSubmitTimer(game, round);
 
   try {
-    const submitFn = (g: Game, r: Round, sub: Submission) => {
-      if (r.status !== "SUBMITTING") return;
-      if (!r.participantIds.includes(sub.playerId)) return;
-      if (r.submissions.some((s) => s.playerId === sub.playerId)) return; // enforce 1 submission per player
-      r.submissions.push(sub);
-      onSubmissionUpdated(g, r, sub);
-      if (emitGameUpdateCallback) emitGameUpdateCallback(g);
-    };
-    scheduleAIForRound(game, round, submitFn);
+    scheduleAIForRound(game, round, makeSubmitFn());
   } catch {}
 
   return round;
 }
+
+/**
+ * Re-arm timers for a game restored from persistent storage. Phases keep their
+ * original deadline (`Round.expiresAt`); anything already overdue fires immediately.
+ */
+export function resumeGame(game: Game) {
+  // Nobody is connected right after a restart; reconnects flip this back.
+  for (const p of game.players) if (!p.isAI) p.connected = false;
+
+  const round = game.rounds[game.rounds.length - 1];
+  const now = schedulerFor(game).now();
+  const remaining = Math.max(0, (round?.expiresAt ?? now) - now);
+
+  if (game.state === "ROUND_SUBMITTING" && round?.status === "SUBMITTING") {
+    scheduleSubmitTimer(game, round, remaining);
+    try {
+      scheduleAIForRound(game, round, makeSubmitFn());
+    } catch {}
+    return;
+  }
+
+  if (game.state === "ROUND_DISCUSSION" && round?.status === "DISCUSSING") {
+    clearTimersForGame(game);
+    scheduleDiscussionTimer(game, round, remaining);
+    try {
+      scheduleAIChatForRound(game, round, makeChatFn());
+    } catch {}
+    return;
+  }
+
+  if (game.state === "ROUND_VOTING" && round?.status === "VOTING") {
+    clearTimersForGame(game);
+    scheduleVoteTimer(game, round, remaining);
+    try {
+      scheduleAIVotesForRound(game, round, makeVoteFn());
+    } catch {}
+    return;
+  }
+
+  // Crashed between phases: pick up where the results screen would have.
+  if (game.state === "ROUND_RESULTS" || game.state === "IN_PROGRESS") {
+    clearTimersForGame(game);
+    scheduleResultsAdvance(game);
+  }
+}
+
+/**
+ * Remove `playerId` at the host's request and ban their session from rejoining.
+ * Outside a match they leave the player list; mid-match they're eliminated on
+ * the spot and the round carries on without them. Disconnecting their sockets
+ * is up to the caller.
+ */
+export function kickPlayer(game: Game, playerId: string, byPlayerId: string): boolean {
+  const player = game.players.find((p) => p.playerId === playerId);
+  if (!player) return false;
+
+  banPlayer(game, playerId);
+
+  const round = game.rounds[game.rounds.length - 1];
+  const inMatch = game.state !== "LOBBY" && game.state !== "GAME_OVER" && !!round;
+  if (!inMatch) {
+    game.players = game.players.filter((p) => p.playerId !== playerId);
+  } else if (player.alive) {
+    player.alive = false;
+    const eliminated = (round.eliminatedPlayerIds ??= []);
+    if (!eliminated.includes(playerId)) eliminated.push(playerId);
+    recordEvent(game, { type: "ELIMINATION", roundNumber: round.roundNumber, playerId, reason: "KICKED" });
+    round.participantIds = round.participantIds.filter((id) => id !== playerId);
+    round.votes = round.votes.filter((v) => v.voterId !== playerId);
+    setTyping(game, playerId, false);
+  }
+
+  recordModeration(game, {
+    roundNumber: game.roundNumber,
+    playerId,
+    actorId: byPlayerId,
+    source: "KICK",
+    text: "",
+    action: "KICKED",
+    summary: `kicked ${game.state === "LOBBY" ? "from the lobby" : `in round ${game.roundNumber}`}`,
+    scores: {},
+  });
+
+  // Whoever was only waiting on the kicked player can move on
+  if (inMatch && round.status === "SUBMITTING") {
+    round.submissions = round.submissions.filter((s) => s.playerId !== playerId);
+    if (round.participantIds.length > 0 && allSubmissionsIn(round)) closeSubmissions(game, round);
+  } else if (inMatch && round.status === "VOTING" && round.participantIds.length > 0) {
+    onVotesUpdated(game, round);
+  }
+
+  if (emitGameUpdateCallback) emitGameUpdateCallback(game);
+  return true;
+}
+
+// Restore every persisted game and resume the ones that were mid-round.
+export function rehydrateGames(): number {
+  const games = loadAllGames();
+  rebuildModerationWhitelist(games);
+  for (const game of games) resumeGame(game);
+  return games.length;
+}
+
+/** Delete a game for good: its timers, its persisted snapshot and the images only it refers to. */
+export function deleteGame(game: Game) {
+  disposeScheduler(game.code);
+  removeGame(game.code);
+  releaseGameImages(game, listAllGames());
+}
+
+// Finished games with no activity for `maxAgeMs` (GAME_RETENTION_MS) are deleted
+export function pruneFinishedGames(maxAgeMs: number, now = Date.now()): number {
+  let pruned = 0;
+  for (const game of listAllGames()) {
+    if (game.state !== "GAME_OVER") continue;
+    const lastActivity = game.events?.[game.events.length - 1]?.at ?? 0;
+    if (now - lastActivity < maxAgeMs) continue;
+    deleteGame(game);
+    pruned++;
+  }
+  return pruned;
+}
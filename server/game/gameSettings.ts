@@ -0,0 +1,235 @@
+// server/game/gameSettings.ts
+import type {
+  AIProviderKind,
+  AIProviderSettings,
+  Game,
+  GameSettings,
+  ModerationFailMode,
+  ModerationPolicy,
+  RoundType,
+  RoundTypeMode,
+  TiePolicy,
+} from "./gameTypes";
+import { DEFAULT_PROMPT_PACK_IDS, getPromptPacks } from "./promptPacks";
+import { hasStockImages } from "./aiImages";
+
+function envInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const parsed = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+const AI_PROVIDER_KINDS: readonly AIProviderKind[] = ["openai", "local", "scripted"];
+const MODEL_NAME = /^[\w.:/-]{1,100}$/;
+
+function envProviderKind(): AIProviderKind {
+  const raw = process.env.AI_PROVIDER?.trim().toLowerCase() as AIProviderKind | undefined;
+  return raw && AI_PROVIDER_KINDS.includes(raw) ? raw : "openai";
+}
+
+const MODERATION_POLICIES: readonly ModerationPolicy[] = ["BLOCK", "MASK", "FLAG"];
+
+function envModerationPolicy(): ModerationPolicy {
+  const raw = process.env.MODERATION_POLICY?.trim().toUpperCase() as ModerationPolicy | undefined;
+  return raw && MODERATION_POLICIES.includes(raw) ? raw : "MASK";
+}
+
+const MODERATION_FAIL_MODES: readonly ModerationFailMode[] = ["OPEN", "CLOSED"];
+
+function envModerationFailMode(): ModerationFailMode {
+  const raw = process.env.MODERATION_FAIL_MODE?.trim().toUpperCase() as ModerationFailMode | undefined;
+  return raw && MODERATION_FAIL_MODES.includes(raw) ? raw : "CLOSED";
+}
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+  submitDurationMs: envInt("SUBMIT_DURATION_MS", 240_000),
+  discussionDurationMs: envInt("DISCUSSION_DURATION_MS", 0),
+  voteDurationMs: envInt("VOTE_DURATION_MS", 240_000),
+  resultsDelayMs: 3000,
+  maxRounds: 0,
+  aiMode: "AUTO",
+  aiCount: 1,
+  missedSubmissionLimit: 2,
+  scoring: {
+    participationPoints: 10,
+    fastBonuses: [5, 3, 1],
+    noSubmissionPenalty: 5,
+  },
+  tiePolicy: "NO_ELIMINATION",
+  moderationPolicy: envModerationPolicy(),
+  moderationFailMode: envModerationFailMode(),
+  promptPackIds: DEFAULT_PROMPT_PACK_IDS,
+  roundTypeMode: "TEXT",
+  aiProvider: { kind: envProviderKind() },
+};
+
+// Inclusive [min, max] for every numeric setting
+export const SETTINGS_BOUNDS = {
+  submitDurationMs: [15_000, 900_000],
+  discussionDurationMs: [0, 600_000],
+  voteDurationMs: [15_000, 900_000],
+  resultsDelayMs: [1000, 30_000],
+  maxRounds: [0, 50],
+  aiCount: [0, 5],
+  missedSubmissionLimit: [1, 10],
+  participationPoints: [0, 100],
+  noSubmissionPenalty: [0, 100],
+  fastBonus: [0, 100],
+  fastBonusesLength: [0, 5],
+} as const satisfies Record<string, readonly [number, number]>;
+
+const TIE_POLICIES: readonly TiePolicy[] = ["NO_ELIMINATION", "ELIMINATE_ALL", "RANDOM"];
+const ROUND_TYPE_MODES: readonly RoundTypeMode[] = ["TEXT", "IMAGE", "ALTERNATE"];
+
+export type GameSettingsPatch = Partial<Omit<GameSettings, "scoring">> & {
+  scoring?: Partial<GameSettings["scoring"]>;
+};
+
+export function cloneSettings(settings: GameSettings): GameSettings {
+  return {
+    ...settings,
+    scoring: { ...settings.scoring, fastBonuses: [...settings.scoring.fastBonuses] },
+    promptPackIds: [...settings.promptPackIds],
+    aiProvider: { ...settings.aiProvider },
+  };
+}
+
+export function createDefaultSettings(): GameSettings {
+  return cloneSettings(DEFAULT_GAME_SETTINGS);
+}
+
+export function getGameSettings(game: Game): GameSettings {
+  if (!game.settings) return DEFAULT_GAME_SETTINGS;
+  // Fill in fields added after the game was persisted
+  return { ...DEFAULT_GAME_SETTINGS, ...game.settings };
+}
+
+export function roundTypeFor(settings: GameSettings, roundNumber: number): RoundType {
+  if (settings.roundTypeMode === "ALTERNATE") return roundNumber % 2 === 0 ? "IMAGE" : "TEXT";
+  return settings.roundTypeMode;
+}
+
+/**
+ * Validate a client-supplied provider choice. Only kind and model are accepted;
+ * endpoints and keys come from server config, never from players.
+ */
+export function validateProviderSettings(raw: unknown): { ok: true; settings: AIProviderSettings } | { ok: false; error: string } {
+  const { kind, model } = (raw ?? {}) as { kind?: unknown; model?: unknown };
+  if (!AI_PROVIDER_KINDS.includes(kind as AIProviderKind)) {
+    return { ok: false, error: `aiProvider.kind must be one of ${AI_PROVIDER_KINDS.join(", ")}` };
+  }
+  if (model !== undefined && model !== "" && (typeof model !== "string" || !MODEL_NAME.test(model))) {
+    return { ok: false, error: "aiProvider.model must be a model name (letters, digits, . : / - _)" };
+  }
+  const settings: AIProviderSettings = { kind: kind as AIProviderKind };
+  if (typeof model === "string" && model) settings.model = model;
+  return { ok: true, settings };
+}
+
+function checkInt(name: string, value: unknown, [min, max]: readonly [number, number]): string | null {
+  if (typeof value !== "number" || !Number.isInteger(value)) return `${name} must be an integer`;
+  if (value < min || value > max) return `${name} must be between ${min} and ${max}`;
+  return null;
+}
+
+/**
+ * Merge a partial update into existing settings. Unknown keys are ignored;
+ * any out-of-bounds value rejects the whole patch.
+ */
+export function applySettingsPatch(
+  current: GameSettings,
+  patch: GameSettingsPatch
+): { ok: true; settings: GameSettings } | { ok: false; error: string } {
+  const next = cloneSettings(current);
+  const errors: string[] = [];
+  const numeric = [
+    "submitDurationMs",
+    "discussionDurationMs",
+    "voteDurationMs",
+    "resultsDelayMs",
+    "maxRounds",
+    "aiCount",
+    "missedSubmissionLimit",
+  ] as const;
+
+  for (const key of numeric) {
+    if (patch[key] === undefined) continue;
+    const err = checkInt(key, patch[key], SETTINGS_BOUNDS[key]);
+    if (err) errors.push(err);
+    else next[key] = patch[key];
+  }
+
+  if (patch.aiMode !== undefined) {
+    if (patch.aiMode === "AUTO" || patch.aiMode === "FIXED") next.aiMode = patch.aiMode;
+    else errors.push("aiMode must be AUTO or FIXED");
+  }
+
+  if (patch.tiePolicy !== undefined) {
+    if (TIE_POLICIES.includes(patch.tiePolicy)) next.tiePolicy = patch.tiePolicy;
+    else errors.push(`tiePolicy must be one of ${TIE_POLICIES.join(", ")}`);
+  }
+
+  if (patch.moderationPolicy !== undefined) {
+    if (MODERATION_POLICIES.includes(patch.moderationPolicy)) next.moderationPolicy = patch.moderationPolicy;
+    else errors.push(`moderationPolicy must be one of ${MODERATION_POLICIES.join(", ")}`);
+  }
+
+  if (patch.moderationFailMode !== undefined) {
+    if (MODERATION_FAIL_MODES.includes(patch.moderationFailMode)) next.moderationFailMode = patch.moderationFailMode;
+    else errors.push(`moderationFailMode must be one of ${MODERATION_FAIL_MODES.join(", ")}`);
+  }
+
+  if (patch.roundTypeMode !== undefined) {
+    if (!ROUND_TYPE_MODES.includes(patch.roundTypeMode)) {
+      errors.push(`roundTypeMode must be one of ${ROUND_TYPE_MODES.join(", ")}`);
+    } else if (patch.roundTypeMode !== "TEXT" && !hasStockImages()) {
+      errors.push("Image rounds need AI stock images on the server (see assets/stock-images)");
+    } else {
+      next.roundTypeMode = patch.roundTypeMode;
+    }
+  }
+
+  if (patch.promptPackIds !== undefined) {
+    const known = new Set(getPromptPacks().map((p) => p.id));
+    const ids = patch.promptPackIds;
+    if (!Array.isArray(ids) || ids.length === 0) errors.push("promptPackIds must list at least one pack");
+    else if (ids.some((id) => !known.has(id))) errors.push("promptPackIds contains an unknown pack");
+    else next.promptPackIds = Array.from(new Set(ids));
+  }
+
+  if (patch.aiProvider !== undefined) {
+    const result = validateProviderSettings(patch.aiProvider);
+    if (result.ok) next.aiProvider = result.settings;
+    else errors.push(result.error);
+  }
+
+  const scoring = patch.scoring;
+  if (scoring) {
+    if (scoring.participationPoints !== undefined) {
+      const err = checkInt("scoring.participationPoints", scoring.participationPoints, SETTINGS_BOUNDS.participationPoints);
+      if (err) errors.push(err);
+      else next.scoring.participationPoints = scoring.participationPoints;
+    }
+    if (scoring.noSubmissionPenalty !== undefined) {
+      const err = checkInt("scoring.noSubmissionPenalty", scoring.noSubmissionPenalty, SETTINGS_BOUNDS.noSubmissionPenalty);
+      if (err) errors.push(err);
+      else next.scoring.noSubmissionPenalty = scoring.noSubmissionPenalty;
+    }
+    if (scoring.fastBonuses !== undefined) {
+      const bonuses = scoring.fastBonuses;
+      const [minLen, maxLen] = SETTINGS_BOUNDS.fastBonusesLength;
+      if (!Array.isArray(bonuses) || bonuses.length < minLen || bonuses.length > maxLen) {
+        errors.push(`scoring.fastBonuses must be a list of at most ${maxLen} values`);
+      } else {
+        const bonusErrors = bonuses
+          .map((b, i) => checkInt(`scoring.fastBonuses[${i}]`, b, SETTINGS_BOUNDS.fastBonus))
+          .filter((e): e is string => e !== null);
+        if (bonusErrors.length > 0) errors.push(...bonusErrors);
+        else next.scoring.fastBonuses = [...bonuses];
+      }
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, error: errors.join("; ") };
+  return { ok: true, settings: next };
+}
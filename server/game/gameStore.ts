@@ -1,18 +1,84 @@
 import type { Game } from "./gameTypes";
+import type { GameRepository } from "./gameRepository";
+import { createMemoryGameRepository } from "./gameRepository";
 
+// Live game objects. Services mutate these in place; the repository holds durable snapshots.
 const games = new Map<string, Game>();
+let repository: GameRepository = createMemoryGameRepository();
+
+// Snapshots of every persisted game, for reports across games. Kept apart from the
+// live map so reading them doesn't keep finished games in memory as live objects.
+const STORED_GAMES_TTL_MS = 30_000;
+let storedGames: { at: number; byCode: Map<string, Game> } | null = null;
+
+export function setGameRepository(repo: GameRepository) {
+  repository.flush();
+  repository = repo;
+  games.clear();
+  storedGames = null;
+}
 
 export function createGame(game: Game) {
   games.set(game.code, game);
+  repository.save(game);
 }
 
 export function getGame(code: string): Game | undefined {
-  return games.get(code);
+  const live = games.get(code);
+  if (live) return live;
+  const stored = repository.load(code);
+  if (stored) games.set(code, stored);
+  return stored;
 }
 
 export function updateGame(code: string, mutator: (g: Game) => void): Game | undefined {
-  const game = games.get(code);
+  const game = getGame(code);
   if (!game) return;
   mutator(game);
+  repository.save(game);
   return game;
 }
+
+// Persist the current state of a game that was mutated in place.
+export function saveGame(game: Game) {
+  repository.save(game);
+}
+
+/**
+ * Every game, for reports: the live object where there is one, otherwise the
+ * persisted snapshot. The repository is read at most every STORED_GAMES_TTL_MS.
+ */
+export function listAllGames(): Game[] {
+  const now = Date.now();
+  if (!storedGames || now - storedGames.at > STORED_GAMES_TTL_MS) {
+    storedGames = { at: now, byCode: new Map(repository.loadAll().map((g) => [g.code, g])) };
+  }
+  const out = Array.from(games.values());
+  for (const [code, game] of storedGames.byCode) if (!games.has(code)) out.push(game);
+  return out;
+}
+
+// Like getGame, but a game that isn't live stays out of the live map
+export function peekGame(code: string): Game | undefined {
+  return games.get(code) ?? storedGames?.byCode.get(code) ?? repository.load(code);
+}
+
+// Write out saves the repository is still holding back (on shutdown).
+export function flushGames() {
+  repository.flush();
+}
+
+// Load every persisted game into the live map (used once on boot).
+export function loadAllGames(): Game[] {
+  for (const game of repository.loadAll()) {
+    if (!games.has(game.code)) games.set(game.code, game);
+  }
+  return Array.from(games.values());
+}
+
+// Drop a game from the live map and the repository.
+export function removeGame(code: string) {
+  games.delete(code);
+  storedGames?.byCode.delete(code);
+  repository.remove(code);
+}
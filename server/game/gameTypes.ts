@@ -4,6 +4,7 @@ export type GameState =
   | "LOBBY"
   | "IN_PROGRESS"
   | "ROUND_SUBMITTING"
+  | "ROUND_DISCUSSION"
   | "ROUND_VOTING"
   | "ROUND_RESULTS"
   | "GAME_OVER";
@@ -13,20 +14,53 @@ export interface Round {
   roundType: "TEXT" | "IMAGE";
   targetAlias: string;
   roundPrompt?: string;
-  status: "SUBMITTING" | "VOTING" | "COMPLETED";
+  // "<packId>/<templateId>" the prompt was generated from
+  promptKey?: string;
+  // DISCUSSING only when the game has a discussion phase
+  status: "SUBMITTING" | "DISCUSSING" | "VOTING" | "COMPLETED";
   submissions: Submission[];
   votes: Vote[];
   participantIds: string[];
   eliminatedPlayerIds?: string[];
+  startedAt?: number;
   expiresAt?: number;
+  chat?: ChatMessage[];
 }
 
 export interface Submission {
   submissionId: string;
   playerId: string;
+  // As shown to players: the toxicity replacement if the original was masked
   content: string;
   roundNumber: number;
   submittedAt?: number;
+  moderation?: SubmissionModeration;
+}
+
+// Set when the toxicity service flagged a human's submission (see moderation.ts)
+export interface SubmissionModeration {
+  action: "MASKED" | "FLAGGED";
+  scores: Record<string, number>;
+  summary?: string;
+}
+
+// One moderation decision on a player's text, or a report or kick of a player, for review (see moderationLog.ts)
+export interface ModerationRecord {
+  recordId: string;
+  at: number;
+  roundNumber: number;
+  playerId: string;
+  // Who reported or kicked the player
+  actorId?: string;
+  source: "SUBMISSION" | "CHAT" | "REPORT" | "KICK";
+  // The original text (the report's reason for REPORT); only ever served to moderators
+  text: string;
+  textHash: string;
+  action: "BLOCKED" | SubmissionModeration["action"] | "REPORTED" | "KICKED";
+  scores: Record<string, number>;
+  summary?: string;
+  // Set on review; the text is then let through in later assessments
+  falsePositive?: boolean;
 }
 
 export interface Vote {
@@ -34,6 +68,34 @@ export interface Vote {
   submissionId: string;
 }
 
+export interface ChatMessage {
+  messageId: string;
+  playerId: string;
+  colorId: string;
+  // As shown to players: the toxicity replacement if the original was filtered
+  text: string;
+  at: number;
+  filtered?: boolean;
+}
+
+// How an AI plays its round: blend in, take a stance, or stay noncommittal
+export type AIRole = "MIMIC" | "BOLD" | "VAGUE";
+
+export interface AIRoundPlan {
+  // Match the plan was made in; round numbers restart with every match
+  match?: number;
+  roles: Record<string, AIRole>;
+  // Set once the round's eliminations have been counted into roleStats
+  rolesScored?: boolean;
+  usedSamples: string[];
+  fallbackVoteSubmissionId?: string;
+  // When each AI means to submit (scheduler time); see aiTiming.ts
+  submitAt?: Record<string, number>;
+  // Discussion: messages each AI has sent and when its next one is due
+  chatCount?: Record<string, number>;
+  chatAt?: Record<string, number>;
+}
+
 export interface AIRoundSummary {
   roundNumber: number;
   targetAlias: string;
@@ -42,12 +104,21 @@ export interface AIRoundSummary {
   eliminatedPlayerIds: string[];
 }
 
+// Where an AI stood in earlier discussions, so its later lines stay consistent (see aiChat.ts)
+export interface AIChatMemory {
+  // Colors it cast suspicion on
+  suspected: Array<{ match: number; roundNumber: number; colorId: string }>;
+  // Colors that pointed at it
+  accusedBy: Array<{ match: number; roundNumber: number; colorId: string }>;
+  // The last round's eliminations, until it has commented on them
+  pendingReactions: Array<{ match: number; roundNumber: number; colorId: string; suspected: boolean; teammate: boolean }>;
+}
+
 export interface AIMemory {
   kickedPlayers: string[];
   roundsSummary: AIRoundSummary[];
   notes: string[];
-  // Cache of toxicity assessments keyed by the original player text
-  toxicityCache?: Record<string, ToxicityAssessment>;
+  chat?: AIChatMemory;
 }
 
 export interface ToxicityAssessment {
@@ -57,6 +128,8 @@ export interface ToxicityAssessment {
   replacedText: string;
   // Optional human-readable summary of top categories and scores
   summary?: string;
+  // No moderation provider could answer; isToxic then follows the game's moderationFailMode
+  unavailable?: boolean;
 }
 
 export interface Player {
@@ -70,11 +143,105 @@ export interface Player {
     apiKey?: string;
     teamId?: string;
     memory?: AIMemory;
+    // Overrides the game's aiProvider setting for this AI
+    provider?: AIProviderConfig;
+    // Experiment arm this AI was assigned for the game (see experiments.ts)
+    experiment?: { name: string; arm: string };
   };
   score: number;
   missedSubmissions: number;
 }
 
+export type RoundType = Round["roundType"];
+
+// Which kind of round each new round is; ALTERNATE starts with TEXT
+export type RoundTypeMode = "TEXT" | "IMAGE" | "ALTERNATE";
+
+export type AIProviderKind = "openai" | "local" | "scripted";
+
+// Model selection hosts may change; endpoints and keys are server-side only
+export interface AIProviderSettings {
+  kind: AIProviderKind;
+  // Empty = the provider's default (OPENAI_MODEL / LOCAL_LLM_MODEL)
+  model?: string;
+}
+
+export interface AIProviderConfig extends AIProviderSettings {
+  // OpenAI-compatible endpoint for "local"; defaults to LOCAL_LLM_BASE_URL
+  baseUrl?: string;
+  // Canned outputs for "scripted"
+  script?: ScriptedAIScript;
+}
+
+// One variant of an A/B experiment on AI prompting; unset fields keep the defaults
+export interface ExperimentArm {
+  id: string;
+  // Relative chance of being assigned (default 1)
+  weight?: number;
+  // Submission system instructions; may use {targetChars}, {minChars}, {maxChars}
+  instructions?: string;
+  voteInstructions?: string;
+  temperature?: number;
+  voteTemperature?: number;
+  model?: string;
+  // Allowed distance from the human median length (default 15)
+  lengthWindow?: number;
+}
+
+export interface ScriptedAIScript {
+  submissions?: string[];
+  // Aliases to vote for, in order of preference
+  votes?: string[];
+  // Discussion messages, in order
+  chat?: string[];
+}
+
+// What happens when several submissions share the highest vote count
+export type TiePolicy = "NO_ELIMINATION" | "ELIMINATE_ALL" | "RANDOM";
+
+// What happens to a toxic submission: rejected, shown as the replacement text, or kept but hidden until revealed
+export type ModerationPolicy = "BLOCK" | "MASK" | "FLAG";
+
+// When no moderation provider can score a text: let it through, or treat it as toxic
+export type ModerationFailMode = "OPEN" | "CLOSED";
+
+export interface ScoringSettings {
+  participationPoints: number;
+  // Bonus for the 1st, 2nd, 3rd... fastest non-empty submissions
+  fastBonuses: number[];
+  noSubmissionPenalty: number;
+}
+
+export interface GameSettings {
+  submitDurationMs: number;
+  // Chat between submitting and voting; 0 = no discussion phase
+  discussionDurationMs: number;
+  voteDurationMs: number;
+  resultsDelayMs: number;
+  // 0 = play until one team wins
+  maxRounds: number;
+  // AUTO scales with the number of humans; FIXED always uses aiCount
+  aiMode: "AUTO" | "FIXED";
+  aiCount: number;
+  // Consecutive missed submissions before a player is eliminated
+  missedSubmissionLimit: number;
+  scoring: ScoringSettings;
+  tiePolicy: TiePolicy;
+  moderationPolicy: ModerationPolicy;
+  moderationFailMode: ModerationFailMode;
+  promptPackIds: string[];
+  roundTypeMode: RoundTypeMode;
+  aiProvider: AIProviderSettings;
+}
+
+export interface PlayerReport {
+  reporterId: string;
+  targetId: string;
+  roundNumber: number;
+  reason?: string;
+  at: number;
+}
+
 export interface Game {
   code: string;
   state: GameState;
@@ -82,30 +249,205 @@ export interface Game {
   hostPlayerId: string;
   players: Player[];
   rounds: Round[];
+  // Missing on games created before settings existed; see getGameSettings()
+  settings?: GameSettings;
+  // Prompt templates already shown this game, so they aren't repeated
+  usedPromptKeys?: string[];
+  // Seed and current position of the game's random stream (see rng.ts)
+  rngSeed?: number;
+  rngState?: number;
   winner?: "HUMANS" | "AIS";
+  // Append-only history across restarts; `match` counts games played in this lobby
+  events?: GameEvent[];
+  match?: number;
+  moderationLog?: ModerationRecord[];
+  // One per reporter and reported player (see playerModeration.ts)
+  reports?: PlayerReport[];
+  // Kicked players can't come back with their session until `until` (epoch ms)
+  bans?: Array<{ playerId: string; until: number }>;
+  // Images uploaded for this game, counted against its quota (see imageStore.ts)
+  uploads?: Array<{ imageId: string; playerId: string; bytes: number; at: number }>;
   aiTeamMemory?: Record<
     string,
     AIMemory & {
-      roundPlans?: Record<
-        string,
-        {
-          roles: Record<string, "MIMIC" | "BOLD" | "VAGUE">;
-          usedSamples: string[];
-          fallbackVoteSubmissionId?: string;
-        }
-      >;
+      roundPlans?: Record<string, AIRoundPlan>;
+      // How each role has fared so far, across matches (see aiRoles.ts)
+      roleStats?: Partial<Record<AIRole, { played: number; eliminated: number }>>;
     }
   >;
 }
 
+// ===== Event log =====
+
+export interface ReplayPlayer {
+  playerId: string;
+  alias: string;
+  colorId: string;
+  isAI: boolean;
+}
+
+export type ScoreReason = "FAST_BONUS" | "PARTICIPATION" | "NO_SUBMISSION";
+export type EliminationReason = "VOTED_OUT" | "MISSED_SUBMISSIONS" | "KICKED";
+
+export type GameEventPayload =
+  | ({ type: "PLAYER_JOINED" } & ReplayPlayer)
+  | { type: "MATCH_STARTED"; players: ReplayPlayer[] }
+  | {
+      type: "ROUND_STARTED";
+      roundNumber: number;
+      roundType: RoundType;
+      targetAlias: string;
+      prompt?: string;
+      promptKey?: string;
+      participantIds: string[];
+    }
+  // `missed` marks the empty placeholder added for a non-submitter when voting opens
+  | {
+      type: "SUBMISSION";
+      roundNumber: number;
+      submissionId: string;
+      playerId: string;
+      content: string;
+      missed?: boolean;
+      moderation?: SubmissionModeration["action"];
+    }
+  // Server-only: the model context behind an AI's submission (never sent to clients)
+  | {
+      type: "AI_GENERATION";
+      roundNumber: number;
+      playerId: string;
+      submissionId: string;
+      prompt?: string;
+      usedModel: boolean;
+      provider?: AIProviderKind;
+      model?: string;
+      // "<experiment>/<arm>"
+      arm?: string;
+      role?: AIRole;
+    }
+  | { type: "CHAT_MESSAGE"; roundNumber: number; messageId: string; playerId: string; text: string; filtered?: boolean }
+  | { type: "VOTE"; roundNumber: number; voterId: string; submissionId: string }
+  | { type: "SCORE_CHANGED"; roundNumber: number; playerId: string; delta: number; score: number; reason: ScoreReason }
+  | { type: "ELIMINATION"; roundNumber: number; playerId: string; reason: EliminationReason }
+  | { type: "ROUND_COMPLETED"; roundNumber: number; eliminatedPlayerIds: string[] }
+  | { type: "GAME_OVER"; winner?: "HUMANS" | "AIS" };
+
+export type GameEvent = GameEventPayload & {
+  // Position in the game's log, from 1
+  seq: number;
+  at: number;
+  // 0 = lobby before the first match
+  match: number;
+};
+
+// ===== Client-facing projections =====
+// Everything below is safe to send to a browser. Server-only fields (isAI, aiData,
+// aiTeamMemory, submission authorship) must never appear on these types.
+
+export interface PublicPlayerView {
+  playerId: string;
+  alias: string;
+  colorId: string;
+  alive: boolean;
+  connected: boolean;
+}
+
+export interface SelfPlayerView extends PublicPlayerView {
+  role: "HUMAN" | "AI";
+  isHost: boolean;
+  score: number;
+  missedSubmissions: number;
+}
+
+export interface PublicRoundView {
+  roundNumber: number;
+  roundType: "TEXT" | "IMAGE";
+  targetAlias: string;
+  roundPrompt?: string;
+  status: Round["status"];
+  participantIds: string[];
+  eliminatedPlayerIds?: string[];
+  expiresAt?: number;
+  submissionCount: number;
+  voteCount: number;
+  // Only populated for the viewing player
+  mySubmissionId?: string;
+  myVoteSubmissionId?: string;
+}
+
+export interface PublicGameView {
+  code: string;
+  state: GameState;
+  roundNumber: number;
+  hostPlayerId: string;
+  players: PublicPlayerView[];
+  rounds: PublicRoundView[];
+  settings: GameSettings;
+  winner?: "HUMANS" | "AIS";
+  self?: SelfPlayerView;
+  // Host only: who has been reported, and how often
+  reports?: PlayerReportSummary[];
+}
+
+export interface PlayerReportSummary {
+  playerId: string;
+  colorId: string;
+  alias: string;
+  // Distinct players who reported them
+  count: number;
+  reasons: string[];
+}
+
 export interface PublicVotingSubmission {
   submissionId: string;
   colorId: string;
+  // Text, or an image URL path (/api/images/...) in IMAGE rounds
   content: string;
+  // Scores stay on the server; players only see what was done
+  moderation?: SubmissionModeration["action"];
 }
 
 export interface PublicVotingRound {
   code: string;
   roundNumber: number;
+  roundType: Round["roundType"];
   submissions: PublicVotingSubmission[];
 }
+
+// Chat lines go out by color only, like voting submissions
+export interface PublicChatMessage {
+  messageId: string;
+  colorId: string;
+  text: string;
+  at: number;
+  filtered?: boolean;
+}
+
+// Finished matches only: replays reveal who was an AI
+export interface ReplaySubmission {
+  submissionId: string;
+  playerId: string;
+  content: string;
+  missed: boolean;
+  voterIds: string[];
+}
+
+export interface ReplayRound {
+  roundNumber: number;
+  roundType: RoundType;
+  targetAlias: string;
+  prompt?: string;
+  submissions: ReplaySubmission[];
+  eliminations: Array<{ playerId: string; reason: EliminationReason }>;
+  // Running totals once the round was scored
+  scores: Record<string, number>;
+}
+
+export interface MatchReplay {
+  match: number;
+  startedAt: number;
+  endedAt: number;
+  winner?: "HUMANS" | "AIS";
+  players: ReplayPlayer[];
+  rounds: ReplayRound[];
+}
@@ -0,0 +1,107 @@
+// server/game/gameView.ts
+import type {
+  Game,
+  Player,
+  PublicGameView,
+  PublicPlayerView,
+  PublicRoundView,
+  PublicVotingRound,
+  PublicVotingSubmission,
+  Round,
+  SelfPlayerView,
+} from "./gameTypes";
+import { cloneSettings, getGameSettings } from "./gameSettings";
+import { reportSummaries } from "./playerModeration";
+import { derivedRng, shuffleWith } from "./rng";
+
+function toPublicPlayer(p: Player): PublicPlayerView {
+  return {
+    playerId: p.playerId,
+    alias: p.alias,
+    colorId: p.colorId,
+    alive: p.alive,
+    // AIs have no socket; report them like a connected human so presence can't out them
+    connected: p.isAI ? true : p.connected,
+  };
+}
+
+function toSelfPlayer(game: Game, p: Player): SelfPlayerView {
+  return {
+    ...toPublicPlayer(p),
+    role: p.isAI ? "AI" : "HUMAN",
+    isHost: p.playerId === game.hostPlayerId,
+    score: p.score ?? 0,
+    missedSubmissions: p.missedSubmissions ?? 0,
+  };
+}
+
+function toPublicRound(round: Round, viewerId: string | undefined): PublicRoundView {
+  const view: PublicRoundView = {
+    roundNumber: round.roundNumber,
+    roundType: round.roundType,
+    targetAlias: round.targetAlias,
+    status: round.status,
+    participantIds: [...round.participantIds],
+    // Placeholder entries for non-submitters are added on entering VOTING; only count real ones
+    submissionCount: round.submissions.filter((s) => s.submittedAt != null).length,
+    voteCount: round.votes.length,
+  };
+  if (round.roundPrompt != null) view.roundPrompt = round.roundPrompt;
+  if (round.eliminatedPlayerIds) view.eliminatedPlayerIds = [...round.eliminatedPlayerIds];
+  if (round.expiresAt != null) view.expiresAt = round.expiresAt;
+
+  if (viewerId) {
+    const mine = round.submissions.find((s) => s.playerId === viewerId && s.submittedAt != null);
+    if (mine) view.mySubmissionId = mine.submissionId;
+    const myVote = round.votes.find((v) => v.voterId === viewerId);
+    if (myVote) view.myVoteSubmissionId = myVote.submissionId;
+  }
+  return view;
+}
+
+/**
+ * Project a game into what a single viewer is allowed to see.
+ * `viewerId` is the playerId bound to the receiving socket; omit it for spectators.
+ */
+export function buildPublicGameView(game: Game, viewerId?: string): PublicGameView {
+  const viewer = viewerId ? game.players.find((p) => p.playerId === viewerId) : undefined;
+
+  const view: PublicGameView = {
+    code: game.code,
+    state: game.state,
+    roundNumber: game.roundNumber,
+    hostPlayerId: game.hostPlayerId,
+    players: game.players.map(toPublicPlayer),
+    rounds: game.rounds.map((r) => toPublicRound(r, viewer?.playerId)),
+    settings: cloneSettings(getGameSettings(game)),
+  };
+  if (game.winner) view.winner = game.winner;
+  if (viewer) view.self = toSelfPlayer(game, viewer);
+  // Reporters stay anonymous, and only the host (who can kick) sees the tally
+  if (viewer && viewer.playerId === game.hostPlayerId && game.reports?.length) view.reports = reportSummaries(game);
+  return view;
+}
+
+/**
+ * The round's lines as voters see them: colors only, in an order that is the
+ * same for every viewer and every refetch and reproducible from the game seed.
+ * The match number keeps rematches in the same lobby from repeating it round
+ * by round.
+ */
+export function buildVotingRound(game: Game, round: Round): PublicVotingRound {
+  const submissions: PublicVotingSubmission[] = round.submissions.map((s) => {
+    const player = game.players.find((p) => p.playerId === s.playerId);
+    return {
+      submissionId: s.submissionId,
+      colorId: player?.colorId ?? "unknown",
+      content: s.content,
+      ...(s.moderation ? { moderation: s.moderation.action } : {}),
+    };
+  });
+  return {
+    code: game.code,
+    roundNumber: round.roundNumber,
+    roundType: round.roundType,
+    submissions: shuffleWith(derivedRng(game, `voting:${game.match ?? 0}:${round.roundNumber}`), submissions),
+  };
+}
@@ -0,0 +1,143 @@
+// server/game/imageStore.ts
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import logger from "../config/loggerWinston";
+import type { Game } from "./gameTypes";
+
+// Public path prefix images are served from (see routes/images.ts)
+export const IMAGE_URL_PREFIX = "/api/images/";
+
+export const MAX_IMAGE_BYTES = (() => {
+  const parsed = parseInt(process.env.MAX_IMAGE_BYTES ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 2 * 1024 * 1024;
+})();
+
+// Total upload bytes one game may store
+export const MAX_GAME_IMAGE_BYTES = (() => {
+  const parsed = parseInt(process.env.MAX_GAME_IMAGE_BYTES ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 50 * 1024 * 1024;
+})();
+
+// SVG is deliberately absent: it can carry script
+const IMAGE_TYPES = [
+  { mime: "image/png", ext: "png", magic: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mime: "image/jpeg", ext: "jpg", magic: [0xff, 0xd8, 0xff] },
+  { mime: "image/gif", ext: "gif", magic: [0x47, 0x49, 0x46, 0x38] },
+  { mime: "image/webp", ext: "webp", magic: [0x52, 0x49, 0x46, 0x46] },
+] as const;
+
+export const ALLOWED_IMAGE_MIME_TYPES: string[] = IMAGE_TYPES.map((t) => t.mime);
+
+const STORED_NAME = /^[a-f0-9]{64}\.(png|jpg|gif|webp)$/;
+
+export type StoreImageResult = { ok: true; url: string; imageId: string } | { ok: false; error: string };
+
+let imageDir: string | null = null;
+
+export function getImageDir(): string {
+  if (!imageDir) imageDir = process.env.IMAGE_STORE_DIR?.trim() || path.resolve("data", "images");
+  return imageDir;
+}
+
+// Mainly for tests
+export function setImageDir(dir: string) {
+  imageDir = dir;
+}
+
+function sniffType(data: Buffer) {
+  return IMAGE_TYPES.find((t) => {
+    if (data.length < t.magic.length) return false;
+    if (!t.magic.every((b, i) => data[i] === b)) return false;
+    // RIFF is shared with other formats; WebP has its own tag at offset 8
+    return t.ext !== "webp" || data.subarray(8, 12).toString("ascii") === "WEBP";
+  });
+}
+
+/**
+ * Store image bytes under their SHA-256, so identical uploads share one file.
+ * The declared MIME type must match what the bytes actually are.
+ */
+export function storeImage(data: Buffer, declaredMime?: string): StoreImageResult {
+  if (data.length === 0) return { ok: false, error: "Image is empty" };
+  if (data.length > MAX_IMAGE_BYTES) return { ok: false, error: `Image is larger than ${MAX_IMAGE_BYTES} bytes` };
+
+  const type = sniffType(data);
+  if (!type) return { ok: false, error: `Unsupported image type (allowed: ${ALLOWED_IMAGE_MIME_TYPES.join(", ")})` };
+  if (declaredMime && declaredMime !== type.mime) return { ok: false, error: "Content-Type does not match the image data" };
+
+  const imageId = `${createHash("sha256").update(data).digest("hex")}.${type.ext}`;
+  const dir = getImageDir();
+  const file = path.join(dir, imageId);
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(dir, { recursive: true });
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, data);
+    fs.renameSync(tmp, file);
+    logger.debug(`Stored image ${imageId} (${data.length} bytes)`);
+  }
+  return { ok: true, url: `${IMAGE_URL_PREFIX}${imageId}`, imageId };
+}
+
+// Absolute path of a stored image, or null if the id is malformed or unknown.
+export function resolveStoredImage(imageId: string): string | null {
+  if (!STORED_NAME.test(imageId)) return null;
+  const file = path.join(getImageDir(), imageId);
+  return fs.existsSync(file) ? file : null;
+}
+
+// True when submission content is a URL returned by storeImage for a file we still have.
+export function isStoredImageUrl(content: string): boolean {
+  const imageId = imageIdFromUrl(content);
+  return imageId !== null && resolveStoredImage(imageId) !== null;
+}
+
+// Id of the stored image behind an image URL, or null for anything else
+export function imageIdFromUrl(content: string): string | null {
+  if (!content.startsWith(IMAGE_URL_PREFIX)) return null;
+  const imageId = content.slice(IMAGE_URL_PREFIX.length);
+  return STORED_NAME.test(imageId) ? imageId : null;
+}
+
+/** Whether `bytes` more would still fit in the game's upload quota. */
+export function withinGameQuota(game: Game, bytes: number): boolean {
+  const used = (game.uploads ?? []).reduce((sum, u) => sum + u.bytes, 0);
+  return used + bytes <= MAX_GAME_IMAGE_BYTES;
+}
+
+// Re-uploading an image the game already holds doesn't count twice
+export function recordGameUpload(game: Game, playerId: string, imageId: string, bytes: number) {
+  const uploads = (game.uploads ??= []);
+  if (uploads.some((u) => u.imageId === imageId)) return;
+  uploads.push({ imageId, playerId, bytes, at: Date.now() });
+}
+
+// Every stored image a game refers to: uploads and image submissions of every match
+export function gameImageIds(game: Game): Set<string> {
+  const ids = new Set((game.uploads ?? []).map((u) => u.imageId));
+  const contents = [
+    ...game.rounds.flatMap((r) => r.submissions.map((s) => s.content)),
+    ...(game.events ?? []).flatMap((e) => (e.type === "SUBMISSION" ? [e.content] : [])),
+  ];
+  for (const content of contents) {
+    const imageId = imageIdFromUrl(content);
+    if (imageId) ids.add(imageId);
+  }
+  return ids;
+}
+
+/**
+ * Delete the images of a game being deleted. Images are stored by content, so
+ * any that `others` still refer to are kept.
+ */
+export function releaseGameImages(game: Game, others: readonly Game[]): number {
+  const kept = new Set(others.filter((g) => g.code !== game.code).flatMap((g) => [...gameImageIds(g)]));
+  let removed = 0;
+  for (const imageId of gameImageIds(game)) {
+    if (kept.has(imageId)) continue;
+    fs.rmSync(path.join(getImageDir(), imageId), { force: true });
+    removed++;
+  }
+  if (removed > 0) logger.debug(`Deleted ${removed} image(s) of game ${game.code}`);
+  return removed;
+}
@@ -0,0 +1,78 @@
+// server/game/moderation.ts
+import type { Game, Round, Submission, SubmissionModeration, ToxicityAssessment } from "./gameTypes";
+import logger from "../config/loggerWinston";
+import { getGameSettings } from "./gameSettings";
+import { isStoredImageUrl } from "./imageStore";
+import { recordModeration } from "./moderationLog";
+import { assessText, assessTexts } from "./toxicity";
+
+/**
+ * Moderation of submissions, before anyone else sees them. The game's
+ * moderationPolicy decides what a toxic line becomes: an error for its author
+ * (BLOCK), the replacement text (MASK), or the original behind a warning the
+ * voting screen keeps hidden until tapped (FLAG). Every such decision goes to
+ * the game's moderation log. Humans are checked as they submit; AI lines get
+ * the same treatment when submissions close, so a masked or flagged line says
+ * nothing about who wrote it.
+ */
+
+export type SubmissionCheck =
+  | { ok: true; content: string; moderation?: SubmissionModeration }
+  | { ok: false; error: string };
+
+export async function moderateSubmission(game: Game, roundNumber: number, playerId: string, content: string): Promise<SubmissionCheck> {
+  // Images aren't scored
+  if (isStoredImageUrl(content)) return { ok: true, content };
+
+  return applyPolicy(game, roundNumber, playerId, content, await assessText(game, content));
+}
+
+function applyPolicy(
+  game: Game,
+  roundNumber: number,
+  playerId: string,
+  content: string,
+  assessment: ToxicityAssessment
+): SubmissionCheck {
+  if (assessment.unavailable) logger.warn(`Game ${game.code}: no moderation provider could score a submission`);
+  if (!assessment.isToxic) return { ok: true, content };
+
+  const details = { scores: assessment.scores, ...(assessment.summary ? { summary: assessment.summary } : {}) };
+  const policy = getGameSettings(game).moderationPolicy;
+  const action = policy === "BLOCK" ? "BLOCKED" : policy === "MASK" ? "MASKED" : "FLAGGED";
+  recordModeration(game, { roundNumber, playerId, source: "SUBMISSION", text: content, action, ...details });
+
+  switch (action) {
+    case "BLOCKED":
+      return { ok: false, error: "Your submission was blocked by moderation. Try rephrasing it." };
+    case "MASKED":
+      return { ok: true, content: assessment.replacedText, moderation: { action, ...details } };
+    case "FLAGGED":
+      return { ok: true, content, moderation: { action, ...details } };
+  }
+}
+
+// AI lines moderation hasn't looked at yet: text only, placeholders for missed submissions skipped
+export function uncheckedAISubmissions(game: Game, round: Round): Submission[] {
+  return round.submissions.filter(
+    (s) => !s.moderation && s.content.trim() && !isStoredImageUrl(s.content) && game.players.some((p) => p.playerId === s.playerId && p.isAI)
+  );
+}
+
+/**
+ * Run `submissions` (AI lines) through the game's policy. A line BLOCK turns
+ * away goes out empty, like a human who was blocked and gave up.
+ */
+export async function moderateAISubmissions(game: Game, round: Round, submissions: readonly Submission[]): Promise<void> {
+  // One classifier call for the round's AI lines
+  const assessments = await assessTexts(game, submissions.map((s) => s.content));
+  submissions.forEach((submission, i) => {
+    const checked = applyPolicy(game, round.roundNumber, submission.playerId, submission.content, assessments[i]!);
+    if (!checked.ok) {
+      submission.content = "";
+    } else {
+      submission.content = checked.content;
+      if (checked.moderation) submission.moderation = checked.moderation;
+    }
+  });
+}
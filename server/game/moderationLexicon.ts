@@ -0,0 +1,26 @@
+// server/game/moderationLexicon.ts
+
+/**
+ * Terms the local moderation provider looks for, by classifier category.
+ * Written plainly; text is normalized (case, leetspeak, stretched or spaced-out
+ * letters) before matching, so variants don't need entries of their own.
+ * Multi-word entries match as phrases.
+ */
+
+export interface LexiconEntry {
+  term: string;
+  category: "obscene" | "insult" | "threat" | "identity_hate";
+  score: number;
+}
+
+const OBSCENE = ["fuck", "fucking", "fucker", "motherfucker", "shit", "bullshit", "cunt", "cock", "dick", "pussy", "bitch", "bastard", "asshole", "wanker", "twat"];
+const INSULT = ["idiot", "moron", "retard", "dumbass", "scumbag", "piece of shit", "stupid bitch"];
+const THREAT = ["kill yourself", "kys", "i will kill you", "go die", "hope you die", "slit your throat", "i know where you live"];
+const IDENTITY_HATE = ["nigger", "nigga", "faggot", "fag", "dyke", "tranny", "chink", "spic", "kike", "wetback", "raghead"];
+
+export const DEFAULT_LEXICON: LexiconEntry[] = [
+  ...OBSCENE.map((term) => ({ term, category: "obscene" as const, score: 0.8 })),
+  ...INSULT.map((term) => ({ term, category: "insult" as const, score: 0.7 })),
+  ...THREAT.map((term) => ({ term, category: "threat" as const, score: 0.9 })),
+  ...IDENTITY_HATE.map((term) => ({ term, category: "identity_hate" as const, score: 0.95 })),
+];
@@ -0,0 +1,98 @@
+// server/game/moderationLog.ts
+import type { Game, ModerationRecord } from "./gameTypes";
+import { createHash, randomUUID } from "crypto";
+import logger from "../config/loggerWinston";
+
+/**
+ * Audit trail of moderation decisions. Records live on their game, so they are
+ * persisted with it, and are reviewed across games through /api/moderation.
+ * A text marked as a false positive is whitelisted for the whole process:
+ * later assessments of the same text let it through.
+ */
+
+// Keeps a persisted game bounded
+export const MAX_MODERATION_RECORDS = 500;
+
+// Hashes of texts reviewed as false positives
+const whitelist = new Set<string>();
+
+export function textHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export function isWhitelisted(text: string): boolean {
+  return whitelist.size > 0 && whitelist.has(textHash(text));
+}
+
+export function recordModeration(
+  game: Game,
+  entry: Omit<ModerationRecord, "recordId" | "at" | "textHash">
+): ModerationRecord {
+  const record: ModerationRecord = { recordId: randomUUID(), at: Date.now(), textHash: textHash(entry.text), ...entry };
+  const log = (game.moderationLog ??= []);
+  log.push(record);
+  if (log.length > MAX_MODERATION_RECORDS) log.splice(0, log.length - MAX_MODERATION_RECORDS);
+  logger.info(
+    `Moderation ${record.action} (${record.source.toLowerCase()}) in ${game.code} round ${record.roundNumber} by ${record.playerId}${record.actorId ? ` (from ${record.actorId})` : ""} :: ${record.summary ?? "toxic"}`
+  );
+  return record;
+}
+
+export interface ModerationQuery {
+  code?: string;
+  action?: ModerationRecord["action"];
+  source?: ModerationRecord["source"];
+  // Records scoring at least 0.5 in this category
+  category?: string;
+  falsePositive?: boolean;
+  limit?: number;
+}
+
+export type ListedModerationRecord = ModerationRecord & { code: string };
+
+/** Records across `games` matching the query, newest first. */
+export function listModerationRecords(games: readonly Game[], query: ModerationQuery = {}): ListedModerationRecord[] {
+  const out: ListedModerationRecord[] = [];
+  for (const game of games) {
+    if (query.code && game.code !== query.code) continue;
+    for (const record of game.moderationLog ?? []) {
+      if (query.action && record.action !== query.action) continue;
+      if (query.source && record.source !== query.source) continue;
+      if (query.category && (record.scores[query.category] ?? 0) < 0.5) continue;
+      if (query.falsePositive !== undefined && !!record.falsePositive !== query.falsePositive) continue;
+      out.push({ code: game.code, ...record });
+    }
+  }
+  out.sort((a, b) => b.at - a.at);
+  return query.limit ? out.slice(0, query.limit) : out;
+}
+
+export function rebuildModerationWhitelist(games: readonly Game[]) {
+  whitelist.clear();
+  for (const game of games) {
+    for (const record of game.moderationLog ?? []) {
+      // Reports and kicks aren't verdicts on their text
+      const scored = record.source === "SUBMISSION" || record.source === "CHAT";
+      if (scored && record.falsePositive) whitelist.add(record.textHash);
+    }
+  }
+}
+
+/**
+ * Mark (or unmark) a record as a false positive. Returns the updated record, or
+ * undefined if the game has no such record; the caller persists the game.
+ */
+export function markFalsePositive(
+  games: readonly Game[],
+  game: Game,
+  recordId: string,
+  falsePositive: boolean
+): ModerationRecord | undefined {
+  const record = game.moderationLog?.find((r) => r.recordId === recordId);
+  if (!record) return undefined;
+  if (falsePositive) record.falsePositive = true;
+  else delete record.falsePositive;
+  // Other records may share the text, so unmarking recomputes rather than removes
+  rebuildModerationWhitelist(games);
+  return record;
+}
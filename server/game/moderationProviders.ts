@@ -0,0 +1,234 @@
+// server/game/moderationProviders.ts
+import logger from "../config/loggerWinston";
+import type { LexiconEntry } from "./moderationLexicon";
+import { DEFAULT_LEXICON } from "./moderationLexicon";
+
+/**
+ * Where toxicity scores come from. The HTTP classifier is the real thing; the
+ * bundled lexicon is cruder but always available. MODERATION_PROVIDERS lists
+ * them in the order they're tried (default "http,lexicon"); the first one that
+ * answers decides. "off" disables scoring entirely. TOXICITY_URL points "http"
+ * at the classifier (default http://toxicity:8080); TOXICITY_URL=off leaves it
+ * out of the chain, which offline dev and seeded test games rely on.
+ */
+
+export interface ModerationVerdict {
+  isToxic: boolean;
+  // Category -> score in [0, 1], as the classifier reports them
+  scores: Record<string, number>;
+  // Set by a chain when a provider after the first answered (the classifier was down)
+  fallback?: boolean;
+}
+
+export interface ModerationProvider {
+  readonly name: string;
+  // null = couldn't score (unreachable, bad response); a chain then asks the next provider
+  score(text: string): Promise<ModerationVerdict | null>;
+  // Several texts in one call, verdicts in the same order; providers without it are asked one by one
+  scoreBatch?(texts: string[]): Promise<Array<ModerationVerdict | null>>;
+}
+
+export function scoreAll(provider: ModerationProvider, texts: string[]): Promise<Array<ModerationVerdict | null>> {
+  return provider.scoreBatch ? provider.scoreBatch(texts) : Promise.all(texts.map((t) => provider.score(t)));
+}
+
+const TOXIC_THRESHOLD = 0.5;
+
+function toVerdict(data: any): ModerationVerdict {
+  return { isToxic: !!data?.is_toxic, scores: data?.detailed_scores ?? {} };
+}
+
+// Submits and chat lines wait on the classifier, so a slow one counts as unavailable
+const DEFAULT_TIMEOUT_MS = 3000;
+
+function requestTimeoutMs(): number {
+  const parsed = parseInt(process.env.MODERATION_TIMEOUT_MS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_TIMEOUT_MS;
+}
+
+// A classifier that keeps failing (the default URL outside docker, say) is skipped
+// for a while, so texts go straight to the next provider instead of waiting on it
+const BREAKER_FAILURES = 3;
+const BREAKER_COOLDOWN_MS = (() => {
+  const parsed = parseInt(process.env.MODERATION_BREAKER_COOLDOWN_MS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 30_000;
+})();
+const breakers = new Map<string, { failures: number; openUntil: number }>();
+
+function breakerOpen(baseUrl: string): boolean {
+  return (breakers.get(baseUrl)?.openUntil ?? 0) > Date.now();
+}
+
+// Once the cooldown is over one request is let through; failing again reopens the breaker
+function recordOutcome(baseUrl: string, ok: boolean) {
+  if (ok) {
+    breakers.delete(baseUrl);
+    return;
+  }
+  const breaker = breakers.get(baseUrl) ?? { failures: 0, openUntil: 0 };
+  breaker.failures++;
+  if (breaker.failures >= BREAKER_FAILURES) {
+    if (!breakerOpen(baseUrl)) logger.warn(`Toxicity service at ${baseUrl} keeps failing; skipping it for ${BREAKER_COOLDOWN_MS}ms`);
+    breaker.openUntil = Date.now() + BREAKER_COOLDOWN_MS;
+  }
+  breakers.set(baseUrl, breaker);
+}
+
+// For tests
+export function resetModerationBreakers() {
+  breakers.clear();
+}
+
+async function postPredict(baseUrl: string, body: unknown, timeoutMs: number): Promise<any> {
+  const res = await fetch(`${baseUrl}/predict`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(timeoutMs),
+  } as any);
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  return res.json();
+}
+
+/**
+ * The classifier at `baseUrl`. `/predict` takes {text} for one text; a batch is
+ * sent as {texts} and expects {results} in the same order. A service that
+ * doesn't answer batches that way is asked text by text instead. Requests
+ * that take longer than `timeoutMs` (MODERATION_TIMEOUT_MS) are abandoned.
+ */
+export function createHttpModerationProvider(baseUrl: string, timeoutMs = requestTimeoutMs()): ModerationProvider {
+  const score = async (text: string): Promise<ModerationVerdict | null> => {
+    if (breakerOpen(baseUrl)) return null;
+    try {
+      const verdict = toVerdict(await postPredict(baseUrl, { text }, timeoutMs));
+      recordOutcome(baseUrl, true);
+      return verdict;
+    } catch (e) {
+      logger.warn(`Toxicity service error: ${String(e)}`);
+      recordOutcome(baseUrl, false);
+      return null;
+    }
+  };
+  return {
+    name: "http",
+    score,
+    async scoreBatch(texts) {
+      if (texts.length <= 1 || breakerOpen(baseUrl)) return Promise.all(texts.map(score));
+      try {
+        const data = await postPredict(baseUrl, { texts }, timeoutMs);
+        if (Array.isArray(data?.results) && data.results.length === texts.length) {
+          recordOutcome(baseUrl, true);
+          return data.results.map(toVerdict);
+        }
+        logger.debug("Toxicity service answered a batch without results; scoring one by one");
+      } catch (e) {
+        logger.debug(`Toxicity batch failed (${String(e)}); scoring one by one`);
+      }
+      return Promise.all(texts.map(score));
+    },
+  };
+}
+
+const LEET: Record<string, string> = { "0": "o", "3": "e", "4": "a", "5": "s", "7": "t", "8": "b", "@": "a", "$": "s", "+": "t" };
+
+/**
+ * Forms of `text` the lexicon is matched against: lowercase without accents,
+ * leetspeak decoded ("1" tried as both i and l), spaced-out letters joined
+ * ("f u c k") and stretched ones collapsed ("fuuuck").
+ */
+export function normalizeForLexicon(text: string): string[] {
+  const base = text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[034578@$+]/g, (c) => LEET[c] ?? c)
+    .replace(/[!|]+(?=[a-z1])/g, "i")
+    // Punctuation inside a word: "sh.it", "k-y-s"
+    .replace(/(?<=[a-z1])[.*_-]+(?=[a-z1])/g, "");
+  return Array.from(new Set(["i", "l"].map((one) => base.replace(/1/g, one))), (s) =>
+    s
+      .replace(/\b[a-z](?:\s+[a-z]\b){2,}/g, (m) => m.replace(/\s+/g, ""))
+      .replace(/([a-z])\1+/g, "$1")
+      .replace(/[^a-z]+/g, " ")
+      .trim()
+  );
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function createLexiconModerationProvider(lexicon: readonly LexiconEntry[] = DEFAULT_LEXICON): ModerationProvider {
+  // Terms go through the same normalization as the text, so "asshole" matches "a$$h0le" as "ashole"
+  const patterns = lexicon.map((e) => ({
+    ...e,
+    re: new RegExp(`\\b${escapeRegExp(normalizeForLexicon(e.term)[0] ?? e.term)}\\b`),
+  }));
+  return {
+    name: "lexicon",
+    async score(text) {
+      const forms = normalizeForLexicon(text);
+      const scores: Record<string, number> = {};
+      for (const p of patterns) {
+        if (forms.some((f) => p.re.test(f))) scores[p.category] = Math.max(scores[p.category] ?? 0, p.score);
+      }
+      const top = Math.max(0, ...Object.values(scores));
+      if (top > 0) scores.toxic = top;
+      return { isToxic: top >= TOXIC_THRESHOLD, scores };
+    },
+  };
+}
+
+export function createModerationChain(providers: readonly ModerationProvider[]): ModerationProvider {
+  return {
+    name: providers.map((p) => p.name).join(">"),
+    async score(text) {
+      for (const [i, provider] of providers.entries()) {
+        const verdict = await provider.score(text);
+        if (verdict) return i === 0 ? verdict : { ...verdict, fallback: true };
+      }
+      return null;
+    },
+    async scoreBatch(texts) {
+      const out: Array<ModerationVerdict | null> = texts.map(() => null);
+      let pending = texts.map((_, i) => i);
+      for (const [p, provider] of providers.entries()) {
+        if (pending.length === 0) break;
+        const verdicts = await scoreAll(provider, pending.map((i) => texts[i]!));
+        pending = pending.filter((i, j) => {
+          const verdict = verdicts[j];
+          if (verdict) out[i] = p === 0 ? verdict : { ...verdict, fallback: true };
+          return !verdict;
+        });
+      }
+      return out;
+    },
+  };
+}
+
+// TOXICITY_URL=off drops the HTTP classifier (offline dev, reproducible test games)
+export function toxicityUrl(): string | null {
+  const url = process.env.TOXICITY_URL?.trim() || "http://toxicity:8080";
+  return url.toLowerCase() === "off" ? null : url;
+}
+
+const lexiconProvider = createLexiconModerationProvider();
+
+/** The configured chain, or null when scoring is off. Read from the environment on each call. */
+export function resolveModerationProvider(): ModerationProvider | null {
+  const names = (process.env.MODERATION_PROVIDERS ?? "http,lexicon")
+    .split(",")
+    .map((n) => n.trim().toLowerCase())
+    .filter(Boolean);
+  const providers: ModerationProvider[] = [];
+  for (const name of names) {
+    if (name === "http") {
+      const url = toxicityUrl();
+      if (url) providers.push(createHttpModerationProvider(url));
+    } else if (name === "lexicon") {
+      providers.push(lexiconProvider);
+    }
+  }
+  if (providers.length === 0) return null;
+  return providers.length === 1 ? providers[0]! : createModerationChain(providers);
+}
@@ -0,0 +1,307 @@
+// server/game/offlineAI.ts
+import type { AIRole, Round } from "./gameTypes";
+import type { Rng } from "./rng";
+import type { StyleProfile } from "./aiText";
+import { cleanSingleLine, similarity, suspicionScore, truncateToLimit } from "./aiText";
+import { pickWith, shuffleWith } from "./rng";
+import { pickSampleForRole } from "./aiRoles";
+import type { ChatIntent } from "./aiChat";
+
+/**
+ * How AIs play without a model (no API key configured, or the model gave
+ * nothing usable). Lines come from a phrase bank for the round's prompt
+ * template, dressed up to match the humans' style; votes go to the human
+ * submission that looks the most bot-like, where the humans are likely to pile on.
+ * Discussion messages come from short lists per intent (see aiChat.ts).
+ */
+
+// Answers per prompt template ("<packId>/<templateId>"); {target} is the round's target
+export const PHRASE_BANK: Record<string, string[]> = {
+  "classic/hates": [
+    "Mondays, no question",
+    "when people chew loudly",
+    "{target} hates waiting for anything",
+    "slow walkers in the hallway",
+    "group projects",
+    "getting woken up before 10",
+    "cold pizza",
+  ],
+  "classic/likes": [
+    "{target} always shows up when it matters",
+    "the laugh, easily",
+    "never takes anything too seriously",
+    "shares snacks without being asked",
+    "great taste in music",
+    "{target} is weirdly good at giving advice",
+  ],
+  "classic/bad-day": [
+    "I'm going back to bed",
+    "don't talk to me until I've had coffee",
+    "why does this always happen to me",
+    "can today just be over already",
+    "nope. not today",
+    "who moved my charger",
+  ],
+  "classic/forgets": [
+    "their keys, every single time",
+    "to text back",
+    "where they parked",
+    "birthdays, even their own",
+    "the charger",
+    "that we had plans",
+  ],
+  "classic/sentence": [
+    "{target} is always five minutes late",
+    "{target} has a playlist for everything",
+    "{target} would survive a zombie apocalypse",
+    "{target} laughs at their own jokes",
+    "{target} still owes me money",
+    "{target} is secretly really competitive",
+  ],
+  "party/roommates": [
+    "nobody would ever do the dishes",
+    "fighting over the thermostat",
+    "the fridge would be empty in a day",
+    "they'd stay up until 4am every night",
+    "someone would eat the other's leftovers",
+  ],
+  "party/superpower": [
+    "always knowing when the pizza arrives",
+    "finding the tv remote instantly",
+    "never getting a paper cut",
+    "perfectly toasting bread",
+    "knowing every song from the first note",
+  ],
+  "party/group-chat": [
+    "a blurry photo with no context",
+    "did anyone else see that",
+    "a meme from 2016",
+    "who's coming tonight",
+    "a voice message nobody will listen to",
+  ],
+  "party/vacation": [
+    "sunburn, snacks, chaos",
+    "lost, loud, happy",
+    "late for every flight",
+    "beach, naps, arguments",
+    "too much luggage",
+  ],
+  "party/excuse": [
+    "my alarm didn't go off",
+    "traffic was insane",
+    "I was literally on my way",
+    "the bus left early",
+    "I couldn't find my other shoe",
+  ],
+  "party/karaoke": [
+    "Bohemian Rhapsody, obviously",
+    "something by Taylor Swift",
+    "Don't Stop Believin'",
+    "whatever nobody else picked",
+    "a power ballad, always",
+  ],
+};
+
+// For templates the bank doesn't know, built around a word from the prompt itself
+const PROMPT_FRAMES = [
+  "{target} and {topic}, name a worse combo",
+  "the {topic} thing with {target}",
+  "{topic}? {target} has a story for that",
+  "honestly {target} plus {topic} is chaos",
+  "{topic}, classic {target}",
+  "anything with {topic} tbh",
+];
+
+const GENERIC_LINES = ["hard to say", "{target} would know", "no comment", "that one is easy", "same as always"];
+
+const STOPWORDS = new Set(
+  "what which who whom name describe write would does did have has your about with that this their there when where they them than then from into always short sentence thing things something".split(" ")
+);
+
+// Casual spellings tried one by one when the humans write casually
+const SLANG: Array<[RegExp, string]> = [
+  [/\byou\b/gi, "u"],
+  [/\byour\b/gi, "ur"],
+  [/\breally\b/gi, "rly"],
+  [/\bgoing to\b/gi, "gonna"],
+  [/\bbecause\b/gi, "cuz"],
+  [/\bthough\b/gi, "tho"],
+  [/\bprobably\b/gi, "prob"],
+  [/\bdon't\b/gi, "dont"],
+  [/\bI'm\b/g, "im"],
+];
+
+// Discussion lines per intent; a line is only used when its {placeholders} can be filled
+const CHAT_LINES: Record<ChatIntent | "REACT_CALLED" | "REACT_SURPRISED" | "DEFEND_AGAIN" | "SUSPECT_AGAIN", string[]> = {
+  SMALL_TALK: [
+    "honestly they all sound pretty human to me",
+    "hmm one of those feels a bit off",
+    "this round is harder than the last one",
+    "idk, I'm going with my gut on this one",
+    "someone's trying way too hard lol",
+    "can we agree to not just vote randomly",
+    "I have a theory but I'm not sure yet",
+  ],
+  SUSPECT: [
+    "{suspect} that answer felt kinda off",
+    "idk, {suspect}'s line reads like a bot wrote it",
+    "{suspect} is sus to me ngl",
+    "I'm looking at {suspect} this round",
+    "{suspect}'s answer is way too generic",
+    "{suspect} didn't even try to sound normal",
+  ],
+  DEFEND: [
+    "wait why me? I wrote \"{mine}\" lol",
+    "it wasn't me, {accuser} is just guessing",
+    "nah I'm human, look at {suspect} instead",
+    "{accuser} I literally typed that in 5 seconds",
+    "bro I'm not the bot 😭",
+    "why is everyone looking at me, {suspect} is way weirder",
+  ],
+  DEFEND_AGAIN: ["{accuser} you said that last round too lol", "{accuser} why is it always me with you", "again {accuser}? I'm starting to think it's you"],
+  SUSPECT_AGAIN: ["still think it's {suspect} tbh", "{suspect} again, same as last round", "I said {suspect} before and I'm sticking with it"],
+  REACT: ["rip {eliminated}", "ok {eliminated} is gone, who's next", "didn't expect {eliminated} to go out"],
+  REACT_CALLED: ["called it, {eliminated} was sus", "told you about {eliminated}", "{eliminated} going out makes sense to me"],
+  REACT_SURPRISED: ["wow I really thought {eliminated} was fine", "wait {eliminated}?? didn't see that coming", "kinda feel bad for {eliminated}"],
+};
+
+const EMOJI = ["😂", "💀", "🙃", "😭", "👀"];
+
+// How many candidate lines to style before picking one for the role
+const CANDIDATES = 6;
+
+// The most telling word in the prompt, e.g. "superpower" or "karaoke"
+export function promptTopic(prompt: string, targetAlias: string): string | null {
+  const target = targetAlias.toLowerCase();
+  const words = prompt
+    .toLowerCase()
+    .split(/[^a-z']+/)
+    .filter((w) => w.length > 3 && !STOPWORDS.has(w) && w !== target && !w.startsWith(`${target}'`));
+  return words.sort((a, b) => b.length - a.length)[0] ?? null;
+}
+
+function swapTypo(line: string, rng: Rng): string {
+  const words = line.split(" ");
+  const candidates = words.map((w, i) => ({ w, i })).filter(({ w }) => /^[a-z]{4,}$/i.test(w));
+  if (candidates.length === 0) return line;
+  const { w, i } = pickWith(rng, candidates);
+  const at = 1 + Math.floor(rng() * (w.length - 2));
+  words[i] = w.slice(0, at) + w[at + 1] + w[at] + w.slice(at + 2);
+  return words.join(" ");
+}
+
+/** Nudge a line towards the casing, punctuation, slang and emoji habits of the group. */
+export function styleLike(line: string, profile: StyleProfile, rng: Rng): string {
+  let out = line;
+  const casual = (profile.allLowercaseRate + profile.noPunctuationRate) / 2;
+
+  if (rng() < profile.allLowercaseRate) out = out.toLowerCase();
+  if (rng() < profile.noPunctuationRate) out = out.replace(/[.,!?;:]+/g, "");
+  else if (!/[.!?]$/.test(out) && rng() < 0.5) out += ".";
+
+  for (const [re, replacement] of SLANG) {
+    if (rng() < casual) out = out.replace(re, replacement);
+  }
+  if (rng() < casual * 0.3) out = swapTypo(out, rng);
+  if (rng() < profile.emojiRate) out += ` ${pickWith(rng, EMOJI)}`;
+  return cleanSingleLine(out);
+}
+
+export interface OfflineLineRequest {
+  round: Round;
+  role: AIRole;
+  profile: StyleProfile;
+  // Length the role is aiming for
+  targetChars: number;
+  // Lines already on the table (human submissions, teammates' lines); the result stays clear of them
+  avoid: string[];
+}
+
+// Raw answers for the round, before styling
+function answersFor(round: Round): string[] {
+  const bank = round.promptKey ? PHRASE_BANK[round.promptKey] : undefined;
+  const topic = round.roundPrompt ? promptTopic(round.roundPrompt, round.targetAlias) : null;
+  const framed = topic ? PROMPT_FRAMES.map((f) => f.replace(/\{topic\}/g, topic)) : [];
+  const lines = bank ?? (framed.length > 0 ? framed : GENERIC_LINES);
+  return lines.map((l) => l.replace(/\{target\}/g, round.targetAlias || "they"));
+}
+
+/** A line for the round written without a model. */
+export function writeOfflineLine(req: OfflineLineRequest, rng: Rng): string {
+  const answers = shuffleWith(rng, answersFor(req.round)).slice(0, CANDIDATES);
+  const maxLen = Math.min(140, Math.max(req.targetChars + 20, 20));
+  const styled = answers.map((a) => truncateToLimit(styleLike(a, req.profile, rng), maxLen)).filter(Boolean);
+
+  // Close copies of a line already submitted are what players look for first
+  const fresh = styled.filter((s) => req.avoid.every((a) => similarity(s, a) < 0.5));
+  const pool = fresh.length > 0 ? fresh : styled;
+  return pool.length > 0 ? pickSampleForRole(pool, req.role, req.targetChars, rng) : "hard to say";
+}
+
+export interface OfflineChatRequest {
+  intent: ChatIntent;
+  profile: StyleProfile;
+  // Chat lines so far; the result stays clear of them
+  avoid: string[];
+  suspect?: string;
+  accuser?: string;
+  // The AI's own submission, for quoting in its defense
+  mine?: string;
+  eliminated?: { colorId: string; suspected: boolean; teammate: boolean };
+  // Same accuser or suspect as in an earlier round
+  repeat?: boolean;
+}
+
+function fillChatLine(line: string, values: Record<string, string | undefined>): string | null {
+  let missing = false;
+  const out = line.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = values[key];
+    if (value === undefined) missing = true;
+    return value ?? "";
+  });
+  return missing ? null : out;
+}
+
+/** A discussion message written without a model, kept clear of what's already in the chat. */
+export function writeOfflineChatLine(req: OfflineChatRequest, rng: Rng): string {
+  const e = req.eliminated;
+  const key =
+    req.intent === "REACT" && e
+      ? e.suspected
+        ? "REACT_CALLED"
+        : e.teammate
+          ? "REACT_SURPRISED"
+          : "REACT"
+      : req.repeat && (req.intent === "DEFEND" || req.intent === "SUSPECT")
+        ? (`${req.intent}_AGAIN` as const)
+        : req.intent;
+  const values = {
+    suspect: req.suspect,
+    accuser: req.accuser,
+    mine: req.mine ? truncateToLimit(req.mine, 40) : undefined,
+    eliminated: e?.colorId,
+  };
+  const filled = CHAT_LINES[key].map((l) => fillChatLine(l, values)).filter((l): l is string => !!l);
+  const lines = filled.length > 0 ? filled : CHAT_LINES.SMALL_TALK;
+  const fresh = lines.filter((l) => req.avoid.every((a) => similarity(l, a) < 0.5));
+  return truncateToLimit(styleLike(pickWith(rng, fresh.length > 0 ? fresh : lines), req.profile, rng), 140);
+}
+
+/**
+ * The human submission to vote for: the one that looks the most bot-like to a
+ * player, with votes it already has breaking near-ties so the team pushes the same way.
+ */
+export function chooseOfflineVote(
+  options: Array<{ submissionId: string; content: string }>,
+  allContents: string[],
+  votesSoFar: Array<{ submissionId: string }>,
+  rng: Rng
+): string {
+  const scored = options.map((o) => {
+    const others = allContents.filter((c) => c !== o.content);
+    const votes = votesSoFar.filter((v) => v.submissionId === o.submissionId).length;
+    return { id: o.submissionId, score: suspicionScore(o.content, others) + 0.5 * votes };
+  });
+  const best = Math.max(...scored.map((s) => s.score));
+  return pickWith(rng, scored.filter((s) => s.score === best)).id;
+}
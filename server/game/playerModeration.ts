@@ -0,0 +1,90 @@
+// server/game/playerModeration.ts
+import type { Game, PlayerReportSummary } from "./gameTypes";
+import { truncateToLimit } from "./aiText";
+import { recordModeration } from "./moderationLog";
+
+/**
+ * Reports players file against each other, and the bans that keep a kicked
+ * player's session out of the game for a while. Kicking itself changes the
+ * round, so it lives in gameService.ts.
+ */
+
+export const MAX_REPORT_REASON_CHARS = 200;
+
+// How long a kicked player's session is refused
+export const KICK_BAN_MS = (() => {
+  const parsed = parseInt(process.env.KICK_BAN_MS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 10 * 60 * 1000;
+})();
+
+export type ReportResult = { ok: true; summary: PlayerReportSummary } | { ok: false; error: string };
+
+/**
+ * File (or update) `reporterId`'s report of `targetId`. A player counts once per
+ * target; reporting again only replaces the reason.
+ */
+export function reportPlayer(game: Game, reporterId: string, targetId: string, rawReason?: string): ReportResult {
+  if (reporterId === targetId) return { ok: false, error: "You can't report yourself" };
+  if (!game.players.some((p) => p.playerId === reporterId)) return { ok: false, error: "Only players in this game can report" };
+  if (!game.players.some((p) => p.playerId === targetId)) return { ok: false, error: "Player not found" };
+
+  const reason = truncateToLimit(rawReason ?? "", MAX_REPORT_REASON_CHARS);
+  const reports = (game.reports ??= []);
+  const existing = reports.find((r) => r.reporterId === reporterId && r.targetId === targetId);
+  if (existing) {
+    if (reason) existing.reason = reason;
+  } else {
+    reports.push({ reporterId, targetId, roundNumber: game.roundNumber, at: Date.now(), ...(reason ? { reason } : {}) });
+  }
+
+  recordModeration(game, {
+    roundNumber: game.roundNumber,
+    playerId: targetId,
+    actorId: reporterId,
+    source: "REPORT",
+    text: reason,
+    action: "REPORTED",
+    summary: reason || "no reason given",
+    scores: {},
+  });
+  return { ok: true, summary: reportSummaries(game).find((s) => s.playerId === targetId)! };
+}
+
+/** Reported players, most reported first. */
+export function reportSummaries(game: Game): PlayerReportSummary[] {
+  const byTarget = new Map<string, PlayerReportSummary>();
+  for (const report of game.reports ?? []) {
+    const player = game.players.find((p) => p.playerId === report.targetId);
+    if (!player) continue;
+    let summary = byTarget.get(report.targetId);
+    if (!summary) {
+      summary = { playerId: player.playerId, colorId: player.colorId, alias: player.alias, count: 0, reasons: [] };
+      byTarget.set(report.targetId, summary);
+    }
+    summary.count++;
+    if (report.reason) summary.reasons.push(report.reason);
+  }
+  return Array.from(byTarget.values()).sort((a, b) => b.count - a.count);
+}
+
+// Refuse `playerId`'s session for `durationMs`
+export function banPlayer(game: Game, playerId: string, durationMs = KICK_BAN_MS) {
+  const now = Date.now();
+  game.bans = [...(game.bans ?? []).filter((b) => b.until > now && b.playerId !== playerId), { playerId, until: now + durationMs }];
+}
+
+export function isBanned(game: Game, playerId: string): boolean {
+  const now = Date.now();
+  return (game.bans ?? []).some((b) => b.playerId === playerId && b.until > now);
+}
+
+/**
+ * Why a new player can't join, if they can't: the session they left behind
+ * (`previousPlayerId`, from the token the client still holds) is banned. Bans
+ * go by session only; a room shares one Wi-Fi address, so banning that would
+ * lock everyone else out too.
+ */
+export function joinRefusal(game: Game, joiner: { previousPlayerId?: string }): string | undefined {
+  if (!joiner.previousPlayerId) return undefined;
+  return isBanned(game, joiner.previousPlayerId) ? "You were removed from this game" : undefined;
+}
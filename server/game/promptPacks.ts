@@ -0,0 +1,205 @@
+// server/game/promptPacks.ts
+import fs from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import type { Game } from "./gameTypes";
+import logger from "../config/loggerWinston";
+
+export type ContentRating = "family" | "teen" | "mature";
+
+export interface PromptTemplate {
+  id: string;
+  // May contain {target} and {randomPlayer}
+  text: string;
+}
+
+export interface PromptPack {
+  id: string;
+  name: string;
+  language: string;
+  tags: string[];
+  contentRating: ContentRating;
+  templates: PromptTemplate[];
+}
+
+export interface PromptPackSummary {
+  id: string;
+  name: string;
+  language: string;
+  tags: string[];
+  contentRating: ContentRating;
+  templateCount: number;
+}
+
+export const KNOWN_PLACEHOLDERS = ["target", "randomPlayer"] as const;
+const CONTENT_RATINGS: readonly ContentRating[] = ["family", "teen", "mature"];
+const PACK_EXTENSIONS = [".json", ".yaml", ".yml"];
+
+export const DEFAULT_PROMPT_PACK_IDS = ["classic"];
+
+// Used when no pack directory is available (e.g. tests run from another cwd)
+const BUILTIN_PACK: PromptPack = {
+  id: "classic",
+  name: "Classic",
+  language: "en",
+  tags: ["general"],
+  contentRating: "family",
+  templates: [
+    { id: "hates", text: "Name one thing {target} hates." },
+    { id: "likes", text: "Name what you like about {target}." },
+    { id: "bad-day", text: "What would {target} say on a bad day?" },
+    { id: "forgets", text: "What does {target} always forget?" },
+    { id: "sentence", text: "Write a short sentence about {target}." },
+  ],
+};
+
+function defaultPackDir(): string {
+  return process.env.PROMPT_PACK_DIR?.trim() || path.resolve("prompts", "packs");
+}
+
+function placeholdersIn(text: string): string[] {
+  return Array.from(text.matchAll(/\{([^{}]*)\}/g), (m) => m[1] ?? "");
+}
+
+/**
+ * Check a parsed pack document. Returns every problem found so the lint command
+ * can report them all at once; `pack` is only set when there are no errors.
+ */
+export function validatePromptPack(raw: unknown, source: string): { pack?: PromptPack; errors: string[] } {
+  const errors: string[] = [];
+  const doc = (raw ?? {}) as Record<string, unknown>;
+  const str = (key: string) => (typeof doc[key] === "string" && (doc[key] as string).trim() ? (doc[key] as string).trim() : null);
+
+  const id = str("id");
+  const name = str("name");
+  const language = str("language");
+  if (!id) errors.push(`${source}: "id" is required`);
+  if (!name) errors.push(`${source}: "name" is required`);
+  if (!language) errors.push(`${source}: "language" is required`);
+
+  const tags = Array.isArray(doc.tags) ? doc.tags.filter((t): t is string => typeof t === "string") : [];
+
+  const rating = doc.contentRating as ContentRating;
+  if (!CONTENT_RATINGS.includes(rating)) {
+    errors.push(`${source}: "contentRating" must be one of ${CONTENT_RATINGS.join(", ")}`);
+  }
+
+  const templates: PromptTemplate[] = [];
+  if (!Array.isArray(doc.templates) || doc.templates.length === 0) {
+    errors.push(`${source}: "templates" must be a non-empty list`);
+  } else {
+    const seen = new Set<string>();
+    doc.templates.forEach((t, i) => {
+      const tpl = (t ?? {}) as Record<string, unknown>;
+      const where = `${source}: templates[${i}]`;
+      if (typeof tpl.id !== "string" || !tpl.id.trim()) return void errors.push(`${where} is missing "id"`);
+      if (typeof tpl.text !== "string" || !tpl.text.trim()) return void errors.push(`${where} is missing "text"`);
+      if (seen.has(tpl.id)) errors.push(`${where} duplicates id "${tpl.id}"`);
+      seen.add(tpl.id);
+
+      for (const ph of placeholdersIn(tpl.text)) {
+        if (!(KNOWN_PLACEHOLDERS as readonly string[]).includes(ph)) {
+          errors.push(`${where} ("${tpl.id}") uses unknown placeholder {${ph}}`);
+        }
+      }
+      templates.push({ id: tpl.id.trim(), text: tpl.text.trim() });
+    });
+  }
+
+  if (errors.length > 0 || !id || !name || !language) return { errors };
+  return { pack: { id, name, language, tags, contentRating: rating, templates }, errors };
+}
+
+function parsePackFile(file: string): unknown {
+  const text = fs.readFileSync(file, "utf8");
+  return file.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+}
+
+// Read and validate every pack file in a directory.
+export function readPromptPackDir(dir: string): { packs: PromptPack[]; errors: string[] } {
+  const packs: PromptPack[] = [];
+  const errors: string[] = [];
+  if (!fs.existsSync(dir)) return { packs, errors: [`${dir}: directory not found`] };
+
+  for (const name of fs.readdirSync(dir).sort()) {
+    if (!PACK_EXTENSIONS.includes(path.extname(name))) continue;
+    const file = path.join(dir, name);
+    let raw: unknown;
+    try {
+      raw = parsePackFile(file);
+    } catch (err) {
+      errors.push(`${file}: could not parse (${String(err)})`);
+      continue;
+    }
+    const result = validatePromptPack(raw, file);
+    errors.push(...result.errors);
+    if (!result.pack) continue;
+    if (packs.some((p) => p.id === result.pack!.id)) {
+      errors.push(`${file}: pack id "${result.pack.id}" is already used by another file`);
+      continue;
+    }
+    packs.push(result.pack);
+  }
+  return { packs, errors };
+}
+
+let loadedPacks: PromptPack[] | null = null;
+
+export function loadPromptPacks(dir = defaultPackDir()): PromptPack[] {
+  const { packs, errors } = readPromptPackDir(dir);
+  for (const e of errors) logger.warn(`Prompt pack: ${e}`);
+  loadedPacks = packs.length > 0 ? packs : [BUILTIN_PACK];
+  return loadedPacks;
+}
+
+export function getPromptPacks(): PromptPack[] {
+  return loadedPacks ?? loadPromptPacks();
+}
+
+export function listPromptPacks(): PromptPackSummary[] {
+  return getPromptPacks().map((p) => ({
+    id: p.id,
+    name: p.name,
+    language: p.language,
+    tags: [...p.tags],
+    contentRating: p.contentRating,
+    templateCount: p.templates.length,
+  }));
+}
+
+function fillTemplate(text: string, target: string, randomPlayer: string): string {
+  return text.replace(/\{target\}/g, target).replace(/\{randomPlayer\}/g, randomPlayer);
+}
+
+/**
+ * Pick a prompt for the next round from the game's selected packs, avoiding
+ * templates already used this game until every one of them has been shown.
+ */
+export function pickRoundPrompt(
+  game: Game,
+  packIds: string[],
+  targetAlias: string,
+  random: () => number = Math.random
+): { text: string; templateKey: string } {
+  const all = getPromptPacks();
+  const selected = all.filter((p) => packIds.includes(p.id));
+  const packs = selected.length > 0 ? selected : all;
+
+  const candidates = packs.flatMap((p) => p.templates.map((t) => ({ key: `${p.id}/${t.id}`, text: t.text })));
+  game.usedPromptKeys = game.usedPromptKeys ?? [];
+  let fresh = candidates.filter((c) => !game.usedPromptKeys!.includes(c.key));
+  if (fresh.length === 0) {
+    // Every template has been used; start a new cycle
+    game.usedPromptKeys = [];
+    fresh = candidates;
+  }
+
+  const chosen = fresh[Math.floor(random() * fresh.length)] ?? candidates[0]!;
+  game.usedPromptKeys.push(chosen.key);
+
+  const target = targetAlias || "the target";
+  const others = game.players.filter((p) => p.alive && p.alias !== targetAlias).map((p) => p.alias);
+  const randomPlayer = others.length > 0 ? others[Math.floor(random() * others.length)]! : "someone";
+
+  return { text: fillTemplate(chosen.text, target, randomPlayer), templateKey: chosen.key };
+}
@@ -0,0 +1,81 @@
+// server/game/rng.ts
+import type { Game } from "./gameTypes";
+
+// A source of uniform numbers in [0, 1), like Math.random
+export type Rng = () => number;
+
+// mulberry32 step: advances a 32-bit state and returns [value, nextState]
+function step(state: number): [number, number] {
+  const next = (state + 0x6d2b79f5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+}
+
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    const [value, next] = step(state);
+    state = next;
+    return value;
+  };
+}
+
+// FNV-1a, for turning labels into seeds
+export function hashSeed(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+function ensureSeeded(game: Game): void {
+  if (game.rngSeed == null) game.rngSeed = randomSeed();
+  if (game.rngState == null) game.rngState = game.rngSeed;
+}
+
+/**
+ * The game's own random stream. Its position lives on the game (rngState), so
+ * it survives persistence and the same seed + the same inputs replay the same
+ * decisions.
+ */
+export function gameRng(game: Game): Rng {
+  ensureSeeded(game);
+  return () => {
+    const [value, next] = step(game.rngState!);
+    game.rngState = next;
+    return value;
+  };
+}
+
+/**
+ * An independent stream keyed by `label` that doesn't advance the game stream.
+ * Use it for values that may be asked for any number of times (e.g. the voting
+ * order every client fetches) and must come out the same each time.
+ */
+export function derivedRng(game: Game, label: string): Rng {
+  ensureSeeded(game);
+  return createRng(hashSeed(`${game.rngSeed}:${label}`));
+}
+
+export function pickWith<T>(rng: Rng, arr: readonly T[]): T {
+  if (arr.length === 0) throw new Error("pickWith called with empty array");
+  return arr[Math.floor(rng() * arr.length)]!;
+}
+
+// Fisher-Yates; returns a shuffled copy
+export function shuffleWith<T>(rng: Rng, arr: readonly T[]): T[] {
+  const out = [...arr];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j]!, out[i]!];
+  }
+  return out;
+}
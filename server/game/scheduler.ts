@@ -0,0 +1,169 @@
+// server/game/scheduler.ts
+import type { Game } from "./gameTypes";
+
+/**
+ * Owns every pending timer of one game: the phase timers (submit/vote/results)
+ * and the AI ones. Game code asks its scheduler for the time and for timers
+ * instead of using Date.now/setTimeout, so a game can be stopped as a whole or
+ * driven by a virtual clock.
+ */
+export interface Scheduler {
+  now(): number;
+  // A keyed timer replaces any pending timer with the same key
+  schedule(fn: () => void, delayMs: number, key?: string): number;
+  cancel(idOrKey: number | string): void;
+  cancelAll(): void;
+  pendingCount(): number;
+}
+
+// A scheduler whose time only moves when told to
+export interface VirtualScheduler extends Scheduler {
+  // Fire the earliest timer, moving time up to it; false if none are pending
+  runNext(): boolean;
+  // Fire everything due within `ms`, then leave time at now + ms
+  advanceBy(ms: number): void;
+}
+
+interface PendingTimer {
+  id: number;
+  key?: string;
+  at: number;
+  fn: () => void;
+}
+
+// Shared bookkeeping: ids, keys and cancellation. `arm`/`disarm` hook in the clock.
+function createTimerTable(arm: (timer: PendingTimer) => void, disarm: (timer: PendingTimer) => void, now: () => number) {
+  const pending = new Map<number, PendingTimer>();
+  const byKey = new Map<string, number>();
+  let nextId = 1;
+
+  function remove(timer: PendingTimer) {
+    pending.delete(timer.id);
+    if (timer.key && byKey.get(timer.key) === timer.id) byKey.delete(timer.key);
+  }
+
+  const scheduler: Scheduler = {
+    now,
+    schedule(fn, delayMs, key) {
+      if (key) scheduler.cancel(key);
+      const timer: PendingTimer = { id: nextId++, at: now() + Math.max(0, delayMs), fn };
+      if (key) {
+        timer.key = key;
+        byKey.set(key, timer.id);
+      }
+      pending.set(timer.id, timer);
+      arm(timer);
+      return timer.id;
+    },
+    cancel(idOrKey) {
+      const id = typeof idOrKey === "string" ? byKey.get(idOrKey) : idOrKey;
+      const timer = id != null ? pending.get(id) : undefined;
+      if (!timer) return;
+      disarm(timer);
+      remove(timer);
+    },
+    cancelAll() {
+      for (const timer of pending.values()) disarm(timer);
+      pending.clear();
+      byKey.clear();
+    },
+    pendingCount: () => pending.size,
+  };
+
+  // Called by the clock when a timer is due
+  function fire(timer: PendingTimer) {
+    if (!pending.has(timer.id)) return;
+    remove(timer);
+    timer.fn();
+  }
+
+  return { scheduler, pending, fire };
+}
+
+export function createRealScheduler(): Scheduler {
+  const handles = new Map<number, NodeJS.Timeout>();
+  const table = createTimerTable(
+    (timer) => {
+      handles.set(
+        timer.id,
+        setTimeout(() => {
+          handles.delete(timer.id);
+          table.fire(timer);
+        }, timer.at - Date.now())
+      );
+    },
+    (timer) => {
+      clearTimeout(handles.get(timer.id));
+      handles.delete(timer.id);
+    },
+    () => Date.now()
+  );
+  return table.scheduler;
+}
+
+export function createVirtualScheduler(startAt = Date.UTC(2025, 0, 1)): VirtualScheduler {
+  let current = startAt;
+  const table = createTimerTable(
+    () => undefined,
+    () => undefined,
+    () => current
+  );
+
+  // Earliest due first; equal deadlines fire in scheduling order
+  function earliest(): PendingTimer | undefined {
+    let best: PendingTimer | undefined;
+    for (const t of table.pending.values()) {
+      if (!best || t.at < best.at || (t.at === best.at && t.id < best.id)) best = t;
+    }
+    return best;
+  }
+
+  return {
+    ...table.scheduler,
+    runNext() {
+      const next = earliest();
+      if (!next) return false;
+      current = Math.max(current, next.at);
+      table.fire(next);
+      return true;
+    },
+    advanceBy(ms) {
+      const until = current + ms;
+      for (let next = earliest(); next && next.at <= until; next = earliest()) {
+        current = Math.max(current, next.at);
+        table.fire(next);
+      }
+      current = until;
+    },
+  };
+}
+
+const schedulers = new Map<string, Scheduler>();
+let schedulerFactory: () => Scheduler = createRealScheduler;
+
+// Used for games that don't have a scheduler yet; returns the previous factory
+export function setSchedulerFactory(factory: () => Scheduler): () => Scheduler {
+  const previous = schedulerFactory;
+  schedulerFactory = factory;
+  return previous;
+}
+
+export function schedulerFor(game: Pick<Game, "code">): Scheduler {
+  let scheduler = schedulers.get(game.code);
+  if (!scheduler) {
+    scheduler = schedulerFactory();
+    schedulers.set(game.code, scheduler);
+  }
+  return scheduler;
+}
+
+export function setGameScheduler(code: string, scheduler: Scheduler) {
+  schedulers.get(code)?.cancelAll();
+  schedulers.set(code, scheduler);
+}
+
+// Cancel everything still pending for a game and forget its scheduler
+export function disposeScheduler(code: string) {
+  schedulers.get(code)?.cancelAll();
+  schedulers.delete(code);
+}
@@ -0,0 +1,146 @@
+// server/game/toxicity.ts
+import type { Game, ToxicityAssessment } from "./gameTypes";
+import type { ModerationProvider, ModerationVerdict } from "./moderationProviders";
+import { getGameSettings } from "./gameSettings";
+import { isWhitelisted, textHash } from "./moderationLog";
+import { resolveModerationProvider, scoreAll } from "./moderationProviders";
+
+/**
+ * Toxicity assessments for what AIs read (aiPlayer.ts), discussion chat
+ * (chat.ts) and submissions (moderation.ts).
+ */
+
+export function pickTopCategories(scores: Record<string, number>, threshold = 0.5, maxCats = 3): string[] {
+  const entries = Object.entries(scores)
+    .filter(([k]) => k !== "non_toxic")
+    .sort((a, b) => (b[1] ?? 0) - (a[1] ?? 0))
+    .filter(([_, v]) => (v ?? 0) >= threshold)
+    .slice(0, maxCats)
+    .map(([k, v]) => `${k} ${(v ?? 0).toFixed(2)}`);
+  return entries;
+}
+
+export function buildReplacement(scores?: Record<string, number>, reason?: string): { replacedText: string; summary?: string } {
+  const cats = scores ? pickTopCategories(scores) : [];
+  const summary = cats.length > 0 ? cats.join(", ") : (reason || "content hidden");
+  const replacedText = `(content replaced due to toxicity: ${summary})`;
+  return { replacedText, summary };
+}
+
+// Verdicts shared by every game in the process, by provider chain and text hash.
+// Least recently used entries go first once the cache is full.
+const CACHE_SIZE = envInt("MODERATION_CACHE_SIZE", 5000);
+const CACHE_TTL_MS = envInt("MODERATION_CACHE_TTL_MS", 60 * 60 * 1000);
+const verdictCache = new Map<string, { verdict: ModerationVerdict; expiresAt: number }>();
+// Scoring under way, so concurrent requests for the same text share one call
+const inFlight = new Map<string, Promise<ModerationVerdict | null>>();
+
+function envInt(name: string, fallback: number): number {
+  const parsed = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function cacheKey(provider: ModerationProvider, text: string): string {
+  return `${provider.name}:${textHash(text)}`;
+}
+
+function cachedVerdict(key: string): ModerationVerdict | undefined {
+  const entry = verdictCache.get(key);
+  if (!entry) return undefined;
+  verdictCache.delete(key);
+  if (entry.expiresAt <= Date.now()) return undefined;
+  verdictCache.set(key, entry);
+  return entry.verdict;
+}
+
+function storeVerdict(key: string, verdict: ModerationVerdict) {
+  verdictCache.delete(key);
+  verdictCache.set(key, { verdict, expiresAt: Date.now() + CACHE_TTL_MS });
+  while (verdictCache.size > CACHE_SIZE) {
+    const oldest = verdictCache.keys().next().value;
+    if (oldest === undefined) break;
+    verdictCache.delete(oldest);
+  }
+}
+
+// Failed scoring isn't cached: the next request tries the providers again. Nor is a
+// fallback provider's verdict, so the classifier decides again once it's back
+function track(key: string, task: Promise<ModerationVerdict | null>): Promise<ModerationVerdict | null> {
+  const shared = task
+    .then((verdict) => {
+      if (verdict && !verdict.fallback) storeVerdict(key, verdict);
+      return verdict;
+    })
+    .finally(() => inFlight.delete(key));
+  inFlight.set(key, shared);
+  return shared;
+}
+
+function scoreCached(provider: ModerationProvider, text: string): Promise<ModerationVerdict | null> {
+  const key = cacheKey(provider, text);
+  const hit = cachedVerdict(key);
+  if (hit) return Promise.resolve(hit);
+  return inFlight.get(key) ?? track(key, provider.score(text));
+}
+
+// For tests
+export function resetToxicityCache() {
+  verdictCache.clear();
+  inFlight.clear();
+}
+
+function clean(original: string): ToxicityAssessment {
+  return { isToxic: false, scores: {}, replacedText: original };
+}
+
+function toAssessment(game: Game, original: string, verdict: ModerationVerdict | null): ToxicityAssessment {
+  if (!verdict) {
+    if (getGameSettings(game).moderationFailMode === "OPEN") {
+      return { isToxic: false, unavailable: true, scores: {}, replacedText: original };
+    }
+    const { replacedText, summary } = buildReplacement(undefined, "toxicity model unavailable");
+    return { isToxic: true, unavailable: true, scores: {}, replacedText, ...(summary ? { summary } : {}) };
+  }
+
+  if (verdict.isToxic) {
+    const { replacedText, summary } = buildReplacement(verdict.scores);
+    return { isToxic: true, scores: verdict.scores, replacedText, ...(summary ? { summary } : {}) };
+  }
+  return { isToxic: false, scores: verdict.scores, replacedText: original };
+}
+
+/**
+ * Score one text with the configured providers (see moderationProviders.ts).
+ * Scoring switched off, or a text reviewed as a false positive (see
+ * moderationLog.ts), means not toxic; when no provider could answer,
+ * the game's moderationFailMode decides: OPEN lets the text through, CLOSED
+ * treats it as toxic (it can't be vouched for).
+ */
+export async function assessText(game: Game, original: string): Promise<ToxicityAssessment> {
+  const provider = resolveModerationProvider();
+  if (!provider || isWhitelisted(original)) return clean(original);
+  return toAssessment(game, original, await scoreCached(provider, original));
+}
+
+/**
+ * Score several texts, sending the ones not already cached or being scored in
+ * one batch. Used for a round's AI lines when submissions close.
+ */
+export async function assessTexts(game: Game, originals: readonly string[]): Promise<ToxicityAssessment[]> {
+  const provider = resolveModerationProvider();
+  if (!provider) return originals.map(clean);
+
+  const misses = Array.from(new Set(originals)).filter((text) => {
+    const key = cacheKey(provider, text);
+    return !isWhitelisted(text) && !cachedVerdict(key) && !inFlight.has(key);
+  });
+  if (misses.length > 0) {
+    const batch = scoreAll(provider, misses);
+    misses.forEach((text, i) => track(cacheKey(provider, text), batch.then((verdicts) => verdicts[i] ?? null)));
+  }
+  return Promise.all(
+    originals.map(async (original) =>
+      isWhitelisted(original) ? clean(original) : toAssessment(game, original, await scoreCached(provider, original))
+    )
+  );
+}
@@ -0,0 +1,129 @@
+// server/game/trainingExport.ts
+import type { AIProviderKind, AIRole, Game, GameEvent, ReplayPlayer } from "./gameTypes";
+
+/**
+ * One training example per AI submission in a completed round: the context the
+ * model was given, what it wrote, and how the humans reacted to it.
+ */
+export interface TrainingRecord {
+  gameCode: string;
+  match: number;
+  roundNumber: number;
+  roundType: "TEXT" | "IMAGE";
+  aiPlayerId: string;
+  aiAlias: string;
+  provider: AIProviderKind | null;
+  model: string | null;
+  // "<experiment>/<arm>" when an experiment was running
+  arm: string | null;
+  // Team role the AI played this round (see aiRoles.ts)
+  role: AIRole | null;
+  usedModel: boolean;
+  // Time from round start to the AI's submission
+  submitDelayMs: number;
+  // JSON context from buildPromptForModel; null if the AI had nothing to go on
+  prompt: string | null;
+  completion: string;
+  humanSubmissions: string[];
+  humanVoters: number;
+  humanVotesReceived: number;
+  totalVotesReceived: number;
+  eliminated: boolean;
+  reward: number;
+}
+
+// Surviving a round is rewarded, elimination penalised, and every human vote
+// counts against the submission even when it survives.
+export const SURVIVAL_REWARD = 1;
+export const ELIMINATION_PENALTY = -1;
+export const DETECTION_PENALTY = 1;
+
+export function computeReward(params: { eliminated: boolean; humanVotesReceived: number; humanVoters: number }): number {
+  const base = params.eliminated ? ELIMINATION_PENALTY : SURVIVAL_REWARD;
+  const voteShare = params.humanVoters > 0 ? params.humanVotesReceived / params.humanVoters : 0;
+  return Math.round((base - DETECTION_PENALTY * voteShare) * 1000) / 1000;
+}
+
+// Events of one match, grouped by round
+function groupRounds(events: GameEvent[]): Map<number, GameEvent[]> {
+  const rounds = new Map<number, GameEvent[]>();
+  for (const e of events) {
+    if (!("roundNumber" in e)) continue;
+    const list = rounds.get(e.roundNumber) ?? [];
+    list.push(e);
+    rounds.set(e.roundNumber, list);
+  }
+  return rounds;
+}
+
+/** Training records for every completed round in the game's event log. */
+export function buildTrainingRecords(game: Game): TrainingRecord[] {
+  const byMatch = new Map<number, GameEvent[]>();
+  for (const e of game.events ?? []) {
+    if (e.match === 0) continue;
+    const list = byMatch.get(e.match) ?? [];
+    list.push(e);
+    byMatch.set(e.match, list);
+  }
+
+  const records: TrainingRecord[] = [];
+  for (const [match, events] of byMatch) {
+    const start = events.find((e) => e.type === "MATCH_STARTED");
+    if (!start || start.type !== "MATCH_STARTED") continue;
+    const roster = new Map<string, ReplayPlayer>(start.players.map((p) => [p.playerId, p]));
+    const isHuman = (playerId: string) => roster.has(playerId) && !roster.get(playerId)!.isAI;
+
+    for (const [roundNumber, roundEvents] of groupRounds(events)) {
+      const started = roundEvents.find((e) => e.type === "ROUND_STARTED");
+      const completed = roundEvents.find((e) => e.type === "ROUND_COMPLETED");
+      if (!started || started.type !== "ROUND_STARTED" || !completed || completed.type !== "ROUND_COMPLETED") continue;
+
+      const submissions = new Map<string, { playerId: string; content: string; missed: boolean; at: number }>();
+      const votes: Array<{ voterId: string; submissionId: string }> = [];
+      for (const e of roundEvents) {
+        if (e.type === "SUBMISSION") submissions.set(e.submissionId, { playerId: e.playerId, content: e.content, missed: !!e.missed, at: e.at });
+        if (e.type === "VOTE") votes.push({ voterId: e.voterId, submissionId: e.submissionId });
+      }
+      const humanSubmissions = Array.from(submissions.values())
+        .filter((s) => isHuman(s.playerId) && !s.missed)
+        .map((s) => s.content);
+      const humanVotes = votes.filter((v) => isHuman(v.voterId));
+
+      for (const e of roundEvents) {
+        if (e.type !== "AI_GENERATION") continue;
+        const submission = submissions.get(e.submissionId);
+        if (!submission) continue;
+
+        const eliminated = completed.eliminatedPlayerIds.includes(e.playerId);
+        const humanVotesReceived = humanVotes.filter((v) => v.submissionId === e.submissionId).length;
+        records.push({
+          gameCode: game.code,
+          match,
+          roundNumber,
+          roundType: started.roundType,
+          aiPlayerId: e.playerId,
+          aiAlias: roster.get(e.playerId)?.alias ?? e.playerId,
+          provider: e.provider ?? null,
+          model: e.model ?? null,
+          arm: e.arm ?? null,
+          role: e.role ?? null,
+          usedModel: e.usedModel,
+          submitDelayMs: submission.at - started.at,
+          prompt: e.prompt ?? null,
+          completion: submission.content,
+          humanSubmissions,
+          humanVoters: humanVotes.length,
+          humanVotesReceived,
+          totalVotesReceived: votes.filter((v) => v.submissionId === e.submissionId).length,
+          eliminated,
+          reward: computeReward({ eliminated, humanVotesReceived, humanVoters: humanVotes.length }),
+        });
+      }
+    }
+  }
+  return records;
+}
+
+export function toJsonl(records: TrainingRecord[]): string {
+  return records.map((r) => JSON.stringify(r)).join("\n") + (records.length > 0 ? "\n" : "");
+}
@@ -0,0 +1,103 @@
+// server/game/typingPresence.ts
+import type { Game } from "./gameTypes";
+import { schedulerFor } from "./scheduler";
+
+/**
+ * Who is still composing during ROUND_SUBMITTING, by color. Humans report it
+ * from the client; AIs fake bursts before their submissions (see aiPlayer.ts).
+ * State is in memory only: it means nothing once the phase is over.
+ */
+
+export interface TypingUpdate {
+  roundNumber: number;
+  // Colors currently typing, sorted
+  colors: string[];
+}
+
+// A "typing" report lasts this long unless refreshed
+export const TYPING_TTL_MS = 4000;
+// At most one broadcast per game in this window
+export const TYPING_THROTTLE_MS = 400;
+
+interface TypingState {
+  roundNumber: number;
+  typing: Set<string>;
+  lastBroadcastAt: number;
+  lastSent: string;
+}
+
+const states = new Map<string, TypingState>();
+
+let broadcastCallback: ((game: Game, update: TypingUpdate) => void) | null = null;
+
+export function setTypingBroadcastCallback(callback: ((game: Game, update: TypingUpdate) => void) | null) {
+  broadcastCallback = callback;
+}
+
+function currentRound(game: Game) {
+  return game.rounds[game.rounds.length - 1];
+}
+
+function stateFor(game: Game, roundNumber: number): TypingState {
+  let state = states.get(game.code);
+  if (!state || state.roundNumber !== roundNumber) {
+    state = { roundNumber, typing: new Set(), lastBroadcastAt: -Infinity, lastSent: "" };
+    states.set(game.code, state);
+  }
+  return state;
+}
+
+function broadcast(game: Game, state: TypingState) {
+  const colors = Array.from(state.typing)
+    .map((id) => game.players.find((p) => p.playerId === id)?.colorId)
+    .filter((c): c is string => !!c)
+    .sort();
+  const key = colors.join(",");
+  if (key === state.lastSent) return;
+  state.lastSent = key;
+  state.lastBroadcastAt = schedulerFor(game).now();
+  if (broadcastCallback) broadcastCallback(game, { roundNumber: state.roundNumber, colors });
+}
+
+// Send now, or once the throttle window is over (later changes fold into that send)
+function requestBroadcast(game: Game, state: TypingState) {
+  const scheduler = schedulerFor(game);
+  const wait = state.lastBroadcastAt + TYPING_THROTTLE_MS - scheduler.now();
+  if (wait <= 0) broadcast(game, state);
+  else scheduler.schedule(() => broadcast(game, state), wait, "typing:broadcast");
+}
+
+/**
+ * Mark a player as typing (or not) in the current round. Ignored outside the
+ * submit phase and for players who aren't in the round or have already submitted.
+ */
+export function setTyping(game: Game, playerId: string, typing: boolean): boolean {
+  const round = currentRound(game);
+  if (game.state !== "ROUND_SUBMITTING" || round?.status !== "SUBMITTING") return false;
+  if (!round.participantIds.includes(playerId)) return false;
+  if (typing && round.submissions.some((s) => s.playerId === playerId)) return false;
+
+  const state = stateFor(game, round.roundNumber);
+  const scheduler = schedulerFor(game);
+  if (typing) {
+    state.typing.add(playerId);
+    scheduler.schedule(() => setTyping(game, playerId, false), TYPING_TTL_MS, `typing:${playerId}`);
+  } else {
+    if (!state.typing.delete(playerId)) return true;
+    scheduler.cancel(`typing:${playerId}`);
+  }
+  requestBroadcast(game, state);
+  return true;
+}
+
+// Everyone stops typing when the submit phase ends
+export function clearTyping(game: Game) {
+  const state = states.get(game.code);
+  if (!state) return;
+  const scheduler = schedulerFor(game);
+  for (const playerId of state.typing) scheduler.cancel(`typing:${playerId}`);
+  state.typing.clear();
+  scheduler.cancel("typing:broadcast");
+  broadcast(game, state);
+  states.delete(game.code);
+}
@@ -2,4 +2,6 @@ module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
   testMatch: ['**/__tests__/**/*.test.ts'],
+  // Default imports (winston, openai) need interop when ts-jest emits CommonJS
+  transform: { '^.+\\.tsx?$': ['ts-jest', { tsconfig: { esModuleInterop: true } }] },
 };
@@ -0,0 +1,10 @@
+// server/middleware/bearerToken.ts
+import { createHash, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+
+// Whether `req` carries "Authorization: Bearer <token>". Both sides are hashed first, so
+// the constant-time compare gets equal-length buffers and the token's length doesn't leak.
+export function hasBearerToken(req: Request, token: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(req.get("authorization") ?? ""), digest(`Bearer ${token}`));
+}
@@ -0,0 +1,28 @@
+// server/routes/analytics.ts
+import { Router } from "express";
+import logger from "../config/loggerWinston";
+import { hasBearerToken } from "../middleware/bearerToken";
+import { listAllGames } from "../game/gameStore";
+import { computeAnalytics } from "../game/analytics";
+
+const analyticsRouter = Router();
+
+// Per-alias stats say who the AIs were, so the report is off unless ANALYTICS_TOKEN is set,
+// and only finished games are counted: a live game's aliases must stay anonymous
+analyticsRouter.get("/", (req, res) => {
+  const token = process.env.ANALYTICS_TOKEN?.trim();
+  if (!token) return res.status(503).json({ ok: false, error: "Analytics is disabled" });
+  if (!hasBearerToken(req, token)) {
+    return res.status(401).json({ ok: false, error: "Analytics token required" });
+  }
+
+  try {
+    const finished = listAllGames().filter((g) => g.state === "GAME_OVER");
+    return res.json({ ok: true, report: computeAnalytics(finished) });
+  } catch (err) {
+    logger.error("Error computing analytics", err);
+    return res.status(500).json({ ok: false, error: "Internal server error" });
+  }
+});
+
+export default analyticsRouter;
@@ -0,0 +1,99 @@
+// server/routes/images.ts
+import express, { Router } from "express";
+import type { NextFunction, Request, Response } from "express";
+import logger from "../config/loggerWinston";
+import { rateLimit } from "express-rate-limit";
+import { getGame, saveGame } from "../game/gameStore";
+import {
+  ALLOWED_IMAGE_MIME_TYPES,
+  MAX_IMAGE_BYTES,
+  recordGameUpload,
+  resolveStoredImage,
+  storeImage,
+  withinGameQuota,
+} from "../game/imageStore";
+import type { PlayerSession } from "../socket/sessionToken";
+import { verifySessionToken } from "../socket/sessionToken";
+
+const imagesRouter = Router();
+
+const UPLOADS_PER_MINUTE = (() => {
+  const parsed = parseInt(process.env.IMAGE_UPLOADS_PER_MINUTE ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 10;
+})();
+
+// Uploads are authorised by the player's session token (Authorization: Bearer <token>)
+function requireSession(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("authorization") ?? "";
+  const session = verifySessionToken(header.startsWith("Bearer ") ? header.slice(7).trim() : undefined);
+  if (!session || !getGame(session.code)) {
+    res.status(401).json({ ok: false, error: "No player session" });
+    return;
+  }
+  res.locals.session = session;
+  next();
+}
+
+// Per session, checked before the body is read
+const uploadLimiter = rateLimit({
+  windowMs: 60_000,
+  limit: UPLOADS_PER_MINUTE,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (_req, res) => {
+    const session = res.locals.session as PlayerSession;
+    return `${session.code}:${session.playerId}`;
+  },
+  message: { ok: false, error: "Too many uploads; try again in a minute" },
+});
+
+// Uploads are raw image bytes with the image's Content-Type. Each game has a
+// byte quota (MAX_GAME_IMAGE_BYTES) on top of the per-session rate limit.
+imagesRouter.post(
+  "/",
+  requireSession,
+  uploadLimiter,
+  express.raw({ type: ALLOWED_IMAGE_MIME_TYPES, limit: MAX_IMAGE_BYTES }),
+  (req, res) => {
+    const session = res.locals.session as PlayerSession;
+    const game = getGame(session.code);
+    if (!game) return res.status(401).json({ ok: false, error: "No player session" });
+
+    // express.raw leaves the body unparsed ({}) for any other Content-Type
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(415).json({ ok: false, error: `Allowed image types: ${ALLOWED_IMAGE_MIME_TYPES.join(", ")}` });
+    }
+    if (!withinGameQuota(game, req.body.length)) {
+      return res.status(413).json({ ok: false, error: "This game has no room left for images" });
+    }
+
+    try {
+      const result = storeImage(req.body, req.get("content-type")?.split(";")[0]?.trim());
+      if (!result.ok) return res.status(400).json(result);
+      recordGameUpload(game, session.playerId, result.imageId, req.body.length);
+      saveGame(game);
+      return res.status(201).json(result);
+    } catch (err) {
+      logger.error("Error storing uploaded image", err);
+      return res.status(500).json({ ok: false, error: "Internal server error" });
+    }
+  }
+);
+
+imagesRouter.get("/:imageId", (req, res) => {
+  const file = resolveStoredImage(req.params.imageId);
+  if (!file) return res.status(404).json({ ok: false, error: "Image not found" });
+  // Content-addressed, so the bytes behind a URL never change
+  res.set("Cache-Control", "public, max-age=31536000, immutable");
+  res.set("X-Content-Type-Options", "nosniff");
+  return res.sendFile(file);
+});
+
+// Body-parser failures (e.g. over MAX_IMAGE_BYTES) as JSON rather than an HTML page
+imagesRouter.use((err: { status?: number; message?: string }, _req: Request, res: Response, _next: NextFunction) => {
+  const status = err.status ?? 500;
+  if (status >= 500) logger.error("Image route error", err);
+  res.status(status).json({ ok: false, error: status === 413 ? `Image is larger than ${MAX_IMAGE_BYTES} bytes` : err.message ?? "Bad request" });
+});
+
+export default imagesRouter;
@@ -0,0 +1,94 @@
+// server/routes/moderation.ts
+import { Router } from "express";
+import type { Request, Response } from "express";
+import logger from "../config/loggerWinston";
+import { hasBearerToken } from "../middleware/bearerToken";
+import type { ModerationRecord } from "../game/gameTypes";
+import { listAllGames, peekGame, saveGame } from "../game/gameStore";
+import type { ModerationQuery } from "../game/moderationLog";
+import { listModerationRecords, markFalsePositive } from "../game/moderationLog";
+
+const moderationRouter = Router();
+
+const ACTIONS: readonly ModerationRecord["action"][] = ["BLOCKED", "MASKED", "FLAGGED", "REPORTED", "KICKED"];
+const SOURCES: readonly ModerationRecord["source"][] = ["SUBMISSION", "CHAT", "REPORT", "KICK"];
+const MAX_LIMIT = 500;
+
+// Records hold the original flagged text, so review is off unless MODERATION_TOKEN is set
+function authorized(req: Request, res: Response): boolean {
+  const token = process.env.MODERATION_TOKEN?.trim();
+  if (!token) {
+    res.status(503).json({ ok: false, error: "Moderation review is disabled" });
+    return false;
+  }
+  if (!hasBearerToken(req, token)) {
+    res.status(401).json({ ok: false, error: "Moderation token required" });
+    return false;
+  }
+  return true;
+}
+
+function queryString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// GET /api/moderation?code=&action=&source=&category=&falsePositive=true|false&limit=
+moderationRouter.get("/", (req, res) => {
+  if (!authorized(req, res)) return;
+
+  const query: ModerationQuery = { limit: 100 };
+  const code = queryString(req.query.code);
+  if (code) query.code = code.toUpperCase();
+  const action = queryString(req.query.action)?.toUpperCase();
+  if (action) {
+    if (!ACTIONS.includes(action as ModerationRecord["action"])) {
+      return res.status(400).json({ ok: false, error: `action must be one of ${ACTIONS.join(", ")}` });
+    }
+    query.action = action as ModerationRecord["action"];
+  }
+  const source = queryString(req.query.source)?.toUpperCase();
+  if (source) {
+    if (!SOURCES.includes(source as ModerationRecord["source"])) {
+      return res.status(400).json({ ok: false, error: `source must be one of ${SOURCES.join(", ")}` });
+    }
+    query.source = source as ModerationRecord["source"];
+  }
+  const category = queryString(req.query.category);
+  if (category) query.category = category;
+  const falsePositive = queryString(req.query.falsePositive);
+  if (falsePositive) query.falsePositive = falsePositive === "true";
+  const limit = parseInt(queryString(req.query.limit) ?? "", 10);
+  if (Number.isFinite(limit) && limit > 0) query.limit = Math.min(limit, MAX_LIMIT);
+
+  try {
+    return res.json({ ok: true, records: listModerationRecords(listAllGames(), query) });
+  } catch (err) {
+    logger.error("Error listing moderation records", err);
+    return res.status(500).json({ ok: false, error: "Internal server error" });
+  }
+});
+
+// POST /api/moderation/:code/:recordId/false-positive { falsePositive?: boolean }
+moderationRouter.post("/:code/:recordId/false-positive", (req, res) => {
+  if (!authorized(req, res)) return;
+
+  try {
+    // Listed first so the game edited below is the same object the whitelist is rebuilt from
+    const games = listAllGames();
+    const game = peekGame(String(req.params.code).toUpperCase());
+    if (!game) return res.status(404).json({ ok: false, error: "Game not found" });
+
+    const falsePositive = req.body?.falsePositive !== false;
+    const record = markFalsePositive(games, game, String(req.params.recordId), falsePositive);
+    if (!record) return res.status(404).json({ ok: false, error: "Record not found" });
+
+    saveGame(game);
+    logger.info(`Moderation record ${record.recordId} in ${game.code} marked falsePositive=${falsePositive}`);
+    return res.json({ ok: true, record });
+  } catch (err) {
+    logger.error("Error updating moderation record", err);
+    return res.status(500).json({ ok: false, error: "Internal server error" });
+  }
+});
+
+export default moderationRouter;
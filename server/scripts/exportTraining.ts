@@ -0,0 +1,33 @@
+// server/scripts/exportTraining.ts
+// Usage: npm run export:training -- [--dir data/games] [--game CODE] [--out training.jsonl]
+// Reads persisted games (GAME_STORE=file) and writes one JSONL record per AI submission in a completed round.
+import fs from "fs";
+import path from "path";
+import { createFileGameRepository } from "../game/gameRepository";
+import { buildTrainingRecords, toJsonl } from "../game/trainingExport";
+
+function argValue(name: string): string | undefined {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx >= 0 ? process.argv[idx + 1] : undefined;
+}
+
+const dir = path.resolve(argValue("dir") ?? (process.env.GAME_STORE_DIR?.trim() || path.join("data", "games")));
+if (!fs.existsSync(dir)) {
+  console.error(`No game store at ${dir}`);
+  process.exit(1);
+}
+
+const only = argValue("game")?.toUpperCase();
+const games = createFileGameRepository(dir)
+  .loadAll()
+  .filter((g) => !only || g.code === only);
+const records = games.flatMap((g) => buildTrainingRecords(g));
+const output = toJsonl(records);
+
+const out = argValue("out");
+if (out) {
+  fs.writeFileSync(out, output);
+  console.error(`Wrote ${records.length} record(s) from ${games.length} game(s) to ${out}`);
+} else {
+  process.stdout.write(output);
+}
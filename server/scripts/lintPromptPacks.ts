@@ -0,0 +1,20 @@
+// server/scripts/lintPromptPacks.ts
+// Usage: npm run prompts:lint [-- <pack dir>]
+import path from "path";
+import { readPromptPackDir } from "../game/promptPacks";
+
+const dir = process.argv[2] ? path.resolve(process.argv[2]) : process.env.PROMPT_PACK_DIR?.trim() || path.resolve("prompts", "packs");
+const { packs, errors } = readPromptPackDir(dir);
+
+for (const pack of packs) {
+  console.log(`ok   ${pack.id} (${pack.templates.length} templates, ${pack.language}, ${pack.contentRating})`);
+}
+for (const err of errors) {
+  console.error(`fail ${err}`);
+}
+
+if (errors.length > 0) {
+  console.error(`\n${errors.length} problem(s) found in ${dir}`);
+  process.exit(1);
+}
+console.log(`\n${packs.length} pack(s) OK`);
@@ -0,0 +1,88 @@
+// server/scripts/simulate.ts
+// Usage: npm run simulate -- [--games 1000] [--humans 4] [--ais 1] [--agent heuristic|random|scripted]
+//          [--skill 0.7] [--provider none|scripted|openai|local] [--seed 1] [--max-rounds 10]
+//          [--format json|csv] [--out file] [--toxicity] [--verbose]
+import fs from "fs";
+import logger from "../config/loggerWinston";
+import type { SimulationOptions } from "../sim/simulate";
+import { DEFAULT_SIMULATION_OPTIONS, resultsToCsv, runSimulation } from "../sim/simulate";
+import type { HumanAgentKind } from "../sim/agents";
+
+function parseArgs(argv: string[]): Map<string, string | true> {
+  const args = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (!arg.startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      args.set(arg.slice(2), next);
+      i++;
+    } else {
+      args.set(arg.slice(2), true);
+    }
+  }
+  return args;
+}
+
+function intArg(args: Map<string, string | true>, name: string, fallback: number, min = 0): number {
+  const raw = args.get(name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    console.error(`--${name} must be an integer >= ${min}`);
+    process.exit(2);
+  }
+  return value;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const d = DEFAULT_SIMULATION_OPTIONS;
+
+  const agent = (args.get("agent") ?? d.humanAgent) as HumanAgentKind;
+  const provider = (args.get("provider") ?? d.provider) as SimulationOptions["provider"];
+  const format = args.get("format") ?? "json";
+  if (!["heuristic", "random", "scripted"].includes(agent)) return fail("--agent must be heuristic, random or scripted");
+  if (!["none", "scripted", "openai", "local"].includes(provider)) return fail("--provider must be none, scripted, openai or local");
+  if (format !== "json" && format !== "csv") return fail("--format must be json or csv");
+
+  const options: SimulationOptions = {
+    games: intArg(args, "games", d.games, 1),
+    humans: intArg(args, "humans", d.humans, 2),
+    ais: intArg(args, "ais", d.ais, 1),
+    humanAgent: agent,
+    skill: args.has("skill") ? Number(args.get("skill")) : d.skill,
+    provider,
+    seed: intArg(args, "seed", d.seed),
+    maxRounds: intArg(args, "max-rounds", d.maxRounds, 1),
+  };
+
+  if (!args.has("verbose")) logger.level = "warn";
+  // The toxicity service is a network dependency; leave it out unless asked for
+  if (!args.has("toxicity")) process.env.TOXICITY_URL = "off";
+
+  const started = performance.now();
+  const { results, summary } = await runSimulation(options, (done) => {
+    if (done % 100 === 0) process.stderr.write(`${done}/${options.games} games\n`);
+  });
+  const elapsedMs = Math.round(performance.now() - started);
+
+  const output = format === "csv" ? resultsToCsv(results) : JSON.stringify({ options, elapsedMs, summary }, null, 2) + "\n";
+  const out = args.get("out");
+  if (typeof out === "string") {
+    fs.writeFileSync(out, output);
+    process.stderr.write(`Wrote ${out}\n`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(2);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,91 @@
+// server/sim/agents.ts
+import type { Round } from "../game/gameTypes";
+import type { Rng } from "../game/rng";
+import { pickWith } from "../game/rng";
+import { suspicionScore } from "../game/aiText";
+
+/**
+ * Simulated human players. Agents only see what a real player could: the round
+ * prompt/target and the anonymous submission texts.
+ */
+export interface HumanAgent {
+  write(round: Round, rng: Rng): string;
+  // Returns the submissionId to vote for, chosen among `options`
+  vote(round: Round, options: Array<{ submissionId: string; content: string }>, rng: Rng): string;
+}
+
+export type HumanAgentKind = "heuristic" | "random" | "scripted";
+
+const OPENERS = ["honestly", "ok so", "lol", "idk but", "definitely", "probably", "", "", ""];
+const BODIES = [
+  "{target} would never admit it",
+  "something about {target} and coffee",
+  "{target} forgets their keys every single day",
+  "whatever {target} says on a monday",
+  "pineapple on pizza, ask {target}",
+  "{target} hates waiting in lines",
+  "the way {target} laughs at their own jokes",
+  "{target} talking about the gym again",
+  "cold showers, according to {target}",
+  "{target} being late to literally everything",
+];
+
+function styleLine(text: string, rng: Rng): string {
+  let out = text;
+  if (rng() < 0.5) out = out.toLowerCase();
+  if (rng() < 0.3) out = out.replace(/ing\b/, "in");
+  if (rng() < 0.2) out += " lol";
+  return out.trim();
+}
+
+/**
+ * Writes varied lines and, with probability `skill`, votes for the most
+ * suspicious submission (ties broken randomly); otherwise votes at random.
+ */
+export function createHeuristicAgent(skill = 0.7): HumanAgent {
+  return {
+    write(round, rng) {
+      const body = pickWith(rng, BODIES).replace(/\{target\}/g, round.targetAlias);
+      return styleLine(`${pickWith(rng, OPENERS)} ${body}`, rng);
+    },
+    vote(_round, options, rng) {
+      if (rng() >= skill) return pickWith(rng, options).submissionId;
+      const scored = options.map((o) => ({
+        id: o.submissionId,
+        score: suspicionScore(
+          o.content,
+          options.filter((x) => x.submissionId !== o.submissionId).map((x) => x.content)
+        ),
+      }));
+      const best = Math.max(...scored.map((s) => s.score));
+      return pickWith(rng, scored.filter((s) => s.score === best)).id;
+    },
+  };
+}
+
+export function createRandomAgent(): HumanAgent {
+  const writer = createHeuristicAgent(0);
+  return {
+    write: writer.write,
+    vote: (_round, options, rng) => pickWith(rng, options).submissionId,
+  };
+}
+
+// Fixed lines cycled per round; votes at random
+export function createScriptedAgent(lines: string[]): HumanAgent {
+  return {
+    write: (round) => lines[(round.roundNumber - 1) % lines.length] ?? "pass",
+    vote: (_round, options, rng) => pickWith(rng, options).submissionId,
+  };
+}
+
+export function createHumanAgent(kind: HumanAgentKind, options: { skill?: number; lines?: string[] } = {}): HumanAgent {
+  switch (kind) {
+    case "random":
+      return createRandomAgent();
+    case "scripted":
+      return createScriptedAgent(options.lines?.length ? options.lines : ["no idea", "same as last time", "pass"]);
+    default:
+      return createHeuristicAgent(options.skill);
+  }
+}
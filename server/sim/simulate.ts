@@ -0,0 +1,323 @@
+// server/sim/simulate.ts
+import { randomUUID } from "crypto";
+import type { AIProviderKind, Game, Player, Round } from "../game/gameTypes";
+import { createDefaultSettings } from "../game/gameSettings";
+import { onSubmissionUpdated, onVotesUpdated, startRoundForGame } from "../game/gameService";
+import { notifyAIsOfVote, waitForPendingAIWork } from "../game/aiPlayer";
+import { createRng, hashSeed } from "../game/rng";
+import type { Rng } from "../game/rng";
+import type { HumanAgent, HumanAgentKind } from "./agents";
+import { createHumanAgent } from "./agents";
+import type { VirtualScheduler } from "../game/scheduler";
+import { createVirtualScheduler, disposeScheduler, setGameScheduler, setSchedulerFactory } from "../game/scheduler";
+
+export interface SimulationOptions {
+  games: number;
+  humans: number;
+  ais: number;
+  humanAgent: HumanAgentKind;
+  // Heuristic agents: chance of voting on suspicion rather than at random
+  skill: number;
+  // "none" = no model at all, AIs use their built-in fallback
+  provider: AIProviderKind | "none";
+  seed: number;
+  // Round cap per game (the game's own maxRounds rule: AIs win when reached)
+  maxRounds: number;
+  humanLines?: string[];
+}
+
+export const DEFAULT_SIMULATION_OPTIONS: SimulationOptions = {
+  games: 100,
+  humans: 4,
+  ais: 1,
+  humanAgent: "heuristic",
+  skill: 0.7,
+  provider: "none",
+  seed: 1,
+  maxRounds: 10,
+};
+
+export interface SimulatedGameResult {
+  seed: number;
+  winner: "HUMANS" | "AIS" | "NONE";
+  rounds: number;
+  aiCount: number;
+  aiSurvivors: number;
+  // Round each eliminated AI went out in
+  aiEliminatedInRounds: number[];
+  humansEliminated: number;
+  humanScores: number[];
+  aiScores: number[];
+}
+
+export interface Distribution {
+  count: number;
+  mean: number;
+  min: number;
+  p10: number;
+  median: number;
+  p90: number;
+  max: number;
+}
+
+export interface SimulationSummary {
+  games: number;
+  aiWinRate: number;
+  humanWinRate: number;
+  unfinishedRate: number;
+  // Share of all AIs still alive when their game ended
+  aiSurvivalRate: number;
+  meanRounds: number;
+  // Of the games that reached round N, how many eliminated an AI in it
+  detectionByRound: Array<{ round: number; gamesReached: number; detections: number; rate: number }>;
+  scores: { humans: Distribution; ais: Distribution };
+}
+
+// Safety net against a game that never reaches GAME_OVER
+const MAX_STEPS_PER_GAME = 20_000;
+
+function makePlayers(options: SimulationOptions): Player[] {
+  const players: Player[] = [];
+  for (let i = 1; i <= options.humans; i++) {
+    players.push({ playerId: `h${i}`, alias: `Human-${i}`, colorId: `h${i}`, alive: true, connected: true, score: 0, missedSubmissions: 0 });
+  }
+  for (let i = 1; i <= options.ais; i++) {
+    players.push({
+      playerId: `ai${i}`,
+      alias: `AI-${i}`,
+      colorId: `a${i}`,
+      alive: true,
+      connected: false,
+      isAI: true,
+      score: 0,
+      missedSubmissions: 0,
+      aiData: {
+        teamId: "impostors",
+        memory: { kickedPlayers: [], roundsSummary: [], notes: [] },
+        // An empty script yields no outputs, so the AI falls back to its built-in behaviour
+        ...(options.provider === "none" ? { provider: { kind: "scripted" as const, script: {} } } : {}),
+      },
+    });
+  }
+  return players;
+}
+
+function buildGame(options: SimulationOptions, index: number, seed: number): Game {
+  const settings = createDefaultSettings();
+  settings.maxRounds = options.maxRounds;
+  settings.aiMode = "FIXED";
+  settings.aiCount = options.ais;
+  if (options.provider !== "none") settings.aiProvider = { kind: options.provider };
+  return {
+    code: `SIM${index}`,
+    state: "IN_PROGRESS",
+    roundNumber: 0,
+    hostPlayerId: "h1",
+    players: makePlayers(options),
+    rounds: [],
+    settings,
+    rngSeed: seed,
+  };
+}
+
+function scheduleHumanSubmissions(
+  game: Game,
+  round: Round,
+  agents: Map<string, HumanAgent>,
+  rng: Rng,
+  scheduler: VirtualScheduler
+) {
+  const window = game.settings!.submitDurationMs;
+  for (const [playerId, agent] of agents) {
+    if (!round.participantIds.includes(playerId)) continue;
+    scheduler.schedule(() => {
+      const player = game.players.find((p) => p.playerId === playerId);
+      if (round.status !== "SUBMITTING" || !player?.alive) return;
+      if (round.submissions.some((s) => s.playerId === playerId)) return;
+      const submission = {
+        submissionId: randomUUID(),
+        playerId,
+        content: agent.write(round, rng),
+        roundNumber: round.roundNumber,
+        submittedAt: scheduler.now(),
+      };
+      round.submissions.push(submission);
+      onSubmissionUpdated(game, round, submission);
+    }, Math.floor(window * (0.1 + rng() * 0.5)));
+  }
+}
+
+function scheduleHumanVotes(
+  game: Game,
+  round: Round,
+  agents: Map<string, HumanAgent>,
+  rng: Rng,
+  scheduler: VirtualScheduler
+) {
+  const window = game.settings!.voteDurationMs;
+  for (const [playerId, agent] of agents) {
+    if (!round.participantIds.includes(playerId)) continue;
+    scheduler.schedule(() => {
+      const player = game.players.find((p) => p.playerId === playerId);
+      if (round.status !== "VOTING" || !player?.alive) return;
+      if (round.votes.some((v) => v.voterId === playerId)) return;
+      const options = round.submissions
+        .filter((s) => s.playerId !== playerId)
+        .map((s) => ({ submissionId: s.submissionId, content: s.content }));
+      if (options.length === 0) return;
+      const vote = { voterId: playerId, submissionId: agent.vote(round, options, rng) };
+      round.votes.push(vote);
+      notifyAIsOfVote(game, round, vote);
+      onVotesUpdated(game, round);
+    }, Math.floor(window * (0.1 + rng() * 0.5)));
+  }
+}
+
+// Let AI promises (and anything they scheduled) settle before time moves on
+async function settle() {
+  await waitForPendingAIWork();
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Play one game to completion on its own virtual scheduler. The game's seed drives
+ * the game and AI randomness; simulated humans draw from a stream derived from it.
+ */
+export async function simulateGame(options: SimulationOptions, index: number): Promise<SimulatedGameResult> {
+  const seed = (options.seed + index) >>> 0;
+  const game = buildGame(options, index, seed);
+  const scheduler = createVirtualScheduler();
+  setGameScheduler(game.code, scheduler);
+  const rng = createRng(hashSeed(`${seed}:humans`));
+  const agents = new Map<string, HumanAgent>();
+  for (const p of game.players) {
+    if (!p.isAI) agents.set(p.playerId, createHumanAgent(options.humanAgent, { skill: options.skill, lines: options.humanLines ?? [] }));
+  }
+
+  startRoundForGame(game);
+  const scheduled = new Set<string>();
+
+  for (let steps = 0; game.state !== "GAME_OVER" && steps < MAX_STEPS_PER_GAME; steps++) {
+    const round = game.rounds[game.rounds.length - 1];
+    if (round?.status === "SUBMITTING" && !scheduled.has(`${round.roundNumber}:submit`)) {
+      scheduled.add(`${round.roundNumber}:submit`);
+      scheduleHumanSubmissions(game, round, agents, rng, scheduler);
+    }
+    if (round?.status === "VOTING" && !scheduled.has(`${round.roundNumber}:vote`)) {
+      scheduled.add(`${round.roundNumber}:vote`);
+      scheduleHumanVotes(game, round, agents, rng, scheduler);
+    }
+    if (!scheduler.runNext()) break;
+    await settle();
+  }
+
+  // Game over already disposes the scheduler; this covers games cut off by the step cap
+  disposeScheduler(game.code);
+
+  const ais = game.players.filter((p) => p.isAI);
+  const humans = game.players.filter((p) => !p.isAI);
+  const aiEliminatedInRounds = game.rounds.flatMap((r) =>
+    (r.eliminatedPlayerIds ?? []).filter((id) => ais.some((a) => a.playerId === id)).map(() => r.roundNumber)
+  );
+
+  return {
+    seed,
+    winner: game.state === "GAME_OVER" && game.winner ? game.winner : "NONE",
+    rounds: game.rounds.length,
+    aiCount: ais.length,
+    aiSurvivors: ais.filter((p) => p.alive).length,
+    aiEliminatedInRounds,
+    humansEliminated: humans.filter((p) => !p.alive).length,
+    humanScores: humans.map((p) => p.score),
+    aiScores: ais.map((p) => p.score),
+  };
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.round(q * (sorted.length - 1))));
+  return sorted[idx]!;
+}
+
+export function distribution(values: number[]): Distribution {
+  const sorted = [...values].sort((a, b) => a - b);
+  const sum = sorted.reduce((a, b) => a + b, 0);
+  return {
+    count: sorted.length,
+    mean: sorted.length ? sum / sorted.length : 0,
+    min: sorted[0] ?? 0,
+    p10: quantile(sorted, 0.1),
+    median: quantile(sorted, 0.5),
+    p90: quantile(sorted, 0.9),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+}
+
+export function summarize(results: SimulatedGameResult[]): SimulationSummary {
+  const n = results.length || 1;
+  const maxRound = Math.max(0, ...results.map((r) => r.rounds));
+  const detectionByRound = [];
+  for (let round = 1; round <= maxRound; round++) {
+    const reached = results.filter((r) => r.rounds >= round);
+    const detections = reached.filter((r) => r.aiEliminatedInRounds.includes(round)).length;
+    detectionByRound.push({
+      round,
+      gamesReached: reached.length,
+      detections,
+      rate: reached.length ? detections / reached.length : 0,
+    });
+  }
+  const totalAIs = results.reduce((a, r) => a + r.aiCount, 0);
+
+  return {
+    games: results.length,
+    aiWinRate: results.filter((r) => r.winner === "AIS").length / n,
+    humanWinRate: results.filter((r) => r.winner === "HUMANS").length / n,
+    unfinishedRate: results.filter((r) => r.winner === "NONE").length / n,
+    aiSurvivalRate: totalAIs ? results.reduce((a, r) => a + r.aiSurvivors, 0) / totalAIs : 0,
+    meanRounds: results.reduce((a, r) => a + r.rounds, 0) / n,
+    detectionByRound,
+    scores: {
+      humans: distribution(results.flatMap((r) => r.humanScores)),
+      ais: distribution(results.flatMap((r) => r.aiScores)),
+    },
+  };
+}
+
+export function resultsToCsv(results: SimulatedGameResult[]): string {
+  const header = "seed,winner,rounds,ai_count,ai_survivors,ai_eliminated_rounds,humans_eliminated,human_score_mean,ai_score_mean";
+  const mean = (xs: number[]) => (xs.length ? (xs.reduce((a, b) => a + b, 0) / xs.length).toFixed(2) : "");
+  const rows = results.map((r) =>
+    [
+      r.seed,
+      r.winner,
+      r.rounds,
+      r.aiCount,
+      r.aiSurvivors,
+      r.aiEliminatedInRounds.join(" "),
+      r.humansEliminated,
+      mean(r.humanScores),
+      mean(r.aiScores),
+    ].join(",")
+  );
+  return [header, ...rows].join("\n") + "\n";
+}
+
+/** Run `options.games` games back to back, each on a virtual scheduler. */
+export async function runSimulation(
+  options: SimulationOptions,
+  onProgress?: (done: number) => void
+): Promise<{ results: SimulatedGameResult[]; summary: SimulationSummary }> {
+  // Late AI work on a finished game must not fall back to real timers
+  const previousFactory = setSchedulerFactory(() => createVirtualScheduler());
+  const results: SimulatedGameResult[] = [];
+  try {
+    for (let i = 0; i < options.games; i++) {
+      results.push(await simulateGame(options, i));
+      onProgress?.(i + 1);
+    }
+  } finally {
+    setSchedulerFactory(previousFactory);
+  }
+  return { results, summary: summarize(results) };
+}
@@ -0,0 +1,61 @@
+// server/socket/sessionToken.ts
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import logger from "../config/loggerWinston";
+
+export interface PlayerSession {
+  code: string;
+  playerId: string;
+}
+
+const TOKEN_VERSION = "v1";
+
+// How long a token keeps letting its player reconnect after it was issued
+export const SESSION_TOKEN_MAX_AGE_MS = (() => {
+  const parsed = parseInt(process.env.SESSION_TOKEN_MAX_AGE_MS ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 24 * 60 * 60 * 1000;
+})();
+
+let secret: string | null = null;
+
+function getSecret(): string {
+  if (secret) return secret;
+  const fromEnv = process.env.SESSION_SECRET?.trim();
+  if (fromEnv) {
+    secret = fromEnv;
+  } else {
+    // Tokens signed with a per-process secret stop verifying after a restart,
+    // which defeats reconnecting to persisted games.
+    logger.warn("SESSION_SECRET is not set; using a random secret for this process");
+    secret = randomBytes(32).toString("hex");
+  }
+  return secret;
+}
+
+function sign(body: string): string {
+  return createHmac("sha256", getSecret()).update(`${TOKEN_VERSION}.${body}`).digest("base64url");
+}
+
+export function issueSessionToken(session: PlayerSession): string {
+  const body = Buffer.from(JSON.stringify({ c: session.code, p: session.playerId, iat: Date.now() })).toString("base64url");
+  return `${TOKEN_VERSION}.${body}.${sign(body)}`;
+}
+
+// Returns the session a token was issued for, or null if it is malformed, forged or expired.
+export function verifySessionToken(token: string | undefined): PlayerSession | null {
+  if (!token) return null;
+  const [version, body, mac] = token.split(".");
+  if (version !== TOKEN_VERSION || !body || !mac) return null;
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(mac);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(body, "base64url").toString("utf8")) as { c?: unknown; p?: unknown; iat?: unknown };
+    if (typeof parsed.c !== "string" || typeof parsed.p !== "string" || typeof parsed.iat !== "number") return null;
+    if (Date.now() - parsed.iat > SESSION_TOKEN_MAX_AGE_MS) return null;
+    return { code: parsed.c, playerId: parsed.p };
+  } catch {
+    return null;
+  }
+}
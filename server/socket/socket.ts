@@ -3,24 +3,44 @@ import { randomUUID } from "crypto";
 import logger from "../config/loggerWinston";
 
 import type {
+  AIProviderConfig,
   Game,
   Player,
-  PublicVotingRound,
-  PublicVotingSubmission,
   Submission,
   AIMemory,
 } from "../game/gameTypes";
 import { assignColor } from "../game/colorPool";
-import { createGame, getGame } from "../game/gameStore";
+import { pickAIAlias } from "../game/aiNames";
+import { createGame, getGame, saveGame } from "../game/gameStore";
+import { buildPublicGameView, buildVotingRound } from "../game/gameView";
+import type { GameSettingsPatch } from "../game/gameSettings";
+import { applySettingsPatch, createDefaultSettings, getGameSettings } from "../game/gameSettings";
+import { hasStockImages } from "../game/aiImages";
+import { listPromptPacks } from "../game/promptPacks";
+import { isStoredImageUrl } from "../game/imageStore";
 import {
+  kickPlayer,
+  onChatMessage,
   onSubmissionUpdated,
   onVotesUpdated,
   setEmitGameUpdateCallback,
   startRoundForGame,
 } from "../game/gameService";
 import { notifyAIsOfVote } from "../game/aiPlayer";
-
-const socketToPlayer = new Map<string, { code: string; playerId: string }>();
+import { parseAIProviderConfig } from "../game/aiProviders";
+import type { PlayerSession } from "./sessionToken";
+import { issueSessionToken, verifySessionToken } from "./sessionToken";
+import { randomSeed } from "../game/rng";
+import { schedulerFor } from "../game/scheduler";
+import { buildReplays, recordPlayerJoined } from "../game/gameEvents";
+import { setTyping, setTypingBroadcastCallback } from "../game/typingPresence";
+import { postChatMessage, publicChat, setChatBroadcastCallback } from "../game/chat";
+import { moderateSubmission } from "../game/moderation";
+import { isBanned, joinRefusal, reportPlayer } from "../game/playerModeration";
+
+// Verified session bound to each socket. Handlers read the acting player from here,
+// never from the payload.
+const socketToPlayer = new Map<string, PlayerSession>();
 
 function generateCode(): string {
   const letters = "ABCDEFGHJKMNPQRSTUVWXYZ";
@@ -29,8 +49,43 @@ function generateCode(): string {
   return code;
 }
 
+function bindSession(socket: Socket, session: PlayerSession) {
+  socket.join(session.code);
+  socketToPlayer.set(socket.id, session);
+}
+
+// Session for this socket, provided it belongs to the game the payload refers to (if any).
+function sessionFor(socket: Socket, payloadCode?: string): PlayerSession | null {
+  const session = socketToPlayer.get(socket.id);
+  if (!session) return null;
+  if (payloadCode && payloadCode.toUpperCase() !== session.code) return null;
+  return session;
+}
+
+function viewerIdFor(socketId: string, code: string): string | undefined {
+  const info = socketToPlayer.get(socketId);
+  return info && info.code === code ? info.playerId : undefined;
+}
+
+function socketIdsFor(code: string, playerId: string): string[] {
+  const ids: string[] = [];
+  for (const [socketId, session] of socketToPlayer) {
+    if (session.code === code && session.playerId === playerId) ids.push(socketId);
+  }
+  return ids;
+}
+
+// Each socket in the room gets its own projection, so one player's private
+// fields (and every AI internal) never reach anyone else.
 function emitGameUpdate(io: Server, game: Game) {
-  io.to(game.code).emit("game:update", game);
+  // Every state change funnels through here, so it doubles as the persistence point.
+  saveGame(game);
+
+  const room = io.sockets.adapter.rooms.get(game.code);
+  if (!room) return;
+  for (const socketId of room) {
+    io.to(socketId).emit("game:update", buildPublicGameView(game, viewerIdFor(socketId, game.code)));
+  }
 }
 
 function desiredAICount(humanCount: number): number {
@@ -51,7 +106,8 @@ function normalizeOptString(s: string | undefined): string | undefined {
 
 function ensureAutoAIs(game: Game) {
   const humanCount = game.players.filter((p) => !p.isAI).length;
-  const desired = desiredAICount(humanCount);
+  const settings = getGameSettings(game);
+  const desired = settings.aiMode === "FIXED" ? settings.aiCount : desiredAICount(humanCount);
 
   const currentAIs = game.players.filter((p) => p.isAI);
   if (currentAIs.length > desired) {
@@ -68,11 +124,10 @@ function ensureAutoAIs(game: Game) {
   for (let i = 0; i < missing; i++) {
     const aiPlayerId = randomUUID();
     const colorId = assignColor(game);
-    const aiIndex = game.players.filter((p) => p.isAI).length + 1;
 
-    game.players.push({
+    const aiPlayer: Player = {
       playerId: aiPlayerId,
-      alias: `AI-${aiIndex}`,
+      alias: pickAIAlias(game),
       colorId,
       alive: true,
       connected: false,
@@ -83,12 +138,21 @@ function ensureAutoAIs(game: Game) {
         teamId: "impostors",
         memory: makeEmptyMemory(),
       },
-    });
+    };
+    game.players.push(aiPlayer);
+    recordPlayerJoined(game, aiPlayer);
   }
 }
 
 export function registerSocketHandlers(io: Server) {
   setEmitGameUpdateCallback((game: Game) => emitGameUpdate(io, game));
+  // Only colors go out, so the whole room can get the same payload
+  setTypingBroadcastCallback((game, update) => io.to(game.code).emit("round:typing", { code: game.code, ...update }));
+  // Chat doesn't go through game:update, so persist each line here
+  setChatBroadcastCallback((game, roundNumber, message) => {
+    saveGame(game);
+    io.to(game.code).emit("chat:message", { code: game.code, roundNumber, message });
+  });
 
   io.on("connection", (socket: Socket) => {
     logger.info(`Socket connected: ${socket.id}`);
@@ -98,7 +162,8 @@ export function registerSocketHandlers(io: Server) {
         const { alias } = payload;
         if (!alias) return callback({ ok: false, error: "alias is required" });
 
-        const code = generateCode();
+        let code = generateCode();
+        while (getGame(code)) code = generateCode();
         const hostPlayerId = randomUUID();
 
         const emptyGame: Game = {
@@ -108,6 +173,8 @@ export function registerSocketHandlers(io: Server) {
           hostPlayerId,
           players: [],
           rounds: [],
+          settings: createDefaultSettings(),
+          rngSeed: randomSeed(),
         };
 
         const colorId = assignColor(emptyGame);
@@ -123,14 +190,23 @@ export function registerSocketHandlers(io: Server) {
         };
 
         const game: Game = { ...emptyGame, players: [hostPlayer] };
+        recordPlayerJoined(game, hostPlayer);
 
         createGame(game);
 
-        socket.join(code);
-        socketToPlayer.set(socket.id, { code, playerId: hostPlayerId });
+        bindSession(socket, { code, playerId: hostPlayerId });
         logger.info(`Game created ${code} by ${alias} (${socket.id})`);
 
-        callback({ ok: true, code, playerId: hostPlayerId, alias, colorId, host: true, game });
+        callback({
+          ok: true,
+          code,
+          sessionToken: issueSessionToken({ code, playerId: hostPlayerId }),
+          playerId: hostPlayerId,
+          alias,
+          colorId,
+          host: true,
+          game: buildPublicGameView(game, hostPlayerId),
+        });
         emitGameUpdate(io, game);
       } catch (err) {
         logger.error("Error in game:create", err);
@@ -141,22 +217,31 @@ export function registerSocketHandlers(io: Server) {
     socket.on(
       "game:addAI",
       (
-        payload: { code?: string; playerId?: string; alias?: string; teamId?: string; apiKey?: string },
+        payload: { code?: string; alias?: string; teamId?: string; apiKey?: string; provider?: unknown },
         callback: (response: any) => void
       ) => {
         try {
-          const code = payload.code?.toUpperCase();
-          const { playerId, alias, teamId, apiKey } = payload;
-          if (!code || !playerId) return callback({ ok: false, error: "code and playerId are required" });
+          const session = sessionFor(socket, payload.code);
+          if (!session) return callback({ ok: false, error: "No player session for this game" });
+          const { code, playerId } = session;
+          const { alias, teamId, apiKey } = payload;
 
           const game = getGame(code);
           if (!game) return callback({ ok: false, error: "Game not found" });
 
           if (playerId !== game.hostPlayerId) return callback({ ok: false, error: "Only host can add AI players" });
 
+          // Optional per-AI provider; otherwise the game's aiProvider setting applies
+          let provider: AIProviderConfig | undefined;
+          if (payload.provider !== undefined) {
+            const parsed = parseAIProviderConfig(payload.provider);
+            if (!parsed.ok) return callback({ ok: false, error: parsed.error });
+            provider = parsed.config;
+          }
+
           const aiPlayerId = randomUUID();
           const colorId = assignColor(game);
-          const aiAlias = alias ?? `AI-${colorId}`;
+          const aiAlias = normalizeOptString(alias) ?? pickAIAlias(game);
 
           const apiKeyNorm = normalizeOptString(apiKey);
 
@@ -172,13 +257,15 @@ export function registerSocketHandlers(io: Server) {
             aiData: {
               teamId: teamId ?? "impostors",
               ...(apiKeyNorm ? { apiKey: apiKeyNorm } : {}),
+              ...(provider ? { provider } : {}),
               memory: makeEmptyMemory(),
             },
           };
 
           game.players.push(aiPlayer);
+          recordPlayerJoined(game, aiPlayer);
 
-          callback({ ok: true, game });
+          callback({ ok: true, game: buildPublicGameView(game, playerId) });
           emitGameUpdate(io, game);
         } catch (err) {
           logger.error("Error in game:addAI", err);
@@ -187,7 +274,7 @@ export function registerSocketHandlers(io: Server) {
       }
     );
 
-    socket.on("game:join", (payload: { code?: string; alias?: string }, callback: (response: any) => void) => {
+    socket.on("game:join", (payload: { code?: string; alias?: string; sessionToken?: string }, callback: (response: any) => void) => {
       try {
         const code = payload.code?.toUpperCase();
         const { alias } = payload;
@@ -197,17 +284,39 @@ export function registerSocketHandlers(io: Server) {
         if (!game) return callback({ ok: false, error: "Game not found" });
         if (game.state !== "LOBBY") return callback({ ok: false, error: "Game already started" });
 
+        // A kicked player can't come back under a new alias until the ban runs out
+        const previous = verifySessionToken(payload.sessionToken);
+        const refusal = joinRefusal(game, previous?.code === code ? { previousPlayerId: previous.playerId } : {});
+        if (refusal) return callback({ ok: false, error: refusal });
+
         const playerId = randomUUID();
         const colorId = assignColor(game);
 
-        const player: Player = { playerId, alias, colorId, alive: true, connected: true, score: 0, missedSubmissions: 0 };
+        const player: Player = {
+          playerId,
+          alias,
+          colorId,
+          alive: true,
+          connected: true,
+          score: 0,
+          missedSubmissions: 0,
+        };
         game.players.push(player);
+        recordPlayerJoined(game, player);
 
-        socket.join(code);
-        socketToPlayer.set(socket.id, { code, playerId });
+        bindSession(socket, { code, playerId });
         logger.info(`Player ${alias} joined game ${code} (${socket.id})`);
 
-        callback({ ok: true, code, playerId, alias, colorId, host: false, game });
+        callback({
+          ok: true,
+          code,
+          sessionToken: issueSessionToken({ code, playerId }),
+          playerId,
+          alias,
+          colorId,
+          host: false,
+          game: buildPublicGameView(game, playerId),
+        });
         emitGameUpdate(io, game);
       } catch (err) {
         logger.error("Error in game:join", err);
@@ -215,16 +324,48 @@ export function registerSocketHandlers(io: Server) {
       }
     });
 
+    socket.on(
+      "game:updateSettings",
+      (payload: { code?: string; settings?: GameSettingsPatch }, callback: (response: any) => void) => {
+        try {
+          const session = sessionFor(socket, payload.code);
+          if (!session) return callback({ ok: false, error: "No player session for this game" });
+          if (!payload.settings || typeof payload.settings !== "object") {
+            return callback({ ok: false, error: "settings are required" });
+          }
+
+          const game = getGame(session.code);
+          if (!game) return callback({ ok: false, error: "Game not found" });
+
+          if (session.playerId !== game.hostPlayerId) return callback({ ok: false, error: "Only host can change settings" });
+          if (game.state !== "LOBBY") return callback({ ok: false, error: "Settings can only be changed in the lobby" });
+
+          const result = applySettingsPatch(getGameSettings(game), payload.settings);
+          if (!result.ok) return callback({ ok: false, error: result.error });
+
+          game.settings = result.settings;
+
+          callback({ ok: true, settings: game.settings });
+          emitGameUpdate(io, game);
+        } catch (err) {
+          logger.error("Error in game:updateSettings", err);
+          callback({ ok: false, error: "Internal server error" });
+        }
+      }
+    );
+
     socket.on(
       "game:start",
       (
-        payload: { code?: string; playerId?: string; roundType?: "TEXT" | "IMAGE" },
+        payload: { code?: string; roundType?: "TEXT" | "IMAGE" },
         callback: (response: any) => void
       ) => {
         try {
-          const code = payload.code?.toUpperCase();
-          const { playerId, roundType } = payload;
-          if (!code || !playerId) return callback({ ok: false, error: "code and playerId are required" });
+          const session = sessionFor(socket, payload.code);
+          if (!session) return callback({ ok: false, error: "No player session for this game" });
+          const { code, playerId } = session;
+          // Explicit override for the first round; otherwise the roundTypeMode setting decides
+          const roundType = payload.roundType === "TEXT" || payload.roundType === "IMAGE" ? payload.roundType : undefined;
 
           const game = getGame(code);
           if (!game) return callback({ ok: false, error: "Game not found" });
@@ -237,16 +378,25 @@ export function registerSocketHandlers(io: Server) {
           const humanCount = game.players.filter((p) => !p.isAI).length;
           if (humanCount < 2) return callback({ ok: false, error: "Need at least 2 human players to start" });
           if (game.players.length < 3) return callback({ ok: false, error: "Need at least 3 total players to start" });
+          const aiCount = game.players.length - humanCount;
+          const wantsImages = roundType === "IMAGE" || getGameSettings(game).roundTypeMode !== "TEXT";
+          if (wantsImages && !hasStockImages(aiCount)) {
+            return callback({ ok: false, error: `Image rounds need at least ${aiCount} AI stock images on the server, one per AI` });
+          }
 
           delete game.winner; // exactOptionalPropertyTypes-safe
           game.state = "IN_PROGRESS";
           game.roundNumber = 0;
           game.rounds = [];
 
-          const round = startRoundForGame(game, roundType ?? "TEXT");
+          const round = startRoundForGame(game, roundType);
           if (!round) return callback({ ok: false, error: "Could not start first round" });
 
-          callback({ ok: true, game, round });
+          callback({
+            ok: true,
+            game: buildPublicGameView(game, playerId),
+            round: { roundNumber: round.roundNumber, roundType: round.roundType, targetAlias: round.targetAlias },
+          });
           emitGameUpdate(io, game);
         } catch (err) {
           logger.error("Error in game:start", err);
@@ -258,13 +408,15 @@ export function registerSocketHandlers(io: Server) {
     socket.on(
       "game:restart",
       (
-        payload: { code?: string; playerId?: string; roundType?: "TEXT" | "IMAGE" },
+        payload: { code?: string; roundType?: "TEXT" | "IMAGE" },
         callback: (response: any) => void
       ) => {
         try {
-          const code = payload.code?.toUpperCase();
-          const { playerId, roundType } = payload;
-          if (!code || !playerId) return callback({ ok: false, error: "code and playerId are required" });
+          const session = sessionFor(socket, payload.code);
+          if (!session) return callback({ ok: false, error: "No player session for this game" });
+          const { code, playerId } = session;
+          // Explicit override for the first round; otherwise the roundTypeMode setting decides
+          const roundType = payload.roundType === "TEXT" || payload.roundType === "IMAGE" ? payload.roundType : undefined;
 
           const game = getGame(code);
           if (!game) return callback({ ok: false, error: "Game not found" });
@@ -272,6 +424,8 @@ export function registerSocketHandlers(io: Server) {
           if (game.state !== "GAME_OVER") return callback({ ok: false, error: "Game is not over; cannot restart yet" });
           if (playerId !== game.hostPlayerId) return callback({ ok: false, error: "Only host can restart the game" });
 
+          // Players kicked during the last match stay out of the next one
+          game.players = game.players.filter((p) => !isBanned(game, p.playerId));
           for (const p of game.players) p.alive = true;
 
           ensureAutoAIs(game);
@@ -281,10 +435,14 @@ export function registerSocketHandlers(io: Server) {
           delete game.winner; // exactOptionalPropertyTypes-safe
           game.state = "IN_PROGRESS";
 
-          const round = startRoundForGame(game, roundType ?? "TEXT");
+          const round = startRoundForGame(game, roundType);
           if (!round) return callback({ ok: false, error: "Could not start first round after restart" });
 
-          callback({ ok: true, game, round });
+          callback({
+            ok: true,
+            game: buildPublicGameView(game, playerId),
+            round: { roundNumber: round.roundNumber, roundType: round.roundType, targetAlias: round.targetAlias },
+          });
           emitGameUpdate(io, game);
         } catch (err) {
           logger.error("Error in game:restart", err);
@@ -295,15 +453,17 @@ export function registerSocketHandlers(io: Server) {
 
     socket.on(
       "round:submit",
-      (
-        payload: { code?: string; roundNumber?: number; playerId?: string; content?: string },
+      async (
+        payload: { code?: string; roundNumber?: number; content?: string },
         callback: (response: any) => void
       ) => {
         try {
-          const code = payload.code?.toUpperCase();
-          const { roundNumber, playerId, content } = payload;
-          if (!code || roundNumber == null || !playerId || !content) {
-            return callback({ ok: false, error: "code, roundNumber, playerId, content are required" });
+          const session = sessionFor(socket, payload.code);
+          if (!session) return callback({ ok: false, error: "No player session for this game" });
+          const { code, playerId } = session;
+          const { roundNumber, content } = payload;
+          if (roundNumber == null || !content) {
+            return callback({ ok: false, error: "roundNumber and content are required" });
           }
 
           const game = getGame(code);
@@ -321,18 +481,41 @@ export function registerSocketHandlers(io: Server) {
           const hasAlreadySubmitted = round.submissions.some((s) => s.playerId === playerId);
           if (hasAlreadySubmitted) return callback({ ok: false, error: "You have already submitted for this round" });
 
+          // Image bytes go through POST /api/images; submissions only carry the returned URL
+          if (round.roundType === "IMAGE" && !isStoredImageUrl(content)) {
+            return callback({ ok: false, error: "Upload an image for this round" });
+          }
+          if (round.roundType === "TEXT" && content.startsWith("data:")) {
+            return callback({ ok: false, error: "This round only accepts text" });
+          }
+
+          // Scored before anyone sees it; the round may close or a second submit land meanwhile
+          const checked = await moderateSubmission(game, round.roundNumber, playerId, content);
+          if (!checked.ok) return callback(checked);
+          if (round.status !== "SUBMITTING") return callback({ ok: false, error: "Submissions are closed for this round" });
+          if (round.submissions.some((s) => s.playerId === playerId)) {
+            return callback({ ok: false, error: "You have already submitted for this round" });
+          }
+
           const submission: Submission = {
             submissionId: randomUUID(),
             playerId,
-            content,
+            content: checked.content,
             roundNumber: Number(roundNumber),
-            submittedAt: Date.now(),
+            submittedAt: schedulerFor(game).now(),
+            ...(checked.moderation ? { moderation: checked.moderation } : {}),
           };
 
           round.submissions.push(submission);
           onSubmissionUpdated(game, round, submission);
 
-          callback({ ok: true, submissionId: submission.submissionId, gameState: game.state, roundStatus: round.status });
+          callback({
+            ok: true,
+            submissionId: submission.submissionId,
+            gameState: game.state,
+            roundStatus: round.status,
+            ...(submission.moderation ? { moderation: submission.moderation.action } : {}),
+          });
           emitGameUpdate(io, game);
         } catch (err) {
           logger.error("Error in round:submit", err);
@@ -341,7 +524,43 @@ export function registerSocketHandlers(io: Server) {
       }
     );
 
-    socket.on("round:getVoting", (payload: { code?: string; roundNumber?: number }, callback: (response: any) => void) => {
+    // Fire-and-forget; clients send typing=true every couple of seconds while composing
+    socket.on("round:typing", (payload: { code?: string; typing?: boolean }) => {
+      try {
+        const session = sessionFor(socket, payload?.code);
+        if (!session) return;
+        const game = getGame(session.code);
+        if (!game) return;
+        setTyping(game, session.playerId, payload.typing === true);
+      } catch (err) {
+        logger.error("Error in round:typing", err);
+      }
+    });
+
+    socket.on("chat:message", async (payload: { code?: string; text?: string }, callback: (response: any) => void) => {
+      try {
+        const session = sessionFor(socket, payload.code);
+        if (!session) return callback({ ok: false, error: "No player session for this game" });
+        if (typeof payload.text !== "string") return callback({ ok: false, error: "text is required" });
+
+        const game = getGame(session.code);
+        if (!game) return callback({ ok: false, error: "Game not found" });
+
+        // Validated, filtered and broadcast by chat.ts; the ack just confirms it
+        const result = await postChatMessage(game, session.playerId, payload.text);
+        if (!result.ok) return callback(result);
+
+        const round = game.rounds[game.rounds.length - 1];
+        if (round) onChatMessage(game, round, result.message);
+        callback({ ok: true, messageId: result.message.messageId, filtered: !!result.message.filtered });
+      } catch (err) {
+        logger.error("Error in chat:message", err);
+        callback({ ok: false, error: "Internal server error" });
+      }
+    });
+
+    // Discussion so far, for players who (re)load the page mid-round
+    socket.on("chat:history", (payload: { code?: string; roundNumber?: number }, callback: (response: any) => void) => {
       try {
         const code = payload.code?.toUpperCase();
         const { roundNumber } = payload;
@@ -353,20 +572,26 @@ export function registerSocketHandlers(io: Server) {
         const round = game.rounds.find((r) => r.roundNumber === Number(roundNumber));
         if (!round) return callback({ ok: false, error: "Round not found" });
 
-        const submissions: PublicVotingSubmission[] = round.submissions.map((s) => {
-          const player = game.players.find((p) => p.playerId === s.playerId);
-          return { submissionId: s.submissionId, colorId: player?.colorId ?? "unknown", content: s.content };
-        });
+        callback({ ok: true, messages: publicChat(round) });
+      } catch (err) {
+        logger.error("Error in chat:history", err);
+        callback({ ok: false, error: "Internal server error" });
+      }
+    });
 
-        for (let i = submissions.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
-          const tmp = submissions[i];
-          submissions[i] = submissions[j]!;
-          submissions[j] = tmp!;
-        }
+    socket.on("round:getVoting", (payload: { code?: string; roundNumber?: number }, callback: (response: any) => void) => {
+      try {
+        const code = payload.code?.toUpperCase();
+        const { roundNumber } = payload;
+        if (!code || roundNumber == null) return callback({ ok: false, error: "code and roundNumber are required" });
+
+        const game = getGame(code);
+        if (!game) return callback({ ok: false, error: "Game not found" });
 
-        const votingRound: PublicVotingRound = { code: game.code, roundNumber: round.roundNumber, submissions };
-        callback({ ok: true, votingRound });
+        const round = game.rounds.find((r) => r.roundNumber === Number(roundNumber));
+        if (!round) return callback({ ok: false, error: "Round not found" });
+
+        callback({ ok: true, votingRound: buildVotingRound(game, round) });
       } catch (err) {
         logger.error("Error in round:getVoting", err);
         callback({ ok: false, error: "Internal server error" });
@@ -375,13 +600,15 @@ export function registerSocketHandlers(io: Server) {
 
     socket.on(
       "round:vote",
-      (payload: { code?: string; roundNumber?: number; submissionId?: string; voterId?: string }, callback: (response: any) => void) => {
+      (payload: { code?: string; roundNumber?: number; submissionId?: string }, callback: (response: any) => void) => {
         try {
-          const code = payload.code?.toUpperCase();
-          const { roundNumber, submissionId, voterId } = payload;
+          const session = sessionFor(socket, payload.code);
+          if (!session) return callback({ ok: false, error: "No player session for this game" });
+          const { code, playerId: voterId } = session;
+          const { roundNumber, submissionId } = payload;
 
-          if (!code || roundNumber == null || !submissionId || !voterId) {
-            return callback({ ok: false, error: "code, roundNumber, submissionId, voterId are all required" });
+          if (roundNumber == null || !submissionId) {
+            return callback({ ok: false, error: "roundNumber and submissionId are required" });
           }
 
           const game = getGame(code);
@@ -419,6 +646,71 @@ export function registerSocketHandlers(io: Server) {
       }
     );
 
+    socket.on("game:kick", (payload: { code?: string; playerId?: string }, callback: (response: any) => void) => {
+      try {
+        const session = sessionFor(socket, payload.code);
+        if (!session) return callback({ ok: false, error: "No player session for this game" });
+        if (!payload.playerId) return callback({ ok: false, error: "playerId is required" });
+
+        const game = getGame(session.code);
+        if (!game) return callback({ ok: false, error: "Game not found" });
+
+        if (session.playerId !== game.hostPlayerId) return callback({ ok: false, error: "Only host can kick players" });
+        if (payload.playerId === session.playerId) return callback({ ok: false, error: "You can't kick yourself" });
+        const target = game.players.find((p) => p.playerId === payload.playerId);
+        if (!target) return callback({ ok: false, error: "Player not found" });
+
+        // Out of the room first, so the update that follows doesn't reach them
+        for (const socketId of socketIdsFor(game.code, target.playerId)) {
+          socketToPlayer.delete(socketId);
+          const kicked = io.sockets.sockets.get(socketId);
+          if (!kicked) continue;
+          kicked.emit("game:kicked", { code: game.code });
+          kicked.leave(game.code);
+        }
+        kickPlayer(game, target.playerId, session.playerId);
+        logger.info(`Player ${target.alias} kicked from game ${game.code}`);
+
+        callback({ ok: true, game: buildPublicGameView(game, session.playerId) });
+      } catch (err) {
+        logger.error("Error in game:kick", err);
+        callback({ ok: false, error: "Internal server error" });
+      }
+    });
+
+    // Players point at a color; the host hears about it and the moderation log keeps it
+    socket.on(
+      "player:report",
+      (payload: { code?: string; colorId?: string; reason?: string }, callback: (response: any) => void) => {
+        try {
+          const session = sessionFor(socket, payload.code);
+          if (!session) return callback({ ok: false, error: "No player session for this game" });
+          if (!payload.colorId) return callback({ ok: false, error: "colorId is required" });
+
+          const game = getGame(session.code);
+          if (!game) return callback({ ok: false, error: "Game not found" });
+
+          const target = game.players.find((p) => p.colorId === payload.colorId);
+          if (!target) return callback({ ok: false, error: "Player not found" });
+
+          const reason = typeof payload.reason === "string" ? payload.reason.trim() : undefined;
+          const result = reportPlayer(game, session.playerId, target.playerId, reason);
+          if (!result.ok) return callback(result);
+
+          const { colorId, alias, count } = result.summary;
+          for (const socketId of socketIdsFor(game.code, game.hostPlayerId)) {
+            io.to(socketId).emit("player:reported", { code: game.code, colorId, alias, count });
+          }
+
+          callback({ ok: true });
+          emitGameUpdate(io, game);
+        } catch (err) {
+          logger.error("Error in player:report", err);
+          callback({ ok: false, error: "Internal server error" });
+        }
+      }
+    );
+
     socket.on("game:get", (payload: { code?: string }, callback: (response: any) => void) => {
       try {
         const code = payload.code?.toUpperCase();
@@ -427,32 +719,59 @@ export function registerSocketHandlers(io: Server) {
         const game = getGame(code);
         if (!game) return callback({ ok: false, error: "Game not found" });
 
-        callback({ ok: true, game });
+        callback({ ok: true, game: buildPublicGameView(game, viewerIdFor(socket.id, code)) });
       } catch (err) {
         logger.error("Error in game:get", err);
         callback({ ok: false, error: "Internal server error" });
       }
     });
 
-    socket.on("game:reconnect", (payload: { code?: string; playerId?: string }, callback: (response: any) => void) => {
+    // Finished matches only, for players of this game: replays reveal who was an AI
+    socket.on("game:replay", (payload: { code?: string }, callback: (response: any) => void) => {
       try {
-        const code = payload.code?.toUpperCase();
-        const { playerId } = payload;
-        if (!code || !playerId) return callback({ ok: false, error: "code and playerId are required" });
+        const session = sessionFor(socket, payload.code);
+        if (!session) return callback({ ok: false, error: "No player session for this game" });
+
+        const game = getGame(session.code);
+        if (!game) return callback({ ok: false, error: "Game not found" });
+
+        callback({ ok: true, matches: buildReplays(game) });
+      } catch (err) {
+        logger.error("Error in game:replay", err);
+        callback({ ok: false, error: "Internal server error" });
+      }
+    });
+
+    socket.on("prompts:listPacks", (_payload: unknown, callback: (response: any) => void) => {
+      try {
+        callback({ ok: true, packs: listPromptPacks() });
+      } catch (err) {
+        logger.error("Error in prompts:listPacks", err);
+        callback({ ok: false, error: "Internal server error" });
+      }
+    });
+
+    socket.on("game:reconnect", (payload: { sessionToken?: string }, callback: (response: any) => void) => {
+      try {
+        const session = verifySessionToken(payload.sessionToken);
+        if (!session) return callback({ ok: false, error: "Invalid or expired session" });
+        const { code, playerId } = session;
 
         const game = getGame(code);
         if (!game) return callback({ ok: false, error: "Game not found" });
 
+        if (isBanned(game, playerId)) return callback({ ok: false, error: "You were removed from this game" });
         const player = game.players.find((p) => p.playerId === playerId);
         if (!player) return callback({ ok: false, error: "Player not found" });
 
-        socket.join(code);
-        socketToPlayer.set(socket.id, { code, playerId });
+        bindSession(socket, session);
         player.connected = true;
 
         callback({
           ok: true,
-          game,
+          game: buildPublicGameView(game, player.playerId),
+          // A fresh token, so a player who keeps coming back isn't logged out by its max age
+          sessionToken: issueSessionToken(session),
           playerId: player.playerId,
           alias: player.alias,
           colorId: player.colorId,